@@ -0,0 +1,197 @@
+// Stand-in IP camera for trying network stream sources without real hardware.
+//
+//   npm run stream-server                         # ffmpeg test pattern
+//   npm run stream-server -- path/to/clip.mp4     # loop a clip instead
+//   npm run stream-server -- clip.mp4 --port 9000 --rtsp rtsp://localhost:8554/test
+//
+// Serves, with CORS open to the dev server:
+//   http://localhost:8081/video.mjpg              MJPEG over HTTP
+//   http://localhost:8081/video.mjpg?dropAfter=20 same, but hangs up after 20 s to exercise reconnection
+//   http://localhost:8081/hls/stream.m3u8         live HLS playlist
+//
+// WebRTC needs a media server, so for WHEP run MediaMTX (https://github.com/bluenviron/mediamtx)
+// and pass --rtsp to publish the same loop to it; the WHEP endpoint is then
+// http://localhost:8889/test/whep. Requires ffmpeg on the PATH.
+import { spawn } from 'node:child_process';
+import { createServer } from 'node:http';
+import { mkdtempSync, readFile, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { extname, join, normalize } from 'node:path';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(name);
+  if (index === -1) return fallback;
+  const [, value] = args.splice(index, 2);
+  return value;
+};
+
+const PORT = Number(option('--port', 8081));
+const RTSP_URL = option('--rtsp', null);
+const FPS = Number(option('--fps', 15));
+const CLIP = args[0] ?? null;
+const BOUNDARY = 'frame';
+const MAX_CLIENT_BACKLOG = 1024 * 1024; // bytes
+const HLS_DIR = mkdtempSync(join(tmpdir(), 'stream-server-'));
+
+const CONTENT_TYPES = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t'
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Expose-Headers': 'Location'
+};
+
+// Loops the clip forever at its own frame rate, or plays a generated test pattern
+function inputArgs() {
+  return CLIP
+    ? ['-re', '-stream_loop', '-1', '-i', CLIP]
+    : ['-re', '-f', 'lavfi', '-i', `testsrc2=size=1280x720:rate=${FPS}`];
+}
+
+const children = [];
+let shuttingDown = false;
+
+function runFfmpeg(name, outputArgs, stdio = ['ignore', 'ignore', 'inherit']) {
+  const child = spawn('ffmpeg', ['-hide_banner', '-loglevel', 'error', ...inputArgs(), ...outputArgs], { stdio });
+  child.on('error', (error) => {
+    console.error(error.code === 'ENOENT'
+      ? 'ffmpeg was not found. Install it and make sure it is on the PATH.'
+      : `Could not start ffmpeg for ${name}: ${error.message}`);
+    shutdown(1);
+  });
+  child.on('exit', (code, signal) => {
+    // Ctrl+C reaches ffmpeg too, sometimes before this process handles it
+    if (shuttingDown || signal) {
+      shutdown();
+      return;
+    }
+    console.error(`ffmpeg for ${name} exited with code ${code}`);
+    shutdown(1);
+  });
+  children.push(child);
+  return child;
+}
+
+// One encoder feeds every MJPEG client; frames are cut at the JPEG start/end markers
+const mjpegClients = new Set();
+let latestFrame = null;
+
+function startMjpeg() {
+  const encoder = runFfmpeg('MJPEG', ['-an', '-vf', `fps=${FPS}`, '-q:v', '5', '-f', 'mjpeg', 'pipe:1'], ['ignore', 'pipe', 'inherit']);
+  let buffer = Buffer.alloc(0);
+  encoder.stdout.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const start = buffer.indexOf(Buffer.from([0xff, 0xd8]));
+      const end = start === -1 ? -1 : buffer.indexOf(Buffer.from([0xff, 0xd9]), start + 2);
+      if (end === -1) break;
+      latestFrame = buffer.subarray(start, end + 2);
+      buffer = buffer.subarray(end + 2);
+      mjpegClients.forEach(send => send(latestFrame));
+    }
+  });
+}
+
+function startHls() {
+  runFfmpeg('HLS', [
+    '-an', '-c:v', 'libx264', '-preset', 'veryfast', '-tune', 'zerolatency', '-pix_fmt', 'yuv420p',
+    '-g', String(FPS * 2), '-f', 'hls', '-hls_time', '2', '-hls_list_size', '6',
+    '-hls_flags', 'delete_segments+omit_endlist',
+    '-hls_segment_filename', join(HLS_DIR, 'segment%05d.ts'),
+    join(HLS_DIR, 'stream.m3u8')
+  ]);
+}
+
+function startRtsp() {
+  runFfmpeg('RTSP', ['-an', '-c:v', 'libx264', '-preset', 'veryfast', '-tune', 'zerolatency', '-pix_fmt', 'yuv420p',
+    '-g', String(FPS * 2), '-f', 'rtsp', RTSP_URL]);
+}
+
+function serveMjpeg(response, url) {
+  const dropAfter = Number(url.searchParams.get('dropAfter')) || 0;
+  response.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': `multipart/x-mixed-replace; boundary=${BOUNDARY}`,
+    'Cache-Control': 'no-store',
+    Connection: 'close'
+  });
+
+  const send = (frame) => {
+    // A client that cannot keep up skips frames instead of buffering them in the server
+    if (response.writableLength > MAX_CLIENT_BACKLOG) return;
+    response.write(`--${BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${frame.length}\r\n\r\n`);
+    response.write(frame);
+    response.write('\r\n');
+  };
+  if (latestFrame) send(latestFrame);
+  mjpegClients.add(send);
+
+  const timer = dropAfter > 0 ? setTimeout(() => response.destroy(), dropAfter * 1000) : null;
+  response.on('close', () => {
+    mjpegClients.delete(send);
+    if (timer) clearTimeout(timer);
+  });
+}
+
+function serveHls(response, path) {
+  const file = normalize(path.slice('/hls/'.length));
+  if (file.startsWith('..') || file.includes('/')) {
+    response.writeHead(404, CORS_HEADERS).end();
+    return;
+  }
+  readFile(join(HLS_DIR, file), (error, data) => {
+    if (error) {
+      // The playlist appears once the first segment is written
+      response.writeHead(404, CORS_HEADERS).end();
+      return;
+    }
+    response.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': CONTENT_TYPES[extname(file)] ?? 'application/octet-stream',
+      'Cache-Control': 'no-store'
+    });
+    response.end(data);
+  });
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`);
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS).end();
+  } else if (url.pathname === '/video.mjpg') {
+    serveMjpeg(response, url);
+  } else if (url.pathname.startsWith('/hls/')) {
+    serveHls(response, url.pathname);
+  } else if (url.pathname === '/') {
+    response.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/plain' });
+    response.end(`MJPEG: http://localhost:${PORT}/video.mjpg\nHLS:   http://localhost:${PORT}/hls/stream.m3u8\n`);
+  } else {
+    response.writeHead(404, CORS_HEADERS).end();
+  }
+});
+
+function shutdown(code = 0) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  children.forEach(child => child.kill());
+  server.close();
+  rmSync(HLS_DIR, { recursive: true, force: true });
+  process.exit(code);
+}
+
+process.on('SIGINT', () => shutdown());
+process.on('SIGTERM', () => shutdown());
+
+server.listen(PORT, () => {
+  startMjpeg();
+  startHls();
+  if (RTSP_URL) startRtsp();
+  console.log(`Looping ${CLIP ?? 'a test pattern'}`);
+  console.log(`MJPEG: http://localhost:${PORT}/video.mjpg`);
+  console.log(`HLS:   http://localhost:${PORT}/hls/stream.m3u8`);
+  if (RTSP_URL) console.log(`RTSP:  ${RTSP_URL} (WHEP through MediaMTX, e.g. http://localhost:8889/test/whep)`);
+});
@@ -1,15 +1,66 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
 import Webcam from 'react-webcam';
 import { 
   Upload, Camera, Play, Pause, MessageSquare, Loader2, 
   Menu, X, Video, Sun, Moon, Upload as UploadIcon,
   Settings, Info, Github, FlipHorizontal, Bug, Terminal,
-  CameraOff, LineChart, Gauge, ArrowDown
+  CameraOff, LineChart, Gauge, ArrowDown, PenTool, Bell, Flame, BarChart3, Activity, Send, Film, History, LayoutGrid, Radio
 } from 'lucide-react';
-import { loadModel, analyzeVideo, analyzeFrame, type PersonAnnotation } from './utils/model';
+import { loadModel, detectFrame, narrateFrame, resetTracking, type FrameDetection, type PersonAnnotation } from './utils/model';
+import {
+  createAnalysisScheduler,
+  loadNarrationSettings,
+  saveNarrationSettings,
+  type NarrationSettings,
+  type SchedulerStats
+} from './utils/scheduler';
+import { listDetectors, getActiveDetectorId, setActiveDetector, type DetectorId } from './utils/detectors';
+import type { AlertEvent, AlertSeverity } from './utils/alertRules';
+import { analyzeVideoOccupancy, createOccupancyAnalytics, type OccupancySnapshot } from './utils/analytics';
+import { createZoneMonitor, loadZones, saveZones, type Zone, type ZoneEvent } from './utils/zones';
+import { createMotionAnalyzer, type MotionFrame } from './utils/motion';
+import { createSceneChangeGate, type SceneChange } from './utils/sceneChange';
+import { analyzeVideoTimeline, type VideoTimeline } from './utils/videoTimeline';
+import { askAboutLiveScene, createRecentFrames } from './utils/sceneChat';
+import { createDetectionRecorder } from './utils/annotationExport';
+import { createClipRecorder } from './utils/clips';
+import { createEventLogger } from './utils/eventHistory';
+import type { ReportInput } from './utils/report';
+import type { NetworkStreamConfig } from './utils/networkStream';
+import {
+  alertLayer,
+  boxLayer,
+  createTrails,
+  flowLayer,
+  heatmapLayer,
+  keypointLayer,
+  labelLayer,
+  trailLayer,
+  zoneLayer,
+  type OverlayLabel,
+  type OverlayLayer
+} from './utils/overlay';
+import { createDwellMonitor, formatDuration, loadLoiterThreshold, saveLoiterThreshold, type DwellRecord } from './utils/dwell';
 import { TrainingTab } from './components/TrainingTab';
 import { TestingTab } from './components/TestingTab';
+import { ZoneEditor } from './components/ZoneEditor';
+import { AlertFeed } from './components/AlertFeed';
+import { AlertRulesTab } from './components/AlertRulesTab';
+import { OccupancyPanel } from './components/OccupancyPanel';
+import { LoiteringPanel } from './components/LoiteringPanel';
+import { VideoChapters } from './components/VideoChapters';
+import { VideoQuestions } from './components/VideoQuestions';
+import { LabelExport } from './components/LabelExport';
+import { VideoOverlay } from './components/VideoOverlay';
+import { RedactionControl } from './components/RedactionControl';
+import { VideoExport } from './components/VideoExport';
+import { ClipLibraryTab } from './components/ClipLibraryTab';
+import { HistoryTab } from './components/HistoryTab';
+import { ReportMenu } from './components/ReportMenu';
+import { CameraGridTab } from './components/CameraGridTab';
+import { NetworkStreamPlayer } from './components/NetworkStreamPlayer';
+import { StreamSourceForm } from './components/StreamSourceForm';
 import { useTypewriter } from './hooks/useTypewriter';
 
 type AnalysisMode = 'upload' | 'camera';
@@ -23,12 +74,68 @@ type DebugInfo = {
   lastUpdate: string;
 };
 
+const MAX_ZONE_EVENTS = 50;
+const MAX_ALERTS = 100;
+
+// Border colour, fill and label background per annotation alert type
+const ANNOTATION_COLORS: Record<'default' | NonNullable<PersonAnnotation['alert']>['type'], [string, string, string]> = {
+  default: ['#3b82f6', 'rgba(59, 130, 246, 0.1)', '#2563eb'],
+  warning: ['#f59e0b', 'rgba(245, 158, 11, 0.1)', '#f59e0b'],
+  danger: ['#ef4444', 'rgba(239, 68, 68, 0.15)', '#dc2626'],
+  fall: ['#dc2626', 'rgba(220, 38, 38, 0.3)', '#b91c1c']
+};
+
+const ALERT_BANNER_COLORS: Record<AlertSeverity, string> = {
+  info: '#93c5fd',
+  warning: '#fcd34d',
+  danger: '#fca5a5'
+};
+
+const DWELL_LABEL_COLOR = '#f59e0b';
+const ALERT_BANNER_MS = 5000; // how long a fired alert stays on the video
+const MAX_ALERT_BANNERS = 3;
+// Live label export keeps a short, scaled-down window like the clip buffer, since every frame holds a JPEG
+const LIVE_LABEL_LIMITS = {
+  minInterval: 500, // ms between frames kept
+  maxFrames: 60, // the last 30 s
+  maxWidth: 640
+};
+
+// Narration and answers are the assistant; follow-up questions typed into the panel are the user
 type AnalysisMessage = {
   id: string;
+  role: 'user' | 'assistant';
   text: string;
   timestamp: Date;
+  thumbnail?: string | null; // the frame narration described, kept for reports
 };
 
+let messageCounter = 0;
+
+function renderAnnotationLabel(annotation: PersonAnnotation) {
+  const trackLabel = annotation.trackId !== undefined ? `#${annotation.trackId}` : '';
+
+  if (annotation.class) {
+    return [trackLabel, annotation.class].filter(Boolean).join(' ');
+  }
+  
+  const details = [];
+  if (trackLabel) details.push(trackLabel);
+  if (!annotation.faceBox) {
+    details.push('unknown');
+    return details.join(' • ');
+  }
+
+  const withConfidence = (value: string, confidence?: number) =>
+    confidence !== undefined ? `${value} ${Math.round(confidence * 100)}%` : value;
+
+  details.push(withConfidence(annotation.gender, annotation.genderConfidence));
+  details.push(annotation.ageRange);
+  details.push(withConfidence(annotation.expression, annotation.expressionConfidence));
+  
+  return details.join(' • ');
+}
+
 function App() {
   const [mode, setMode] = useState<AnalysisMode>('camera');
   const [videoSource, setVideoSource] = useState<VideoSource>(null);
@@ -45,8 +152,37 @@ function App() {
   const [isMobile, setIsMobile] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
   const [isCameraEnabled, setIsCameraEnabled] = useState(false);
-  const [activeTab, setActiveTab] = useState<'camera' | 'training' | 'testing'>('camera');
+  // An IP camera replaces the webcam in the live view while one is connected
+  const [networkStream, setNetworkStream] = useState<NetworkStreamConfig | null>(null);
+  const [activeTab, setActiveTab] = useState<'camera' | 'training' | 'testing' | 'rules' | 'clips' | 'history' | 'grid'>('camera');
   const [autoScroll, setAutoScroll] = useState(true);
+  const [detectorId, setDetectorId] = useState<DetectorId>(getActiveDetectorId);
+  const [zones, setZones] = useState<Zone[]>(() => loadZones(facingMode));
+  const [zoneEvents, setZoneEvents] = useState<ZoneEvent[]>([]);
+  const [alerts, setAlerts] = useState<AlertEvent[]>([]);
+  const [bannerClock, setBannerClock] = useState(Date.now);
+  const [newClipCount, setNewClipCount] = useState(0);
+  const [activeZoneIds, setActiveZoneIds] = useState<string[]>([]);
+  const [isEditingZones, setIsEditingZones] = useState(false);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [occupancy, setOccupancy] = useState<OccupancySnapshot | null>(null);
+  const [uploadOccupancy, setUploadOccupancy] = useState<OccupancySnapshot | null>(null);
+  const [occupancyProgress, setOccupancyProgress] = useState<number | null>(null);
+  const [timeline, setTimeline] = useState<VideoTimeline | null>(null);
+  const [timelineProgress, setTimelineProgress] = useState<number | null>(null);
+  const [uploadTime, setUploadTime] = useState(0);
+  const [uploadVideoSize, setUploadVideoSize] = useState({ width: 0, height: 0 });
+  const [dwellRecords, setDwellRecords] = useState<DwellRecord[]>([]);
+  const [loiterThreshold, setLoiterThreshold] = useState(loadLoiterThreshold);
+  const [motion, setMotion] = useState<MotionFrame | null>(null);
+  const [showMotion, setShowMotion] = useState(false);
+  const [narrationSettings, setNarrationSettings] = useState<NarrationSettings>(loadNarrationSettings);
+  const [schedulerStats, setSchedulerStats] = useState<SchedulerStats | null>(null);
+  const [sceneChange, setSceneChange] = useState<SceneChange | null>(null);
+  const [chatInput, setChatInput] = useState('');
+  const [isAnswering, setIsAnswering] = useState(false);
   const [debugInfo, setDebugInfo] = useState<DebugInfo>({
     hasFrame: false,
     frameSize: 0,
@@ -60,36 +196,86 @@ function App() {
     return 'dark';
   });
   
-  const analysisLoopRef = useRef<number>();
   const isAnalyzingRef = useRef(false);
-  const lastAnalysisTimeRef = useRef<number>(0);
+  const [scheduler] = useState(() => createAnalysisScheduler(narrationSettings));
   const analysisUpdateIntervalRef = useRef<NodeJS.Timeout>();
-  const videoContainerRef = useRef<HTMLDivElement>(null);
+  const uploadVideoRef = useRef<HTMLVideoElement>(null);
   const webcamRef = React.useRef<Webcam>(null);
+  const streamVideoRef = useRef<HTMLVideoElement>(null);
+  const zonesRef = useRef<Zone[]>(zones);
+  const [zoneMonitor] = useState(() => createZoneMonitor());
+  const [analytics] = useState(() => createOccupancyAnalytics());
+  const [dwellMonitor] = useState(() => createDwellMonitor(loiterThreshold));
+  const [motionAnalyzer] = useState(() => createMotionAnalyzer());
+  const [sceneGate] = useState(() => createSceneChangeGate());
+  const [recentFrames] = useState(() => createRecentFrames());
+  const lastDetectionRef = useRef<FrameDetection | null>(null);
+  const [labelRecorder] = useState(() => createDetectionRecorder('camera', LIVE_LABEL_LIMITS));
+  const labelStartRef = useRef(0);
+  const [trails] = useState(() => createTrails());
+  const [clipRecorder] = useState(() => createClipRecorder(
+    () => setNewClipCount(prev => prev + 1),
+    (clipError) => setError(clipError.message)
+  ));
+  const [eventLogger] = useState(() => createEventLogger());
+  // Every alert since analysis started; the feed is capped and can be dismissed, reports need them all
+  const sessionAlertsRef = useRef<AlertEvent[]>([]);
 
   const { displayedText, isTyping, containerRef, reset: resetTypewriter } = useTypewriter(analysis, 20, autoScroll);
+  const lastAssistantIndex = analysisMessages.map(message => message.role).lastIndexOf('assistant');
+  // Zones, events and clips are filed under the live source they came from
+  const liveSourceId = networkStream?.id ?? facingMode;
+  const liveSourceName = networkStream?.label ?? facingMode;
+  const isMirrored = !networkStream && facingMode === 'user';
+
+  // The stream player only exists while a network camera is connected, so this falls back to the webcam
+  const liveVideo = () => streamVideoRef.current ?? webcamRef.current?.video ?? null;
 
   const clearAnalysis = useCallback(() => {
     setAnalysis('');
     setAnalysisMessages([]);
     setAnnotations([]);
-    if (analysisLoopRef.current) {
-      cancelAnimationFrame(analysisLoopRef.current);
-      analysisLoopRef.current = undefined;
-    }
+    scheduler.stop();
+    setSchedulerStats(null);
     isAnalyzingRef.current = false;
-    lastAnalysisTimeRef.current = 0;
-  }, []);
+    resetTracking();
+    zoneMonitor.reset();
+    setActiveZoneIds([]);
+    analytics.reset();
+    setOccupancy(null);
+    dwellMonitor.reset();
+    setDwellRecords([]);
+    motionAnalyzer.reset();
+    setMotion(null);
+    sceneGate.reset();
+    setSceneChange(null);
+    recentFrames.reset();
+    lastDetectionRef.current = null;
+    labelRecorder.reset();
+    trails.reset();
+    clipRecorder.stop();
+    eventLogger.reset();
+    sessionAlertsRef.current = [];
+  }, [scheduler, zoneMonitor, analytics, dwellMonitor, motionAnalyzer, sceneGate, recentFrames, labelRecorder, trails, clipRecorder, eventLogger]);
 
-  const addAnalysisMessage = useCallback((text: string) => {
+  const addAnalysisMessage = useCallback((
+    text: string,
+    role: AnalysisMessage['role'] = 'assistant',
+    thumbnail: string | null = null
+  ) => {
     const newMessage: AnalysisMessage = {
-      id: Date.now().toString(),
+      id: `${Date.now()}-${messageCounter++}`,
+      role,
       text,
-      timestamp: new Date()
+      timestamp: new Date(),
+      thumbnail
     };
     setAnalysisMessages(prev => [...prev, newMessage]);
-    setAnalysis(text);
-    resetTypewriter();
+    // Only assistant text is typed out; the user's own question appears at once
+    if (role === 'assistant') {
+      setAnalysis(text);
+      resetTypewriter();
+    }
   }, [resetTypewriter]);
 
   useEffect(() => {
@@ -110,6 +296,33 @@ function App() {
     setFacingMode(prev => prev === 'user' ? 'environment' : 'user');
   };
 
+  // Zones are drawn per camera, so switching cameras swaps the zone set
+  useEffect(() => {
+    const cameraZones = loadZones(liveSourceId);
+    setZones(cameraZones);
+    zonesRef.current = cameraZones;
+    zoneMonitor.reset();
+  }, [liveSourceId, zoneMonitor]);
+
+  // Zones belong to the live camera, so an uploaded video has none to keep unredacted
+  const redactionZones = useMemo(() => mode === 'camera' ? zones : [], [mode, zones]);
+
+  const updateZones = (nextZones: Zone[]) => {
+    setZones(nextZones);
+    zonesRef.current = nextZones;
+    saveZones(liveSourceId, nextZones);
+  };
+
+  const handleUserMedia = () => {
+    const video = webcamRef.current?.video;
+    if (!video) return;
+
+    const updateSize = () => setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+    video.addEventListener('loadedmetadata', updateSize);
+    video.addEventListener('resize', updateSize);
+    updateSize();
+  };
+
   const toggleCameraEnabled = () => {
     setIsCameraEnabled(prev => !prev);
     if (isRecording) {
@@ -127,14 +340,41 @@ function App() {
     });
 
     return () => {
-      if (analysisLoopRef.current) {
-        cancelAnimationFrame(analysisLoopRef.current);
-      }
+      scheduler.stop();
       if (analysisUpdateIntervalRef.current) {
         clearInterval(analysisUpdateIntervalRef.current);
       }
     };
-  }, []);
+  }, [scheduler]);
+
+  const changeNarrationSettings = (changes: Partial<NarrationSettings>) => {
+    const next = { ...narrationSettings, ...changes };
+    setNarrationSettings(next);
+    saveNarrationSettings(next);
+    scheduler.setConfig(next);
+  };
+
+  const changeLoiterThreshold = (seconds: number) => {
+    setLoiterThreshold(seconds);
+    saveLoiterThreshold(seconds);
+    dwellMonitor.setThreshold(seconds);
+  };
+
+  const changeDetector = (id: DetectorId) => {
+    setIsRecording(false);
+    clearAnalysis();
+    setActiveDetector(id);
+    setDetectorId(id);
+    setIsModelLoaded(false);
+    loadModel().then(() => {
+      setIsModelLoaded(true);
+      setError('');
+    }).catch(error => {
+      setError('Failed to load the selected detection model.');
+      console.error('Model loading error:', error);
+      setIsModelLoaded(true);
+    });
+  };
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
@@ -146,6 +386,8 @@ function App() {
       const videoUrl = URL.createObjectURL(file);
       setVideoSource(videoUrl);
       setVideoFile(file);
+      setUploadOccupancy(null);
+      setTimeline(null);
       setError('');
       setMode('upload');
       setIsSidebarOpen(false);
@@ -160,62 +402,178 @@ function App() {
     maxFiles: 1
   });
 
-  const handleQuestionSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
-    
+  const analyzeUploadTimeline = async () => {
     if (!videoFile) {
       setError('Please upload a video first.');
       return;
     }
 
+    setError('');
+    setTimeline(null);
+    setTimelineProgress(0);
     setIsLoading(true);
     try {
-      const result = await analyzeVideo(videoFile);
-      addAnalysisMessage(result);
+      const result = await analyzeVideoTimeline(videoFile, setTimelineProgress);
+      setTimeline(result);
+      addAnalysisMessage(result.summary);
+      eventLogger.commentary(result.summary, uploadVideoRef.current, videoFile.name);
     } catch (error) {
-      setError('Error analyzing video. Please try again.');
+      setError(error instanceof Error ? error.message : 'Error analyzing video. Please try again.');
       console.error(error);
     } finally {
+      setTimelineProgress(null);
       setIsLoading(false);
     }
   };
 
-  const analyzeWebcamFrame = async () => {
-    if (!webcamRef.current?.video || !isAnalyzingRef.current) {
-      clearAnalysis();
-      return;
-    }
+  const seekUpload = (time: number) => {
+    if (!uploadVideoRef.current) return;
+    uploadVideoRef.current.currentTime = time / 1000;
+  };
 
-    const currentTime = Date.now();
-    if (currentTime - lastAnalysisTimeRef.current < 10000) {
-      analysisLoopRef.current = requestAnimationFrame(analyzeWebcamFrame);
-      return;
-    }
+  const analyzeUploadOccupancy = async () => {
+    if (!videoFile) return;
 
+    setError('');
+    setUploadOccupancy(null);
+    setOccupancyProgress(0);
     try {
-      const result = await analyzeFrame(webcamRef.current.video);
-      if (result && isAnalyzingRef.current) {
-        addAnalysisMessage(result.commentary);
+      const snapshot = await analyzeVideoOccupancy(videoFile, setOccupancyProgress);
+      setUploadOccupancy(snapshot);
+      setShowAnalytics(true);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Error analyzing foot traffic. Please try again.');
+      console.error(error);
+    } finally {
+      setOccupancyProgress(null);
+    }
+  };
+
+  // Detection runs at an adaptive rate; narration follows its own cadence and never blocks it
+  const startWebcamAnalysis = () => {
+    scheduler.start({
+      detect: async () => {
+        const video = liveVideo();
+        if (!video) throw new Error('Camera is not available');
+
+        const result = await detectFrame(video, {
+          zones: zonesRef.current,
+          zoneMonitor: zoneMonitor,
+          analytics: analytics,
+          dwellMonitor: dwellMonitor,
+          motionAnalyzer: motionAnalyzer,
+          source: liveSourceName
+        });
+        if (!isAnalyzingRef.current) return result;
+
+        lastDetectionRef.current = result;
+        // Live frames are timed from the first recorded detection
+        if (labelRecorder.frameCount() === 0) labelStartRef.current = Date.now();
+        labelRecorder.record(Date.now() - labelStartRef.current, result.detections, {
+          width: video.videoWidth,
+          height: video.videoHeight
+        }, video);
+        trails.update(result.detections);
+        clipRecorder.recordDetections(result.detections);
+        clipRecorder.trigger(result.alerts);
+        eventLogger.detections(result.detections, video, liveSourceName);
+        if (result.alerts.length > 0) eventLogger.alerts(result.alerts, video);
         setAnnotations(result.annotations || []);
+        if (result.zoneEvents.length > 0) {
+          setZoneEvents(prev => [...[...result.zoneEvents].reverse(), ...prev].slice(0, MAX_ZONE_EVENTS));
+        }
+        setOccupancy(analytics.snapshot());
+        setDwellRecords(result.dwell);
+        setMotion(result.motion);
+        if (result.alerts.length > 0) {
+          sessionAlertsRef.current.push(...result.alerts);
+          setAlerts(prev => [...[...result.alerts].reverse(), ...prev].slice(0, MAX_ALERTS));
+        }
+        setActiveZoneIds(zonesRef.current
+          .filter(zone => zoneMonitor.occupants(zone.id).length > 0)
+          .map(zone => zone.id));
+        return result;
+      },
+      narrate: async (result) => {
+        const video = liveVideo();
+        if (!video) return;
 
+        const narration = await narrateFrame(video, result.scene, sceneGate, zonesRef.current);
+        if (!isAnalyzingRef.current) return;
+
+        setSceneChange(narration.change ?? null);
+        if (narration.commentary === null) {
+          // Say so once per quiet stretch instead of repeating the last description
+          if (narration.change?.firstSkip) addAnalysisMessage('No significant change in the scene.');
+          return false;
+        }
+
+        addAnalysisMessage(narration.commentary, 'assistant', narration.frame);
+        clipRecorder.addCommentary(narration.commentary);
+        eventLogger.commentary(narration.commentary, video, liveSourceName);
+        if (narration.frame) recentFrames.add(narration.frame);
         setDebugInfo({
-          hasFrame: !!result.frame,
-          frameSize: result.frame?.length || 0,
+          hasFrame: !!narration.frame,
+          frameSize: narration.frame?.length || 0,
           messageCount: 2,
           lastUpdate: new Date().toISOString()
         });
-        
-        lastAnalysisTimeRef.current = currentTime;
-      }
-    } catch (error) {
-      console.error('Analysis error:', error);
-    }
+      },
+      isEvent: (result) => result.alerts.length > 0 || result.zoneEvents.length > 0,
+      onStats: setSchedulerStats
+    });
+  };
 
-    if (isAnalyzingRef.current) {
-      analysisLoopRef.current = requestAnimationFrame(analyzeWebcamFrame);
-    } else {
-      clearAnalysis();
+  const getReportInput = (): ReportInput => {
+    const liveOccupancy = analytics.snapshot();
+    return {
+      mode,
+      sourceName: mode === 'camera'
+        ? networkStream?.label ?? (facingMode === 'user' ? 'front camera' : 'rear camera')
+        : videoFile?.name ?? 'video',
+      entries: analysisMessages.map(message => ({
+        time: message.timestamp.getTime(),
+        role: message.role,
+        text: message.text,
+        thumbnail: message.thumbnail
+      })),
+      alerts: mode === 'camera' ? sessionAlertsRef.current : [],
+      occupancy: mode === 'camera'
+        ? (liveOccupancy.series.length > 0 ? liveOccupancy : null)
+        : uploadOccupancy,
+      timeline: mode === 'upload' ? timeline : null,
+      narration: narrationSettings,
+      videoElement: mode === 'camera' ? liveVideo() : uploadVideoRef.current,
+      redactionZones
+    };
+  };
+
+  const askLiveQuestion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = chatInput.trim();
+    const video = liveVideo();
+    if (!question || !video || isAnswering) return;
+
+    const history = analysisMessages.map(message => ({ role: message.role, content: message.text }));
+    addAnalysisMessage(question, 'user');
+    setChatInput('');
+    setIsAnswering(true);
+    try {
+      const answer = await askAboutLiveScene(
+        question,
+        video,
+        lastDetectionRef.current,
+        recentFrames.list(),
+        history,
+        isMirrored,
+        zonesRef.current
+      );
+      addAnalysisMessage(answer);
+    } catch (error) {
+      setError('Error answering the question. Please try again.');
+      console.error(error);
+    } finally {
+      setIsAnswering(false);
     }
   };
 
@@ -224,8 +582,9 @@ function App() {
       clearAnalysis();
       setIsRecording(true);
       isAnalyzingRef.current = true;
-      lastAnalysisTimeRef.current = 0;
-      analyzeWebcamFrame();
+      startWebcamAnalysis();
+      const video = liveVideo();
+      if (video) clipRecorder.start(video, liveSourceName);
     } else {
       setIsRecording(false);
       clearAnalysis();
@@ -241,18 +600,75 @@ function App() {
     setTheme(prev => prev === 'dark' ? 'light' : 'dark');
   };
 
-  const renderAnnotationLabel = (annotation: PersonAnnotation) => {
-    if (annotation.class) {
-      return annotation.class;
-    }
-    
-    const details = [];
-    if (annotation.gender) details.push(annotation.gender);
-    if (annotation.ageRange) details.push(annotation.ageRange);
-    if (annotation.expression) details.push(annotation.expression);
-    
-    return details.join(' • ');
-  };
+  // Alert banners expire on a timer, since the layers below are only rebuilt when their inputs change
+  useEffect(() => {
+    const now = Date.now();
+    const expiries = alerts
+      .slice(0, MAX_ALERT_BANNERS)
+      .map(alert => alert.timestamp + ALERT_BANNER_MS)
+      .filter(expiry => expiry > now);
+    if (expiries.length === 0) return;
+    const timer = setTimeout(() => setBannerClock(Date.now()), Math.min(...expiries) - now);
+    return () => clearTimeout(timer);
+  }, [alerts, bannerClock]);
+
+  // Heatmap layers render a canvas each, so they are only rebuilt when their data changes
+  const occupancyHeatmap = useMemo(
+    () => showHeatmap && occupancy ? heatmapLayer(occupancy.heatmap) : null,
+    [showHeatmap, occupancy]
+  );
+  useEffect(() => {
+    motionAnalyzer.setFlow(showMotion);
+  }, [motionAnalyzer, showMotion]);
+
+  const motionLayers = useMemo(
+    () => showMotion && motion ? [heatmapLayer(motion.energy), flowLayer(motion.flow)] : [],
+    [showMotion, motion]
+  );
+  const uploadHeatmap = useMemo(
+    () => showHeatmap && uploadOccupancy ? heatmapLayer(uploadOccupancy.heatmap) : null,
+    [showHeatmap, uploadOccupancy]
+  );
+
+  // Everything drawn over the live camera, bottom to top. Memoized so re-renders that change
+  // nothing on the video, like the typewriter's ticks, do not redraw the overlay.
+  const cameraLayers = useMemo((): OverlayLayer[] => {
+    const layers: OverlayLayer[] = [];
+    if (occupancyHeatmap) layers.push(occupancyHeatmap);
+    layers.push(...motionLayers);
+    // The editor draws zones itself while they are being changed
+    if (!isEditingZones) layers.push(zoneLayer(zones, activeZoneIds));
+
+    const now = bannerClock; // advanced past each banner's expiry by the timer above
+    layers.push(
+      trailLayer(trails.list()),
+      boxLayer(annotations.map(annotation => {
+        const [color, fill] = ANNOTATION_COLORS[annotation.alert?.type ?? 'default'];
+        return { bbox: annotation.bbox, color, fill };
+      })),
+      keypointLayer(annotations.flatMap(annotation => annotation.pose ? [annotation.pose] : [])),
+      labelLayer(annotations.flatMap(annotation => {
+        const text = renderAnnotationLabel(annotation) + (annotation.alert ? ` • ${annotation.alert.reason}` : '');
+        const labels: OverlayLabel[] = [
+          { bbox: annotation.bbox, text, color: ANNOTATION_COLORS[annotation.alert?.type ?? 'default'][2] }
+        ];
+        if (annotation.lingering && annotation.dwellTime !== undefined) {
+          labels.push({
+            bbox: annotation.bbox,
+            text: `Dwell ${formatDuration(annotation.dwellTime)}`,
+            color: DWELL_LABEL_COLOR,
+            placement: 'inside-bottom'
+          });
+        }
+        return labels;
+      })),
+      alertLayer(alerts
+        .filter(alert => now - alert.timestamp < ALERT_BANNER_MS)
+        .slice(0, MAX_ALERT_BANNERS)
+        .map(alert => ({ text: alert.message, color: ALERT_BANNER_COLORS[alert.severity] })))
+    );
+    return layers;
+  }, [occupancyHeatmap, motionLayers, trails, isEditingZones, zones, activeZoneIds, annotations, alerts, bannerClock]);
 
   const switchToCamera = useCallback(() => {
     if (videoSource) {
@@ -264,6 +680,22 @@ function App() {
     clearAnalysis();
   }, [videoSource, clearAnalysis]);
 
+  const connectStream = (config: NetworkStreamConfig) => {
+    switchToCamera();
+    setIsRecording(false);
+    setNetworkStream(config);
+    setIsCameraEnabled(true);
+    setActiveTab('camera');
+    setIsSidebarOpen(false);
+  };
+
+  const disconnectStream = () => {
+    setIsRecording(false);
+    clearAnalysis();
+    setNetworkStream(null);
+    setIsCameraEnabled(false);
+  };
+
   if (!isModelLoaded) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-[#1a1b1e] to-[#2b2d31] text-white flex items-center justify-center">
@@ -343,6 +775,67 @@ function App() {
                   </div>
                 </div>
 
+                {/* Network Stream */}
+                <div className="mb-8">
+                  <h3 className="text-lg font-medium mb-4">Network Camera</h3>
+                  {networkStream && (
+                    <div className="mb-3 flex items-center gap-3 px-4 py-3 bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400 rounded-lg">
+                      <Radio size={18} className="flex-shrink-0" />
+                      <span className="flex-1 min-w-0 text-sm truncate" title={networkStream.url}>{networkStream.label}</span>
+                      <button
+                        onClick={disconnectStream}
+                        className="text-xs font-medium hover:underline flex-shrink-0"
+                      >
+                        Disconnect
+                      </button>
+                    </div>
+                  )}
+                  <StreamSourceForm onConnect={connectStream} />
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    MJPEG over HTTP, HLS (.m3u8) or a WebRTC WHEP endpoint. The camera must allow cross-origin requests.
+                  </p>
+                </div>
+
+                {/* Detection Model */}
+                <div className="mb-8">
+                  <h3 className="text-lg font-medium mb-4">Detection Model</h3>
+                  <select
+                    value={detectorId}
+                    onChange={(e) => changeDetector(e.target.value as DetectorId)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm"
+                  >
+                    {listDetectors().map(detector => (
+                      <option key={detector.id} value={detector.id}>
+                        {detector.label} — {detector.description}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Narration */}
+                <div className="mb-8">
+                  <h3 className="text-lg font-medium mb-4">Narration</h3>
+                  <select
+                    value={narrationSettings.narrationInterval}
+                    onChange={(e) => changeNarrationSettings({ narrationInterval: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm"
+                  >
+                    <option value={5000}>Every 5 seconds</option>
+                    <option value={10000}>Every 10 seconds</option>
+                    <option value={30000}>Every 30 seconds</option>
+                    <option value={60000}>Every minute</option>
+                    <option value={0}>Only on events</option>
+                  </select>
+                  <label className="mt-3 flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={narrationSettings.narrateOnEvents}
+                      onChange={(e) => changeNarrationSettings({ narrateOnEvents: e.target.checked })}
+                    />
+                    Narrate immediately on alerts and zone events
+                  </label>
+                </div>
+
                 {/* Menu Items */}
                 <div className="space-y-2">
                   <button
@@ -359,6 +852,25 @@ function App() {
                     <Camera size={18} className={activeTab === 'camera' ? 'text-blue-500' : 'text-gray-500'} />
                     <span>Camera View</span>
                   </button>
+                  <button
+                    onClick={() => {
+                      // The grid opens every camera itself, so the single-camera analysis stops first
+                      if (isRecording) {
+                        setIsRecording(false);
+                        clearAnalysis();
+                      }
+                      setActiveTab('grid');
+                      setIsSidebarOpen(false);
+                    }}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition text-left ${
+                      activeTab === 'grid'
+                        ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-800/50'
+                    }`}
+                  >
+                    <LayoutGrid size={18} className={activeTab === 'grid' ? 'text-blue-500' : 'text-gray-500'} />
+                    <span>Camera Grid</span>
+                  </button>
                   <button
                     onClick={() => {
                       setActiveTab('training');
@@ -387,6 +899,54 @@ function App() {
                     <Gauge size={18} className={activeTab === 'testing' ? 'text-blue-500' : 'text-gray-500'} />
                     <span>Test Model</span>
                   </button>
+                  <button
+                    onClick={() => {
+                      setActiveTab('rules');
+                      setIsSidebarOpen(false);
+                    }}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition text-left ${
+                      activeTab === 'rules'
+                        ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-800/50'
+                    }`}
+                  >
+                    <Bell size={18} className={activeTab === 'rules' ? 'text-blue-500' : 'text-gray-500'} />
+                    <span>Alert Rules</span>
+                  </button>
+                  <button
+                    onClick={() => {
+                      setActiveTab('clips');
+                      setNewClipCount(0);
+                      setIsSidebarOpen(false);
+                    }}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition text-left ${
+                      activeTab === 'clips'
+                        ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-800/50'
+                    }`}
+                  >
+                    <Film size={18} className={activeTab === 'clips' ? 'text-blue-500' : 'text-gray-500'} />
+                    <span>Clip Library</span>
+                    {newClipCount > 0 && (
+                      <span className="ml-auto px-2 py-0.5 text-xs rounded-full bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400">
+                        {newClipCount}
+                      </span>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setActiveTab('history');
+                      setIsSidebarOpen(false);
+                    }}
+                    className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition text-left ${
+                      activeTab === 'history'
+                        ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+                        : 'hover:bg-gray-100 dark:hover:bg-gray-800/50'
+                    }`}
+                  >
+                    <History size={18} className={activeTab === 'history' ? 'text-blue-500' : 'text-gray-500'} />
+                    <span>Event History</span>
+                  </button>
                   {/* <button className="w-full flex items-center gap-3 px-4 py-3 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800/50 transition text-left">
                     <Settings size={18} className="text-gray-500" />
                     <span>Settings</span>
@@ -477,11 +1037,34 @@ function App() {
                 <p>Frame Size: {(debugInfo.frameSize / 1024).toFixed(2)} KB</p>
                 <p>Messages to GPT: {debugInfo.messageCount}</p>
                 <p>Last Update: {new Date(debugInfo.lastUpdate).toLocaleTimeString()}</p>
+                {schedulerStats && (
+                  <>
+                    <p>
+                      Detection: {schedulerStats.detectionFps} FPS (target {schedulerStats.targetFps.toFixed(1)}) • {schedulerStats.detectionLatency.toFixed(0)} ms/frame
+                    </p>
+                    <p>
+                      Narration: {schedulerStats.narrationsPerMinute}/min • {(schedulerStats.narrationLatency / 1000).toFixed(1)} s/call
+                      {schedulerStats.narrationPending ? ' • in progress' : ''}
+                    </p>
+                    <p>
+                      GPT calls skipped (no scene change): {schedulerStats.narrationsSkipped}
+                      {sceneChange && ` • last check: ${sceneChange.changed ? sceneChange.reasons.join(', ') : 'unchanged'} (hash distance ${sceneChange.hashDistance})`}
+                    </p>
+                  </>
+                )}
               </div>
             </div>
           )}
 
-          {activeTab === 'testing' ? (
+          {activeTab === 'grid' ? (
+            <CameraGridTab videoFile={videoFile} />
+          ) : activeTab === 'history' ? (
+            <HistoryTab />
+          ) : activeTab === 'clips' ? (
+            <ClipLibraryTab />
+          ) : activeTab === 'rules' ? (
+            <AlertRulesTab zones={zones} />
+          ) : activeTab === 'testing' ? (
             <TestingTab />
           ) : activeTab === 'training' ? (
             <TrainingTab />
@@ -491,16 +1074,67 @@ function App() {
               {/* Video Section */}
               <div className="lg:col-span-3 bg-white dark:bg-gray-900 rounded-2xl shadow-xl overflow-hidden border border-gray-200 dark:border-gray-800">
                 <div className="p-4 h-full flex flex-col">
-                  <div ref={videoContainerRef} className="relative flex-1 rounded-xl overflow-hidden">
+                  <div className="relative flex-1 rounded-xl overflow-hidden">
                     {mode === 'upload' && videoSource ? (
                       <div className="h-full flex flex-col">
-                        <video
-                          src={videoSource}
-                          controls
-                          className="w-full h-full object-contain rounded-xl overflow-hidden"
-                        />
+                        <div className="relative flex-1 min-h-0">
+                          <video
+                            ref={uploadVideoRef}
+                            src={videoSource}
+                            controls
+                            onTimeUpdate={(e) => setUploadTime(e.currentTarget.currentTime * 1000)}
+                            className="w-full h-full object-contain rounded-xl overflow-hidden"
+                            onLoadedMetadata={(e) => setUploadVideoSize({
+                              width: e.currentTarget.videoWidth,
+                              height: e.currentTarget.videoHeight
+                            })}
+                          />
+                          {uploadHeatmap && (
+                            <VideoOverlay
+                              videoWidth={uploadVideoSize.width}
+                              videoHeight={uploadVideoSize.height}
+                              layers={[uploadHeatmap]}
+                            />
+                          )}
+                          <RedactionControl zones={redactionZones} className="absolute top-4 left-4" />
+                        </div>
+                        <div className="flex gap-2 mt-4">
+                          <button
+                            onClick={analyzeUploadOccupancy}
+                            disabled={occupancyProgress !== null}
+                            className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {occupancyProgress !== null ? (
+                              <Loader2 size={20} className="animate-spin" />
+                            ) : (
+                              <BarChart3 size={20} />
+                            )}
+                            {occupancyProgress !== null ? `Counting... ${Math.round(occupancyProgress)}%` : 'Analyze Foot Traffic'}
+                          </button>
+                          {uploadOccupancy && (
+                            <button
+                              onClick={() => setShowHeatmap(prev => !prev)}
+                              className={`px-4 py-3 rounded-xl transition ${
+                                showHeatmap
+                                  ? 'bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400'
+                                  : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                              }`}
+                              title={showHeatmap ? "Hide Heatmap" : "Show Heatmap"}
+                            >
+                              <Flame size={20} />
+                            </button>
+                          )}
+                        </div>
+                        {occupancyProgress !== null && (
+                          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1 mt-2">
+                            <div
+                              className="h-1 rounded-full bg-blue-500 transition-all"
+                              style={{ width: `${occupancyProgress}%` }}
+                            />
+                          </div>
+                        )}
                         <button
-                          onClick={handleQuestionSubmit}
+                          onClick={analyzeUploadTimeline}
                           disabled={isLoading}
                           className="w-full mt-4 flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white rounded-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
                         >
@@ -509,17 +1143,45 @@ function App() {
                           ) : (
                             <MessageSquare size={20} />
                           )}
-                          Analyze Video
+                          {timelineProgress !== null ? `Analyzing... ${Math.round(timelineProgress)}%` : 'Analyze Video'}
                         </button>
+                        {timelineProgress !== null && (
+                          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1 mt-2">
+                            <div
+                              className="h-1 rounded-full bg-blue-500 transition-all"
+                              style={{ width: `${timelineProgress}%` }}
+                            />
+                          </div>
+                        )}
+                        {videoFile && (
+                          <VideoQuestions
+                            key={videoSource}
+                            videoFile={videoFile}
+                            onSeek={seekUpload}
+                            onAnswer={(answer) => {
+                              addAnalysisMessage(answer.question, 'user');
+                              addAnalysisMessage(answer.answer);
+                            }}
+                          />
+                        )}
+                        {videoFile && <VideoExport key={videoSource} videoFile={videoFile} />}
                       </div>
                     ) : (
                       <div className="h-full relative rounded-xl overflow-hidden">
-                        <div className={`${isMobile ? 'h-full aspect-[9/16] object-cover' : ''} h-full`}>
-                          {isCameraEnabled ? (
+                        <div className={`${isMobile ? 'h-full aspect-[9/16] object-cover' : ''} h-full relative`}>
+                          {isCameraEnabled && networkStream ? (
+                            <NetworkStreamPlayer
+                              config={networkStream}
+                              videoRef={streamVideoRef}
+                              onResize={(width, height) => setVideoSize({ width, height })}
+                              className="w-full h-full object-contain"
+                            />
+                          ) : isCameraEnabled ? (
                             <Webcam
                               ref={webcamRef}
                               audio={false}
-                              className="w-full h-full object-fit"
+                              className="w-full h-full object-contain"
+                              mirrored={facingMode === 'user'}
                               screenshotFormat="image/jpeg"
                               videoConstraints={{
                                 facingMode,
@@ -527,13 +1189,35 @@ function App() {
                                 width: { ideal: 1920 },
                                 height: { ideal: 1080 }
                               }}
+                              onUserMedia={handleUserMedia}
                             />
                           ) : (
                             <div className="w-full h-full flex items-center justify-center bg-gray-900">
                               <CameraOff size={48} className="text-gray-600" />
                             </div>
                           )}
+                          {/* Overlays share the video's box, which on mobile is narrower than the card */}
+                          {isCameraEnabled && (
+                            <VideoOverlay
+                              videoWidth={videoSize.width}
+                              videoHeight={videoSize.height}
+                              layers={cameraLayers}
+                              mirrored={isMirrored}
+                            />
+                          )}
+                          {isCameraEnabled && isEditingZones && (
+                            <ZoneEditor
+                              zones={zones}
+                              onChange={updateZones}
+                              videoWidth={videoSize.width}
+                              videoHeight={videoSize.height}
+                              isEditing={isEditingZones}
+                              activeZoneIds={activeZoneIds}
+                              mirrored={isMirrored}
+                            />
+                          )}
                         </div>
+                        <RedactionControl zones={redactionZones} openUpwards className="absolute bottom-4 left-4" />
                         <div className="absolute bottom-4 right-4 flex gap-2">
                           <button
                             onClick={toggleCameraEnabled}
@@ -545,12 +1229,58 @@ function App() {
                           {isCameraEnabled && (
                             <>
                               <button
-                                onClick={toggleCamera}
-                                className="p-3 rounded-full bg-gray-900/80 hover:bg-gray-800 text-white transition backdrop-blur-sm"
-                                title="Switch Camera"
+                                onClick={() => setShowMotion(prev => !prev)}
+                                className={`p-3 rounded-full transition backdrop-blur-sm ${
+                                  showMotion
+                                    ? 'bg-rose-600 hover:bg-rose-700'
+                                    : 'bg-gray-900/80 hover:bg-gray-800'
+                                } text-white`}
+                                title={showMotion ? "Hide Motion Tint and Flow" : "Show Motion Tint and Flow"}
+                              >
+                                <Activity size={20} />
+                              </button>
+                              <button
+                                onClick={() => setShowHeatmap(prev => !prev)}
+                                className={`p-3 rounded-full transition backdrop-blur-sm ${
+                                  showHeatmap
+                                    ? 'bg-orange-600 hover:bg-orange-700'
+                                    : 'bg-gray-900/80 hover:bg-gray-800'
+                                } text-white`}
+                                title={showHeatmap ? "Hide Heatmap" : "Show Heatmap"}
+                              >
+                                <Flame size={20} />
+                              </button>
+                              <button
+                                onClick={() => setShowAnalytics(prev => !prev)}
+                                className={`p-3 rounded-full transition backdrop-blur-sm ${
+                                  showAnalytics
+                                    ? 'bg-blue-600 hover:bg-blue-700'
+                                    : 'bg-gray-900/80 hover:bg-gray-800'
+                                } text-white`}
+                                title={showAnalytics ? "Hide Occupancy" : "Show Occupancy"}
+                              >
+                                <BarChart3 size={20} />
+                              </button>
+                              <button
+                                onClick={() => setIsEditingZones(prev => !prev)}
+                                className={`p-3 rounded-full transition backdrop-blur-sm ${
+                                  isEditingZones
+                                    ? 'bg-blue-600 hover:bg-blue-700'
+                                    : 'bg-gray-900/80 hover:bg-gray-800'
+                                } text-white`}
+                                title={isEditingZones ? "Done Editing Zones" : "Edit Zones"}
                               >
-                                <FlipHorizontal size={20} />
+                                <PenTool size={20} />
                               </button>
+                              {!networkStream && (
+                                <button
+                                  onClick={toggleCamera}
+                                  className="p-3 rounded-full bg-gray-900/80 hover:bg-gray-800 text-white transition backdrop-blur-sm"
+                                  title="Switch Camera"
+                                >
+                                  <FlipHorizontal size={20} />
+                                </button>
+                              )}
                               <button
                                 onClick={toggleRecording}
                                 className={`p-3 rounded-full transition backdrop-blur-sm ${
@@ -566,43 +1296,53 @@ function App() {
                         </div>
                       </div>
                     )}
+                  </div>
 
-                    {/* Annotation Boxes */}
-                    {annotations.map((annotation, index) => {
-                      const [x, y, width, height] = annotation.bbox;
-                      const containerRect = videoContainerRef.current?.getBoundingClientRect();
-                      if (!containerRect) return null;
-
-                      const scaleX = containerRect.width / (webcamRef.current?.video?.videoWidth || 1);
-                      const scaleY = containerRect.height / (webcamRef.current?.video?.videoHeight || 1);
+                  {mode === 'camera' && isCameraEnabled && (
+                    <LabelExport
+                      getRecording={() => labelRecorder.recording()}
+                      className="mt-4 flex justify-end"
+                    />
+                  )}
 
-                      return (
+                  {mode === 'camera' && zoneEvents.length > 0 && (
+                    <div className="mt-4 max-h-32 overflow-y-auto scrollbar-thin space-y-1">
+                      {zoneEvents.map(event => (
                         <div
-                          key={index}
-                          className="absolute pointer-events-none"
-                          style={{
-                            left: `${x * scaleX}px`,
-                            top: `${y * scaleY}px`,
-                            width: `${width * scaleX}px`,
-                            height: `${height * scaleY}px`,
-                            border: '2px solid #3b82f6',
-                            backgroundColor: 'rgba(59, 130, 246, 0.1)',
-                            borderRadius: '0.5rem'
-                          }}
+                          key={event.id}
+                          className="flex items-center justify-between px-3 py-1.5 bg-amber-500/10 border border-amber-500/20 rounded-lg text-xs text-amber-700 dark:text-amber-400"
                         >
-                          <div className="absolute -top-8 left-0 bg-blue-600 dark:bg-blue-500 text-white px-2 py-1 rounded-lg text-xs whitespace-nowrap">
-                            {renderAnnotationLabel(annotation)}
-                          </div>
+                          <span>
+                            Person #{event.trackId} {event.type === 'enter' ? 'entered' : event.type === 'exit' ? 'left' : 'crossed'} {event.zoneName}
+                            {event.direction ? ` (${event.direction.replace(/-/g, ' ')})` : ''}
+                          </span>
+                          <span>{new Date(event.timestamp).toLocaleTimeString()}</span>
                         </div>
-                      );
-                    })}
-                  </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
 
               {/* Analysis Section */}
-              <div className={`lg:col-span-2 ${isMobile ? 'h-[50vh]' : 'h-[calc(100vh-8rem)]'}`}>
-                <div className="bg-white dark:bg-gray-900 p-6 rounded-2xl shadow-xl h-full border border-gray-200 dark:border-gray-800 flex flex-col">
+              <div className={`lg:col-span-2 flex flex-col gap-6 ${isMobile ? 'h-[50vh]' : 'h-[calc(100vh-8rem)]'}`}>
+                <AlertFeed
+                  alerts={alerts}
+                  onDismiss={(id) => setAlerts(prev => prev.filter(alert => alert.id !== id))}
+                  onClear={() => setAlerts([])}
+                />
+                {mode === 'camera' && (
+                  <LoiteringPanel
+                    records={dwellRecords}
+                    zones={zones}
+                    threshold={loiterThreshold}
+                    onThresholdChange={changeLoiterThreshold}
+                  />
+                )}
+                {mode === 'upload' && timeline && (
+                  <VideoChapters timeline={timeline} currentTime={uploadTime} onSeek={seekUpload} />
+                )}
+                <div className="bg-white dark:bg-gray-900 p-6 rounded-2xl shadow-xl flex-1 min-h-0 border border-gray-200 dark:border-gray-800 flex flex-col">
                   <div className="flex items-center justify-between mb-4 flex-shrink-0">
                     <h3 className="text-lg font-semibold flex items-center gap-2">
                       <MessageSquare size={20} className="text-blue-600 dark:text-blue-500" />
@@ -611,18 +1351,21 @@ function App() {
                         <span className="w-2 h-4 bg-blue-500 animate-pulse rounded-sm" />
                       )}
                     </h3>
-                    <button
-                      onClick={() => setAutoScroll(!autoScroll)}
-                      className={`p-2 rounded-lg transition flex items-center gap-2 text-sm ${
-                        autoScroll
-                          ? 'bg-blue-100 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
-                          : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
-                      }`}
-                      title={autoScroll ? "Disable Auto-scroll" : "Enable Auto-scroll"}
-                    >
-                      <ArrowDown size={16} />
-                      {autoScroll ? 'Auto-scroll On' : 'Auto-scroll Off'}
-                    </button>
+                    <div className="flex items-center gap-2">
+                      <ReportMenu getInput={getReportInput} />
+                      <button
+                        onClick={() => setAutoScroll(!autoScroll)}
+                        className={`p-2 rounded-lg transition flex items-center gap-2 text-sm ${
+                          autoScroll
+                            ? 'bg-blue-100 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400'
+                            : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
+                        }`}
+                        title={autoScroll ? "Disable Auto-scroll" : "Enable Auto-scroll"}
+                      >
+                        <ArrowDown size={16} />
+                        {autoScroll ? 'Auto-scroll On' : 'Auto-scroll Off'}
+                      </button>
+                    </div>
                   </div>
                   <div className="flex-1 min-h-0">
                     <div 
@@ -637,17 +1380,32 @@ function App() {
                       }}
                     >
                       {analysisMessages.map((message, index) => (
-                        <div key={message.id} className="space-y-2">
-                          <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-2 text-blue-600 dark:text-blue-400 text-xs">
-                            {message.timestamp.toLocaleTimeString()}
+                        message.role === 'user' ? (
+                          <div key={message.id} className="flex justify-end">
+                            <div className="max-w-[85%] bg-blue-600 dark:bg-blue-500 text-white px-4 py-2 rounded-xl rounded-br-sm">
+                              <p className="whitespace-pre-wrap text-sm">{message.text}</p>
+                              <p className="text-[10px] opacity-75 mt-1 text-right">{message.timestamp.toLocaleTimeString()}</p>
+                            </div>
                           </div>
-                          <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-xl">
-                            <p className="whitespace-pre-wrap text-sm leading-relaxed font-mono">
-                              {index === analysisMessages.length - 1 ? displayedText : message.text}
-                            </p>
+                        ) : (
+                          <div key={message.id} className="space-y-2">
+                            <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-2 text-blue-600 dark:text-blue-400 text-xs">
+                              {message.timestamp.toLocaleTimeString()}
+                            </div>
+                            <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-xl">
+                              <p className="whitespace-pre-wrap text-sm leading-relaxed font-mono">
+                                {index === lastAssistantIndex ? displayedText : message.text}
+                              </p>
+                            </div>
                           </div>
-                        </div>
+                        )
                       ))}
+                      {isAnswering && (
+                        <div className="flex items-center gap-2 text-xs text-gray-500">
+                          <Loader2 size={14} className="animate-spin" />
+                          Looking at the scene...
+                        </div>
+                      )}
                       {analysisMessages.length === 0 && (
                         <div className="h-full flex items-center justify-center text-gray-400 dark:text-gray-600">
                           <p className="text-sm">Tap play button to start analysis</p>
@@ -655,8 +1413,42 @@ function App() {
                       )}
                     </div>
                   </div>
+                  {mode === 'camera' && isCameraEnabled && (
+                    <form onSubmit={askLiveQuestion} className="flex gap-2 mt-4 flex-shrink-0">
+                      <input
+                        type="text"
+                        value={chatInput}
+                        onChange={(e) => setChatInput(e.target.value)}
+                        placeholder="Ask about the scene, e.g. what is the person on the left holding?"
+                        className="flex-1 min-w-0 px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm"
+                      />
+                      <button
+                        type="submit"
+                        disabled={!chatInput.trim() || isAnswering}
+                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white rounded-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Ask"
+                      >
+                        <Send size={18} />
+                      </button>
+                    </form>
+                  )}
                 </div>
               </div>
+
+              {/* Occupancy Analytics */}
+              {showAnalytics && (
+                <div className="lg:col-span-5">
+                  {mode === 'upload' ? (
+                    uploadOccupancy ? (
+                      <OccupancyPanel snapshot={uploadOccupancy} timeBase="video" />
+                    ) : (
+                      <div className="p-4 text-sm text-gray-500">Run "Analyze Foot Traffic" to count people in this video.</div>
+                    )
+                  ) : (
+                    <OccupancyPanel snapshot={occupancy ?? analytics.snapshot()} timeBase="clock" />
+                  )}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,73 @@
+import { AlertTriangle, Bell, Info, X } from 'lucide-react';
+import type { AlertEvent, AlertSeverity } from '../utils/alertRules';
+
+interface AlertFeedProps {
+  alerts: AlertEvent[];
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  danger: 'bg-red-50 dark:bg-red-900/20 border-red-500/30 text-red-600 dark:text-red-400',
+  warning: 'bg-amber-50 dark:bg-amber-900/20 border-amber-500/30 text-amber-700 dark:text-amber-400',
+  info: 'bg-blue-50 dark:bg-blue-900/20 border-blue-500/30 text-blue-600 dark:text-blue-400'
+};
+
+export function AlertFeed({ alerts, onDismiss, onClear }: AlertFeedProps) {
+  return (
+    <div className="bg-white dark:bg-gray-900 p-4 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-800 flex flex-col max-h-64">
+      <div className="flex items-center justify-between mb-3 flex-shrink-0">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Bell size={20} className="text-red-500" />
+          Alerts
+          {alerts.length > 0 && (
+            <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400">
+              {alerts.length}
+            </span>
+          )}
+        </h3>
+        {alerts.length > 0 && (
+          <button
+            onClick={onClear}
+            className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {alerts.length > 0 ? (
+        <div className="flex-1 min-h-0 overflow-y-auto scrollbar-thin space-y-2">
+          {alerts.map(alert => (
+            <div
+              key={alert.id}
+              className={`flex items-start gap-2 p-2 rounded-lg border text-sm ${SEVERITY_STYLES[alert.severity]}`}
+            >
+              {alert.severity === 'info' ? (
+                <Info size={16} className="flex-shrink-0 mt-0.5" />
+              ) : (
+                <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">{alert.message}</p>
+                <p className="text-xs opacity-75">
+                  {new Date(alert.timestamp).toLocaleTimeString()}
+                  {alert.source ? ` • ${alert.source}` : ''}
+                </p>
+              </div>
+              <button
+                onClick={() => onDismiss(alert.id)}
+                className="p-1 hover:bg-black/5 dark:hover:bg-white/10 rounded-full flex-shrink-0"
+                title="Dismiss"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 dark:text-gray-600">No alerts</p>
+      )}
+    </div>
+  );
+}
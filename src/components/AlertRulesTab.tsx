@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { Plus, RefreshCw, Trash2, Bell } from 'lucide-react';
+import {
+  DEFAULT_RULES,
+  describeCondition,
+  saveRules,
+  type AlertRule,
+  type AlertSeverity,
+  type RuleCondition,
+  type RuleConditionType
+} from '../utils/alertRules';
+import { alertEngine } from '../utils/model';
+import { POSE_FEATURE_KEYS } from '../utils/pose';
+import type { Zone } from '../utils/zones';
+
+interface AlertRulesTabProps {
+  zones: Zone[];
+}
+
+const CONDITION_TEMPLATES: Record<RuleConditionType, RuleCondition> = {
+  speed: { type: 'speed', above: 100 },
+  proximity: { type: 'proximity', below: 150 },
+  count: { type: 'count', class: 'person', above: 3 },
+  classPresent: { type: 'classPresent', class: 'knife', minScore: 0.5 },
+  inZone: { type: 'inZone', zoneId: '' },
+  zoneEvent: { type: 'zoneEvent', zoneId: '', event: 'enter' },
+  loitering: { type: 'loitering', zoneId: '' },
+  fall: { type: 'fall' },
+  pose: { type: 'pose', feature: 'arm_raise', above: 0.5 },
+  motion: { type: 'motion', above: 0.3 },
+  score: { type: 'score', key: 'violence', above: 0.5 }
+};
+
+const CONDITION_LABELS: Record<RuleConditionType, string> = {
+  speed: 'Movement speed',
+  proximity: 'People close together',
+  count: 'Object count',
+  classPresent: 'Object present',
+  inZone: 'Inside zone',
+  zoneEvent: 'Zone event',
+  loitering: 'Loitering',
+  fall: 'Fall detected',
+  pose: 'Body pose',
+  motion: 'Motion intensity',
+  score: 'Model score'
+};
+
+// Optional numeric limits get an input even while unset; clearing one removes the limit
+const OPTIONAL_NUMBERS: Partial<Record<RuleConditionType, string[]>> = {
+  count: ['above', 'below'],
+  classPresent: ['minScore']
+};
+
+const inputClass = 'px-2 py-1 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm';
+
+export function AlertRulesTab({ zones }: AlertRulesTabProps) {
+  const [rules, setRules] = useState<AlertRule[]>(() => alertEngine.getRules());
+
+  const commit = (nextRules: AlertRule[]) => {
+    setRules(nextRules);
+    saveRules(nextRules);
+    alertEngine.setRules(nextRules);
+  };
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) => {
+    commit(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+  };
+
+  const updateCondition = (rule: AlertRule, index: number, condition: RuleCondition) => {
+    updateRule(rule.id, {
+      conditions: rule.conditions.map((c, i) => i === index ? condition : c)
+    });
+  };
+
+  const addRule = () => {
+    commit([...rules, {
+      id: `rule_${Date.now()}`,
+      name: 'New rule',
+      enabled: true,
+      severity: 'warning',
+      conditions: [CONDITION_TEMPLATES.speed],
+      minDuration: 0,
+      cooldown: 10000
+    }]);
+  };
+
+  const renderConditionFields = (rule: AlertRule, index: number, condition: RuleCondition) => {
+    const optional = OPTIONAL_NUMBERS[condition.type] ?? [];
+    const fields: Array<[string, unknown]> = [
+      ...Object.entries(condition).filter(([key]) => key !== 'type' && !optional.includes(key)),
+      ...optional.map((key): [string, unknown] => [key, (condition as Record<string, unknown>)[key]])
+    ];
+
+    return fields.map(([key, value]) => {
+      const update = (nextValue: unknown) =>
+        updateCondition(rule, index, { ...condition, [key]: nextValue } as RuleCondition);
+
+      if (key === 'zoneId') {
+        return (
+          <select key={key} value={String(value ?? '')} onChange={(e) => update(e.target.value)} className={inputClass}>
+            <option value="">
+              {condition.type === 'zoneEvent' ? 'Any zone' : condition.type === 'loitering' ? 'Whole frame' : 'Select zone'}
+            </option>
+            {zones.map(zone => <option key={zone.id} value={zone.id}>{zone.name}</option>)}
+          </select>
+        );
+      }
+
+      if (key === 'event') {
+        return (
+          <select key={key} value={String(value)} onChange={(e) => update(e.target.value)} className={inputClass}>
+            <option value="enter">enter</option>
+            <option value="exit">exit</option>
+            <option value="cross">cross</option>
+          </select>
+        );
+      }
+
+      if (key === 'feature') {
+        return (
+          <select key={key} value={String(value)} onChange={(e) => update(e.target.value)} className={inputClass}>
+            {POSE_FEATURE_KEYS.map(feature => (
+              <option key={feature} value={feature}>{feature.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+        );
+      }
+
+      if (optional.includes(key)) {
+        return (
+          <label key={key} className="flex items-center gap-1 text-xs text-gray-500">
+            {key}
+            <input
+              type="number"
+              value={value === undefined ? '' : String(value)}
+              step="any"
+              placeholder="any"
+              onChange={(e) => update(e.target.value === '' ? undefined : (parseFloat(e.target.value) || 0))}
+              className={`${inputClass} w-24`}
+            />
+          </label>
+        );
+      }
+
+      return (
+        <label key={key} className="flex items-center gap-1 text-xs text-gray-500">
+          {key}
+          <input
+            type={typeof value === 'number' ? 'number' : 'text'}
+            value={value === undefined ? '' : String(value)}
+            step="any"
+            onChange={(e) => update(
+              typeof value === 'number'
+                ? (parseFloat(e.target.value) || 0)
+                : e.target.value
+            )}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+      );
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Bell className="w-5 h-5 text-blue-500" />
+          Alert Rules
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => commit(DEFAULT_RULES)}
+            className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition flex items-center gap-1.5"
+          >
+            <RefreshCw size={14} />
+            Reset to Defaults
+          </button>
+          <button
+            onClick={addRule}
+            className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition flex items-center gap-1.5"
+          >
+            <Plus size={14} />
+            Add Rule
+          </button>
+        </div>
+      </div>
+
+      {rules.map(rule => (
+        <div key={rule.id} className="bg-white dark:bg-gray-900 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-gray-800 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              title="Enabled"
+            />
+            <input
+              type="text"
+              value={rule.name}
+              onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+              className={`${inputClass} flex-1 min-w-[12rem] font-medium`}
+            />
+            <select
+              value={rule.severity}
+              onChange={(e) => updateRule(rule.id, { severity: e.target.value as AlertSeverity })}
+              className={inputClass}
+            >
+              <option value="info">Info</option>
+              <option value="warning">Warning</option>
+              <option value="danger">Danger</option>
+            </select>
+            <button
+              onClick={() => commit(rules.filter(r => r.id !== rule.id))}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition"
+              title="Delete Rule"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-sm">
+              <span className="block font-medium mb-1">Minimum duration (s)</span>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={rule.minDuration / 1000}
+                onChange={(e) => updateRule(rule.id, { minDuration: (parseFloat(e.target.value) || 0) * 1000 })}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="block font-medium mb-1">Cooldown (s)</span>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={rule.cooldown / 1000}
+                onChange={(e) => updateRule(rule.id, { cooldown: (parseFloat(e.target.value) || 0) * 1000 })}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">When all of these hold:</h4>
+            {rule.conditions.map((condition, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <select
+                  value={condition.type}
+                  onChange={(e) => updateCondition(rule, index, CONDITION_TEMPLATES[e.target.value as RuleConditionType])}
+                  className={inputClass}
+                >
+                  {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+                {renderConditionFields(rule, index, condition)}
+                <span className="flex-1 text-xs text-gray-500 truncate">{describeCondition(condition)}</span>
+                <button
+                  onClick={() => updateRule(rule.id, { conditions: rule.conditions.filter((_, i) => i !== index) })}
+                  className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full"
+                  title="Remove Condition"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => updateRule(rule.id, { conditions: [...rule.conditions, CONDITION_TEMPLATES.speed] })}
+              className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition flex items-center gap-1.5"
+            >
+              <Plus size={14} />
+              Add Condition
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, LayoutGrid, Loader2, MessageSquare, Pause, Play, Plus, Radio, RefreshCw } from 'lucide-react';
+import { CameraTile } from './CameraTile';
+import { StreamSourceForm } from './StreamSourceForm';
+import { fileSource, listCameras, networkSource, onCamerasChanged, type CameraSource } from '../utils/cameras';
+import { createNarrationQueue, type NarrationSourceStats } from '../utils/scheduler';
+import { createEventLogger } from '../utils/eventHistory';
+import type { AlertEvent } from '../utils/alertRules';
+
+interface CameraGridTabProps {
+  videoFile?: File | null; // the file uploaded in the main view joins the grid as a virtual camera
+}
+
+type FeedEntry = {
+  id: string;
+  sourceLabel: string;
+  kind: 'commentary' | 'alert';
+  text: string;
+  time: number;
+};
+
+const MAX_FEED_ENTRIES = 100;
+const STATS_INTERVAL = 1000;
+
+let feedCounter = 0;
+
+export function CameraGridTab({ videoFile }: CameraGridTabProps) {
+  const [cameras, setCameras] = useState<CameraSource[]>([]);
+  const [files, setFiles] = useState<CameraSource[]>(() => videoFile ? [fileSource(videoFile)] : []);
+  const [streams, setStreams] = useState<CameraSource[]>([]);
+  const [isAddingStream, setIsAddingStream] = useState(false);
+  const [isListing, setIsListing] = useState(true);
+  const [listError, setListError] = useState('');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [feed, setFeed] = useState<FeedEntry[]>([]);
+  const [queueStats, setQueueStats] = useState<NarrationSourceStats[]>([]);
+  // One queue for every tile, so narration is shared out instead of each camera calling the API on its own
+  const [narrationQueue] = useState(() => createNarrationQueue());
+  const [eventLogger] = useState(() => createEventLogger());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sources = [...cameras, ...streams, ...files];
+
+  const refreshCameras = useCallback(async () => {
+    setIsListing(true);
+    setListError('');
+    try {
+      const found = await listCameras();
+      // Keep existing objects so tiles whose camera is still there keep their stream open
+      setCameras(prev => found.map(camera => prev.find(existing => existing.id === camera.id) ?? camera));
+    } catch (err) {
+      setListError(err instanceof Error ? err.message : 'Could not list cameras.');
+    } finally {
+      setIsListing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCameras();
+    return onCamerasChanged(refreshCameras);
+  }, [refreshCameras]);
+
+  useEffect(() => {
+    if (!isAnalyzing) return;
+    const timer = setInterval(() => setQueueStats(narrationQueue.stats()), STATS_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isAnalyzing, narrationQueue]);
+
+  const addFeedEntry = (entry: Omit<FeedEntry, 'id'>) => {
+    setFeed(prev => [{ ...entry, id: `${entry.time}-${feedCounter++}` }, ...prev].slice(0, MAX_FEED_ENTRIES));
+  };
+
+  const handleDetections = useCallback((source: CameraSource, detections: Array<{ class: string }>, video: HTMLVideoElement) => {
+    eventLogger.detections(detections, video, source.label);
+  }, [eventLogger]);
+
+  const handleAlerts = useCallback((source: CameraSource, alerts: AlertEvent[], video: HTMLVideoElement) => {
+    eventLogger.alerts(alerts, video);
+    alerts.forEach(alert => addFeedEntry({
+      sourceLabel: source.label,
+      kind: 'alert',
+      text: alert.message,
+      time: alert.timestamp
+    }));
+  }, [eventLogger]);
+
+  const handleCommentary = useCallback((source: CameraSource, text: string, video: HTMLVideoElement) => {
+    eventLogger.commentary(text, video, source.label);
+    addFeedEntry({ sourceLabel: source.label, kind: 'commentary', text, time: Date.now() });
+  }, [eventLogger]);
+
+  const addFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+    const added = Array.from(fileList).filter(file => file.type.startsWith('video/')).map(fileSource);
+    setFiles(prev => [...prev, ...added.filter(source => !prev.some(existing => existing.id === source.id))]);
+  };
+
+  const addStream = (source: CameraSource) => {
+    setStreams(prev => prev.some(existing => existing.id === source.id) ? prev : [...prev, source]);
+    setIsAddingStream(false);
+  };
+
+  const removeSource = (source: CameraSource) => {
+    if (source.kind === 'stream') {
+      setStreams(prev => prev.filter(stream => stream.id !== source.id));
+    } else {
+      setFiles(prev => prev.filter(file => file.id !== source.id));
+    }
+  };
+
+  const toggleAnalysis = () => {
+    if (isAnalyzing) {
+      setQueueStats([]);
+    } else {
+      setFeed([]);
+    }
+    setIsAnalyzing(prev => !prev);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <LayoutGrid className="w-5 h-5 text-blue-500" />
+          Camera Grid
+          <span className="text-sm font-normal text-gray-500">
+            {sources.length} {sources.length === 1 ? 'source' : 'sources'}
+          </span>
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={refreshCameras}
+            disabled={isListing}
+            className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition flex items-center gap-1.5 disabled:opacity-50"
+          >
+            {isListing ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+            Find Cameras
+          </button>
+          <button
+            onClick={() => setIsAddingStream(prev => !prev)}
+            className={`px-3 py-1.5 text-sm rounded-lg transition flex items-center gap-1.5 ${
+              isAddingStream
+                ? 'bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400'
+                : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+            }`}
+          >
+            <Radio size={14} />
+            Add Stream
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition flex items-center gap-1.5"
+          >
+            <Plus size={14} />
+            Add Video
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="video/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={toggleAnalysis}
+            disabled={sources.length === 0}
+            className={`px-3 py-1.5 text-sm rounded-lg transition flex items-center gap-1.5 disabled:opacity-50 ${
+              isAnalyzing
+                ? 'bg-red-500 hover:bg-red-600 text-white'
+                : 'bg-blue-600 hover:bg-blue-700 text-white'
+            }`}
+          >
+            {isAnalyzing ? <Pause size={14} /> : <Play size={14} />}
+            {isAnalyzing ? 'Stop Analysis' : 'Analyze All'}
+          </button>
+        </div>
+      </div>
+
+      {isAddingStream && (
+        <div className="bg-white dark:bg-gray-900 rounded-xl p-4 shadow-lg border border-gray-200 dark:border-gray-800">
+          <StreamSourceForm
+            onConnect={(config) => addStream(networkSource(config))}
+            submitLabel="Add"
+            className="max-w-xl"
+          />
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            MJPEG over HTTP, HLS (.m3u8) or a WebRTC WHEP endpoint. Each stream reconnects on its own if it drops.
+          </p>
+        </div>
+      )}
+
+      {listError && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {listError}
+        </div>
+      )}
+
+      <div className="grid xl:grid-cols-4 gap-6">
+        <div className="xl:col-span-3">
+          {sources.length > 0 ? (
+            <div className="grid md:grid-cols-2 2xl:grid-cols-3 gap-4">
+              {sources.map(source => (
+                <CameraTile
+                  key={source.id}
+                  source={source}
+                  isAnalyzing={isAnalyzing}
+                  narrationQueue={narrationQueue}
+                  onDetections={handleDetections}
+                  onAlerts={handleAlerts}
+                  onCommentary={handleCommentary}
+                  onRemove={source.kind !== 'device' ? () => removeSource(source) : undefined}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-gray-900 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-gray-800 text-center text-sm text-gray-500">
+              {isListing ? 'Looking for cameras...' : 'No cameras found. Add a network stream, or a video to use it as a virtual camera.'}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-gray-900 rounded-xl p-4 shadow-lg border border-gray-200 dark:border-gray-800 flex flex-col max-h-[48rem]">
+          <h4 className="font-semibold flex items-center gap-2 mb-3">
+            <MessageSquare size={18} className="text-blue-500" />
+            Narration
+          </h4>
+
+          {queueStats.length > 0 && (
+            <div className="mb-3 space-y-1 text-xs">
+              {queueStats.map(stat => (
+                <div key={stat.sourceId} className="flex items-center justify-between gap-2 text-gray-500">
+                  <span className="truncate">{sources.find(source => source.id === stat.sourceId)?.label ?? stat.sourceId}</span>
+                  <span className="flex-shrink-0">
+                    {stat.served} narrated{stat.waiting ? ' • waiting' : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {feed.length > 0 ? (
+            <div className="flex-1 min-h-0 overflow-y-auto scrollbar-thin space-y-2">
+              {feed.map(entry => (
+                <div
+                  key={entry.id}
+                  className={`p-2 rounded-lg text-sm ${
+                    entry.kind === 'alert'
+                      ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400'
+                      : 'bg-gray-50 dark:bg-gray-800'
+                  }`}
+                >
+                  <p className="text-xs opacity-75 flex items-center gap-1">
+                    {entry.kind === 'alert' && <AlertTriangle size={12} />}
+                    {entry.sourceLabel} • {new Date(entry.time).toLocaleTimeString()}
+                  </p>
+                  <p className="mt-0.5">{entry.text}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">
+              {isAnalyzing ? 'Commentary from every source will appear here.' : 'Start analysis to narrate every source in turn.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Bell, CameraOff, Loader2, Video, X } from 'lucide-react';
+import { VideoOverlay } from './VideoOverlay';
+import { NetworkStreamPlayer } from './NetworkStreamPlayer';
+import { createTrackingState, detectFrame, followRules, narrateFrame, type FrameDetection } from '../utils/model';
+import { createAnalysisScheduler, loadNarrationSettings, type NarrationQueue, type SchedulerStats } from '../utils/scheduler';
+import { createSceneChangeGate } from '../utils/sceneChange';
+import { openCamera, type CameraSource } from '../utils/cameras';
+import type { StreamStatus } from '../utils/networkStream';
+import { boxLayer, labelLayer, type OverlayLayer } from '../utils/overlay';
+import type { AlertEvent } from '../utils/alertRules';
+
+interface CameraTileProps {
+  source: CameraSource;
+  isAnalyzing: boolean;
+  narrationQueue: NarrationQueue;
+  onDetections: (source: CameraSource, detections: Array<{ class: string }>, video: HTMLVideoElement) => void;
+  onAlerts: (source: CameraSource, alerts: AlertEvent[], video: HTMLVideoElement) => void;
+  onCommentary: (source: CameraSource, text: string, video: HTMLVideoElement) => void;
+  onRemove?: () => void;
+}
+
+type TileStatus = 'loading' | 'ready' | 'error';
+
+const BOX_COLOR = '#3b82f6';
+const LABEL_COLOR = '#2563eb';
+const ALERT_BOX_COLOR = '#ef4444';
+const ALERT_LABEL_COLOR = '#dc2626';
+
+function tileLayers(detection: FrameDetection | null): OverlayLayer[] {
+  if (!detection) return [];
+  const isAlerted = (d: FrameDetection['detections'][number]) => !!d.details?.annotation.alert;
+  return [
+    boxLayer(detection.detections.map(d => ({ bbox: d.bbox, color: isAlerted(d) ? ALERT_BOX_COLOR : BOX_COLOR }))),
+    labelLayer(detection.detections.map(d => ({
+      bbox: d.bbox,
+      text: `${d.trackId !== undefined ? `#${d.trackId} ` : ''}${d.class}`,
+      color: isAlerted(d) ? ALERT_LABEL_COLOR : LABEL_COLOR
+    })))
+  ];
+}
+
+// One grid tile: its own video, tracker, rule engine and detection scheduler. The detector
+// itself is the shared instance, and narration waits its turn in the grid's shared queue.
+export function CameraTile({ source, isAnalyzing, narrationQueue, onDetections, onAlerts, onCommentary, onRemove }: CameraTileProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [status, setStatus] = useState<TileStatus>('loading');
+  const [error, setError] = useState('');
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  const [detection, setDetection] = useState<FrameDetection | null>(null);
+  const [alertCount, setAlertCount] = useState(0);
+  const [lastAlert, setLastAlert] = useState<AlertEvent | null>(null);
+  const [commentary, setCommentary] = useState('');
+  const [stats, setStats] = useState<SchedulerStats | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    // Network streams are opened and kept alive by their player, which reports back through handleStreamStatus
+    if (!video || source.kind === 'stream') return;
+    let stream: MediaStream | null = null;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setStatus('loading');
+    setError('');
+
+    const attach = async () => {
+      try {
+        if (source.kind === 'device') {
+          stream = await openCamera(source.deviceId);
+          if (cancelled) return;
+          video.srcObject = stream;
+        } else {
+          objectUrl = URL.createObjectURL(source.file);
+          video.src = objectUrl;
+        }
+        await video.play();
+        if (!cancelled) setStatus('ready');
+      } catch (err) {
+        if (cancelled) return;
+        console.error(`Error opening ${source.label}:`, err);
+        setStatus('error');
+        setError(source.kind === 'device'
+          ? 'Camera unavailable. It may be in use by another tile or application.'
+          : 'This video could not be played.');
+      }
+    };
+    attach();
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      video.pause();
+      video.srcObject = null;
+      video.removeAttribute('src');
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [source]);
+
+  // Once the first frame arrives the tile stays ready; the player's badge shows reconnects
+  const handleStreamStatus = (streamStatus: StreamStatus) => {
+    if (streamStatus.state === 'live') setStatus('ready');
+  };
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isAnalyzing || status !== 'ready' || !video) return;
+
+    const tracking = createTrackingState();
+    // Rule edits land on the shared engine, so the tile's own engine follows them while it runs
+    const unfollowRules = followRules(tracking);
+    const sceneGate = createSceneChangeGate();
+    const scheduler = createAnalysisScheduler(loadNarrationSettings());
+    let latest: FrameDetection | null = null;
+    setAlertCount(0);
+    setLastAlert(null);
+    setCommentary('');
+
+    scheduler.start<FrameDetection>({
+      detect: async () => {
+        const result = await detectFrame(video, {
+          tracking,
+          channel: `live-${source.id}`,
+          source: source.label
+        });
+        latest = result;
+        setDetection(result);
+        onDetections(source, result.detections, video);
+        if (result.alerts.length > 0) {
+          setAlertCount(prev => prev + result.alerts.length);
+          setLastAlert(result.alerts[result.alerts.length - 1]);
+          onAlerts(source, result.alerts, video);
+        }
+        return result;
+      },
+      // By the time the queue gets to this tile the scene may have moved on, so narrate the latest detection
+      narrate: (result) => narrationQueue.run(source.id, async () => {
+        // Tiles have no zones of their own, so outside-zone redaction hides their frames whole
+        const narration = await narrateFrame(video, (latest ?? result).scene, sceneGate);
+        if (narration.commentary === null) return false;
+        setCommentary(narration.commentary);
+        onCommentary(source, narration.commentary, video);
+      }),
+      isEvent: (result) => result.alerts.length > 0,
+      onStats: setStats
+    });
+
+    return () => {
+      unfollowRules();
+      scheduler.stop();
+      narrationQueue.cancel(source.id);
+      setDetection(null);
+      setStats(null);
+    };
+  }, [isAnalyzing, status, source, narrationQueue, onDetections, onAlerts, onCommentary]);
+
+  const layers = useMemo(() => tileLayers(detection), [detection]);
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl shadow-lg border border-gray-200 dark:border-gray-800 overflow-hidden flex flex-col">
+      <div className="relative aspect-video bg-black">
+        {source.kind === 'stream' ? (
+          <NetworkStreamPlayer
+            config={source.stream}
+            videoRef={videoRef}
+            onResize={(width, height) => setVideoSize({ width, height })}
+            onStatus={handleStreamStatus}
+            className="w-full h-full object-contain"
+            badgeClassName="absolute bottom-2 left-2 z-10"
+          />
+        ) : (
+          <video
+            ref={videoRef}
+            muted
+            playsInline
+            loop={source.kind === 'file'}
+            onLoadedMetadata={(e) => setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
+            className="w-full h-full object-contain"
+          />
+        )}
+        <VideoOverlay videoWidth={videoSize.width} videoHeight={videoSize.height} layers={layers} />
+
+        {status === 'loading' && source.kind !== 'stream' && (
+          <div className="absolute inset-0 flex items-center justify-center text-white/70">
+            <Loader2 size={32} className="animate-spin" />
+          </div>
+        )}
+        {status === 'error' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center text-sm text-gray-400">
+            <CameraOff size={32} />
+            {error}
+          </div>
+        )}
+
+        {alertCount > 0 && (
+          <button
+            onClick={() => setAlertCount(0)}
+            className="absolute top-2 right-2 flex items-center gap-1 px-2 py-1 rounded-lg bg-red-600/90 hover:bg-red-600 text-white text-xs font-medium"
+            title={lastAlert ? `Latest: ${lastAlert.message}. Click to acknowledge.` : 'Click to acknowledge'}
+          >
+            <Bell size={12} />
+            {alertCount}
+          </button>
+        )}
+        {stats && (
+          <div className="absolute top-2 left-2 bg-black/50 backdrop-blur-sm rounded-lg px-2 py-1 text-white text-xs">
+            {stats.detectionFps} FPS
+          </div>
+        )}
+      </div>
+
+      <div className="p-3 space-y-1">
+        <div className="flex items-center gap-2">
+          <Video size={14} className="text-gray-500 flex-shrink-0" />
+          <span className="text-sm font-medium truncate flex-1">{source.label}</span>
+          {onRemove && (
+            <button
+              onClick={onRemove}
+              className="p-1 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full flex-shrink-0"
+              title="Remove"
+            >
+              <X size={14} />
+            </button>
+          )}
+        </div>
+        {lastAlert && (
+          <p className="text-xs text-red-600 dark:text-red-400 truncate">
+            {lastAlert.message} • {new Date(lastAlert.timestamp).toLocaleTimeString()}
+          </p>
+        )}
+        <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-3 min-h-[3rem]">
+          {commentary || (isAnalyzing ? 'Waiting for narration...' : 'Not analyzing')}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Download, Film, Info, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  deleteClip,
+  getClipSettings,
+  listClips,
+  setClipSettings,
+  MAX_WINDOW_SECONDS,
+  type ClipRecord,
+  type ClipSettings
+} from '../utils/clips';
+import { formatDuration } from '../utils/dwell';
+import type { AlertSeverity } from '../utils/alertRules';
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  danger: 'text-red-600 dark:text-red-400',
+  warning: 'text-amber-700 dark:text-amber-400',
+  info: 'text-blue-600 dark:text-blue-400'
+};
+
+const inputClass = 'w-20 px-2 py-1 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm';
+
+// Largest number of each class seen in any single frame of the clip
+function summarizeDetections(clip: ClipRecord): Array<[string, number]> {
+  const peaks = new Map<string, number>();
+  for (const frame of clip.detections) {
+    const counts = new Map<string, number>();
+    frame.detections.forEach(d => counts.set(d.class, (counts.get(d.class) ?? 0) + 1));
+    counts.forEach((count, className) => peaks.set(className, Math.max(peaks.get(className) ?? 0, count)));
+  }
+  return Array.from(peaks).sort((a, b) => b[1] - a[1]);
+}
+
+function clipTitle(clip: ClipRecord): string {
+  const names = Array.from(new Set(clip.alerts.map(alert => alert.ruleName)));
+  return names.length > 2 ? `${names.slice(0, 2).join(', ')} +${names.length - 2}` : names.join(', ');
+}
+
+export function ClipLibraryTab() {
+  const [clips, setClips] = useState<ClipRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<ClipSettings>(getClipSettings);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const selected = clips.find(clip => clip.id === selectedId) ?? null;
+  const detected = selected ? summarizeDetections(selected) : [];
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const stored = await listClips();
+      setClips(stored);
+      setSelectedId(prev => stored.some(clip => clip.id === prev) ? prev : stored[0]?.id ?? null);
+    } catch (err) {
+      console.error('Error loading clips:', err);
+      setError('Could not load saved clips.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const urls = Object.fromEntries(clips.map(clip => [clip.id, URL.createObjectURL(clip.thumbnail)]));
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [clips]);
+
+  useEffect(() => {
+    if (!selected) {
+      setVideoUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(selected.video);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selected]);
+
+  const updateSettings = (changes: Partial<ClipSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    setClipSettings(next);
+  };
+
+  const removeClip = async (id: string) => {
+    try {
+      await deleteClip(id);
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting clip:', err);
+      setError('Could not delete the clip.');
+    }
+  };
+
+  const seekTo = (ms: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = ms / 1000;
+    videoRef.current.play().catch(() => {});
+  };
+
+  const windowInput = (key: 'preSeconds' | 'postSeconds', label: string) => (
+    <label className="flex items-center gap-2 text-sm">
+      {label}
+      <input
+        type="number"
+        min={0}
+        max={MAX_WINDOW_SECONDS}
+        value={settings[key]}
+        onChange={(e) => updateSettings({
+          [key]: Math.min(MAX_WINDOW_SECONDS, Math.max(0, parseInt(e.target.value) || 0))
+        })}
+        className={inputClass}
+      />
+      <span className="text-gray-500">s</span>
+    </label>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Film className="w-5 h-5 text-blue-500" />
+          Clip Library
+        </h3>
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => updateSettings({ enabled: e.target.checked })}
+              className="rounded border-gray-300 dark:border-gray-700"
+            />
+            Record clips on alerts
+          </label>
+          {windowInput('preSeconds', 'Before')}
+          {windowInput('postSeconds', 'After')}
+          <button
+            onClick={refresh}
+            className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition flex items-center gap-1.5"
+          >
+            <RefreshCw size={14} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-12 text-gray-500">
+          <Loader2 size={20} className="animate-spin" />
+          Loading clips...
+        </div>
+      ) : clips.length === 0 ? (
+        <div className="bg-white dark:bg-gray-900 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-gray-800 text-center text-sm text-gray-500">
+          No clips yet. When an alert fires during live camera analysis, the footage around it is saved here.
+        </div>
+      ) : (
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="bg-white dark:bg-gray-900 rounded-xl p-4 shadow-lg border border-gray-200 dark:border-gray-800 space-y-2 max-h-[36rem] overflow-y-auto scrollbar-thin">
+            {clips.map(clip => (
+              <button
+                key={clip.id}
+                onClick={() => setSelectedId(clip.id)}
+                className={`w-full flex items-center gap-3 p-2 rounded-lg text-left transition ${
+                  clip.id === selectedId
+                    ? 'bg-blue-50 dark:bg-blue-900/20'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-800/50'
+                }`}
+              >
+                {thumbnails[clip.id] && (
+                  <img src={thumbnails[clip.id]} alt="" className="w-20 h-12 object-cover rounded flex-shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate">{clipTitle(clip)}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(clip.createdAt).toLocaleString()} • {formatDuration(clip.end - clip.start)}
+                    {clip.source ? ` • ${clip.source}` : ''}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="lg:col-span-2 bg-white dark:bg-gray-900 rounded-xl p-4 shadow-lg border border-gray-200 dark:border-gray-800 space-y-4">
+              {videoUrl && (
+                <video
+                  ref={videoRef}
+                  key={selected.id}
+                  src={videoUrl}
+                  controls
+                  className="w-full rounded-lg bg-black aspect-video object-contain"
+                />
+              )}
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <p className="font-medium">{clipTitle(selected)}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(selected.start).toLocaleString()} • {selected.width}×{selected.height}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {videoUrl && (
+                    <a
+                      href={videoUrl}
+                      download={`${selected.id}.webm`}
+                      className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition flex items-center gap-1.5"
+                    >
+                      <Download size={14} />
+                      Download
+                    </a>
+                  )}
+                  <button
+                    onClick={() => removeClip(selected.id)}
+                    className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-600 rounded-lg transition flex items-center gap-1.5"
+                  >
+                    <Trash2 size={14} />
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Alerts</h4>
+                  <div className="space-y-1">
+                    {selected.alerts.map(alert => (
+                      <button
+                        key={alert.id}
+                        onClick={() => seekTo(alert.timestamp - selected.start)}
+                        className={`w-full flex items-start gap-2 p-1.5 rounded-lg text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800/50 ${SEVERITY_STYLES[alert.severity]}`}
+                      >
+                        {alert.severity === 'info' ? (
+                          <Info size={14} className="flex-shrink-0 mt-0.5" />
+                        ) : (
+                          <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                        )}
+                        <span className="flex-1 min-w-0">{alert.message}</span>
+                        <span className="text-xs font-mono opacity-75">
+                          {formatDuration(Math.max(0, alert.timestamp - selected.start))}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+
+                  <h4 className="text-sm font-medium mt-4 mb-2">Detected</h4>
+                  {detected.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {detected.map(([className, count]) => (
+                        <span key={className} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-800">
+                          {count} × {className}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500">No detections recorded.</p>
+                  )}
+                </div>
+
+                <div>
+                  <h4 className="text-sm font-medium mb-2">Commentary</h4>
+                  {selected.commentary.length > 0 ? (
+                    <div className="space-y-1 max-h-48 overflow-y-auto scrollbar-thin">
+                      {selected.commentary.map((entry, index) => (
+                        <button
+                          key={index}
+                          onClick={() => seekTo(entry.time)}
+                          className="w-full flex items-start gap-2 p-1.5 rounded-lg text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800/50"
+                        >
+                          <span className="text-xs font-mono text-gray-500 mt-0.5">{formatDuration(entry.time)}</span>
+                          <span className="flex-1 min-w-0">{entry.text}</span>
+                        </button>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500">No commentary during this clip.</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
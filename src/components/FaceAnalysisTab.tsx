@@ -1,12 +1,16 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Camera, CameraOff, FlipHorizontal, Play, Pause, Settings, AlertCircle } from 'lucide-react';
 import Webcam from 'react-webcam';
-
-declare const faceapi: any;
+import { loadFaceModels } from '../utils/faceAnalysis';
+import { inferFrameFaces } from '../utils/inferenceClient';
+import { boxLayer, labelLayer, landmarkLayer, type OverlayLayer } from '../utils/overlay';
+import { VideoOverlay } from './VideoOverlay';
 
 // Constants
 const MIN_SCORE = 0.3;
 const MAX_RESULTS = 5;
+const FACE_BOX_COLOR = 'rgba(0, 191, 255, 0.6)';
+const FACE_LABEL_COLOR = 'rgba(0, 0, 0, 0.7)';
 
 interface FaceDetection {
   detection: {
@@ -31,30 +35,18 @@ export function FaceAnalysisTab() {
     minScore: MIN_SCORE,
     maxResults: MAX_RESULTS
   });
+  const [faces, setFaces] = useState<FaceDetection[]>([]);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
   
   const webcamRef = useRef<Webcam>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
   const lastFrameTime = useRef<number>(0);
 
   useEffect(() => {
     const loadModels = async () => {
       try {
-        // Wait for faceapi to be available from CDN
-        if (typeof faceapi === 'undefined') {
-          throw new Error('Face API not loaded. Please check your internet connection.');
-        }
-
-        // Load models from CDN
-        const modelPath = 'https://cdn.jsdelivr.net/npm/@vladmandic/face-api/model';
-        await Promise.all([
-          faceapi.nets.ssdMobilenetv1.loadFromUri(modelPath),
-          faceapi.nets.faceLandmark68Net.loadFromUri(modelPath),
-          faceapi.nets.faceExpressionNet.loadFromUri(modelPath),
-          faceapi.nets.ageGenderNet.loadFromUri(modelPath)
-        ]);
-
-        console.log('Face-API models loaded successfully');
+        // Shared with the person attribute pass in analyzeFrame
+        await loadFaceModels();
         setIsModelLoaded(true);
         setError(null);
       } catch (err) {
@@ -80,99 +72,42 @@ export function FaceAnalysisTab() {
     setIsCameraEnabled(prev => !prev);
     if (isAnalyzing) {
       setIsAnalyzing(false);
+      setFaces([]);
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
     }
   };
 
-  const drawFaces = (canvas: HTMLCanvasElement, detections: FaceDetection[], currentFps: number) => {
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Clear previous drawings
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Draw FPS counter
-    ctx.font = 'small-caps 20px "Segoe UI"';
-    ctx.fillStyle = 'white';
-    ctx.fillText(`FPS: ${currentFps.toFixed(1)}`, 10, 25);
-
-    for (const detection of detections) {
-      // Draw face box
-      ctx.lineWidth = 3;
-      ctx.strokeStyle = 'deepskyblue';
-      ctx.fillStyle = 'deepskyblue';
-      ctx.globalAlpha = 0.6;
-      ctx.beginPath();
-      ctx.rect(
-        detection.detection.box.x,
-        detection.detection.box.y,
-        detection.detection.box.width,
-        detection.detection.box.height
-      );
-      ctx.stroke();
-      ctx.globalAlpha = 1;
-
-      // Get dominant expression
-      const expression = Object.entries(detection.expressions)
-        .sort((a, b) => b[1] - a[1])[0];
-
-      // Draw text background
-      const textY = detection.detection.box.y - 60;
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-      ctx.fillRect(
-        detection.detection.box.x,
-        textY,
-        200,
-        55
-      );
-
-      // Draw text with shadow effect
-      const textX = detection.detection.box.x + 5;
-      ctx.font = '16px "Segoe UI"';
-      
-      // Text shadow
-      ctx.fillStyle = 'black';
-      [
-        `Gender: ${Math.round(100 * detection.genderProbability)}% ${detection.gender}`,
-        `Expression: ${Math.round(100 * expression[1])}% ${expression[0]}`,
-        `Age: ${Math.round(detection.age)} years`
-      ].forEach((text, i) => {
-        ctx.fillText(text, textX + 1, textY + 18 + (i * 18) + 1);
-      });
-
-      // Main text
-      ctx.fillStyle = 'white';
-      [
-        `Gender: ${Math.round(100 * detection.genderProbability)}% ${detection.gender}`,
-        `Expression: ${Math.round(100 * expression[1])}% ${expression[0]}`,
-        `Age: ${Math.round(detection.age)} years`
-      ].forEach((text, i) => {
-        ctx.fillText(text, textX, textY + 18 + (i * 18));
-      });
-
-      // Draw face landmarks
-      ctx.fillStyle = '#00ff00';
-      for (const point of detection.landmarks.positions) {
-        ctx.beginPath();
-        ctx.arc(point.x, point.y, 2, 0, 2 * Math.PI);
-        ctx.fill();
-      }
-    }
+  const faceLayers = (detections: FaceDetection[]): OverlayLayer[] => {
+    const boxes = detections.map(({ detection: { box } }) => [box.x, box.y, box.width, box.height]);
+    return [
+      boxLayer(boxes.map(bbox => ({ bbox, color: FACE_BOX_COLOR, lineWidth: 3 }))),
+      labelLayer(detections.map((detection, index) => {
+        // Dominant expression
+        const expression = Object.entries(detection.expressions)
+          .sort((a, b) => b[1] - a[1])[0];
+        return {
+          bbox: boxes[index],
+          color: FACE_LABEL_COLOR,
+          text: [
+            `Gender: ${Math.round(100 * detection.genderProbability)}% ${detection.gender}`,
+            `Expression: ${Math.round(100 * expression[1])}% ${expression[0]}`,
+            `Age: ${Math.round(detection.age)} years`
+          ].join('\n')
+        };
+      })),
+      landmarkLayer(detections.flatMap(detection => detection.landmarks.positions))
+    ];
   };
 
   const detectFaces = async () => {
-    if (!isAnalyzing || !webcamRef.current?.video || !canvasRef.current) return;
+    if (!isAnalyzing || !webcamRef.current?.video) return;
 
     const video = webcamRef.current.video;
-    const canvas = canvasRef.current;
-
-    // Ensure canvas dimensions match video
-    if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-    }
+    setVideoSize(prev => prev.width === video.videoWidth && prev.height === video.videoHeight
+      ? prev
+      : { width: video.videoWidth, height: video.videoHeight });
 
     // Calculate FPS
     const now = performance.now();
@@ -182,21 +117,10 @@ export function FaceAnalysisTab() {
     setFps(currentFps);
 
     try {
-      // Detect faces with all features
-      const detections = await faceapi
-        .detectAllFaces(
-          video,
-          new faceapi.SsdMobilenetv1Options({
-            minConfidence: detectionSettings.minScore,
-            maxResults: detectionSettings.maxResults
-          })
-        )
-        .withFaceLandmarks()
-        .withFaceExpressions()
-        .withAgeAndGender();
+      // Detect faces with all features; the worker drops frames that queue up behind a slow one
+      const detections = await inferFrameFaces(video, detectionSettings, 'face-analysis');
 
-      // Draw results
-      drawFaces(canvas, detections, currentFps);
+      setFaces(detections);
     } catch (err) {
       console.error('Detection error:', err);
     }
@@ -212,6 +136,7 @@ export function FaceAnalysisTab() {
       detectFaces();
     } else {
       setIsAnalyzing(false);
+      setFaces([]);
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
@@ -244,6 +169,7 @@ export function FaceAnalysisTab() {
                       ref={webcamRef}
                       audio={false}
                       className="w-full h-full object-cover"
+                      mirrored={facingMode === 'user'}
                       screenshotFormat="image/jpeg"
                       videoConstraints={{
                         facingMode,
@@ -252,9 +178,12 @@ export function FaceAnalysisTab() {
                         aspectRatio: 16/9
                       }}
                     />
-                    <canvas
-                      ref={canvasRef}
-                      className="absolute inset-0 w-full h-full"
+                    <VideoOverlay
+                      videoWidth={videoSize.width}
+                      videoHeight={videoSize.height}
+                      layers={faceLayers(faces)}
+                      fit="cover"
+                      mirrored={facingMode === 'user'}
                     />
                     {isAnalyzing && (
                       <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-sm rounded-lg px-3 py-1.5 text-white text-sm">
@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Eye, History, Loader2, MessageSquare, Search, Trash2 } from 'lucide-react';
+import {
+  clearHistory,
+  queryEvents,
+  HISTORY_EVENT_TYPES,
+  type HistoryEvent,
+  type HistoryEventType
+} from '../utils/eventHistory';
+import type { AlertSeverity } from '../utils/alertRules';
+
+type RangePreset = 'hour' | 'day' | 'week' | 'custom';
+
+const RANGE_PRESETS: Array<{ id: RangePreset; label: string; ms?: number }> = [
+  { id: 'hour', label: 'Last hour', ms: 60 * 60 * 1000 },
+  { id: 'day', label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { id: 'week', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { id: 'custom', label: 'Custom range' }
+];
+
+const PAGE_SIZE = 100;
+const SEARCH_DELAY = 300; // ms of typing pause before the store is queried
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  danger: 'text-red-600 dark:text-red-400',
+  warning: 'text-amber-700 dark:text-amber-400',
+  info: 'text-blue-600 dark:text-blue-400'
+};
+
+const inputClass = 'px-2 py-1.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm';
+
+// datetime-local inputs take local time without a zone suffix
+function toInputValue(time: number): string {
+  const date = new Date(time - new Date(time).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+}
+
+function EventIcon({ event }: { event: HistoryEvent }) {
+  if (event.type === 'alert') {
+    return <AlertTriangle size={16} className={event.severity ? SEVERITY_STYLES[event.severity] : 'text-red-500'} />;
+  }
+  if (event.type === 'commentary') return <MessageSquare size={16} className="text-blue-500" />;
+  return <Eye size={16} className="text-gray-500" />;
+}
+
+function HistoryThumbnail({ image }: { image: Blob }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [image]);
+
+  return url ? <img src={url} alt="" className="w-24 h-14 object-cover rounded flex-shrink-0" /> : null;
+}
+
+export function HistoryTab() {
+  const [preset, setPreset] = useState<RangePreset>('hour');
+  const [customFrom, setCustomFrom] = useState(() => toInputValue(Date.now() - 60 * 60 * 1000));
+  const [customTo, setCustomTo] = useState(() => toInputValue(Date.now()));
+  const [types, setTypes] = useState<HistoryEventType[]>(HISTORY_EVENT_TYPES.map(type => type.id));
+  const [className, setClassName] = useState('');
+  const [search, setSearch] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [events, setEvents] = useState<HistoryEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const classOptions = Array.from(new Set(events.flatMap(event => event.classes))).sort();
+
+  useEffect(() => {
+    const range = RANGE_PRESETS.find(option => option.id === preset);
+    const from = range?.ms ? Date.now() - range.ms : new Date(customFrom).getTime();
+    const to = range?.ms ? Date.now() : new Date(customTo).getTime();
+    let isCurrent = true;
+
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const results = await queryEvents({
+          from: Number.isNaN(from) ? undefined : from,
+          to: Number.isNaN(to) ? undefined : to,
+          types,
+          className: className.trim() || undefined,
+          search
+        }, limit);
+        if (isCurrent) setEvents(results);
+      } catch (err) {
+        console.error('Error loading event history:', err);
+        if (isCurrent) setError('Could not load the event history.');
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [preset, customFrom, customTo, types, className, search, limit, reloadKey]);
+
+  const toggleType = (id: HistoryEventType) => {
+    setTypes(prev => prev.includes(id) ? prev.filter(type => type !== id) : [...prev, id]);
+    setLimit(PAGE_SIZE);
+  };
+
+  const removeAll = async () => {
+    if (!window.confirm('Delete the whole event history? This cannot be undone.')) return;
+    try {
+      await clearHistory();
+      setReloadKey(prev => prev + 1);
+    } catch (err) {
+      console.error('Error clearing event history:', err);
+      setError('Could not clear the event history.');
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <History className="w-5 h-5 text-blue-500" />
+          Event History
+        </h3>
+        <button
+          onClick={removeAll}
+          className="px-3 py-1.5 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-red-100 dark:hover:bg-red-900/30 hover:text-red-600 rounded-lg transition flex items-center gap-1.5"
+        >
+          <Trash2 size={14} />
+          Clear History
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-gray-900 rounded-xl p-4 shadow-lg border border-gray-200 dark:border-gray-800 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={preset}
+            onChange={(e) => {
+              setPreset(e.target.value as RangePreset);
+              setLimit(PAGE_SIZE);
+            }}
+            className={inputClass}
+          >
+            {RANGE_PRESETS.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          {preset === 'custom' && (
+            <>
+              <input
+                type="datetime-local"
+                value={customFrom}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                className={inputClass}
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="datetime-local"
+                value={customTo}
+                onChange={(e) => setCustomTo(e.target.value)}
+                className={inputClass}
+              />
+            </>
+          )}
+          <input
+            list="history-classes"
+            value={className}
+            onChange={(e) => {
+              setClassName(e.target.value);
+              setLimit(PAGE_SIZE);
+            }}
+            placeholder="Any object"
+            className={`${inputClass} w-36`}
+          />
+          <datalist id="history-classes">
+            {classOptions.map(option => <option key={option} value={option} />)}
+          </datalist>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setLimit(PAGE_SIZE);
+              }}
+              placeholder="Search descriptions and alerts..."
+              className={`${inputClass} w-full pl-8`}
+            />
+          </div>
+          <div className="flex gap-2">
+            {HISTORY_EVENT_TYPES.map(type => (
+              <button
+                key={type.id}
+                onClick={() => toggleType(type.id)}
+                className={`px-3 py-1.5 text-sm rounded-lg transition ${
+                  types.includes(type.id)
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                {type.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-900 rounded-xl p-4 shadow-lg border border-gray-200 dark:border-gray-800">
+        {events.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-gray-500">
+            {isLoading ? (
+              <>
+                <Loader2 size={16} className="animate-spin" />
+                Searching...
+              </>
+            ) : (
+              'No events match these filters.'
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {events.map(event => (
+              <div key={event.id} className="flex items-start gap-3 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800/50">
+                {event.thumbnail && <HistoryThumbnail image={event.thumbnail} />}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <EventIcon event={event} />
+                    {new Date(event.createdAt).toLocaleString()}
+                    {event.source ? ` • ${event.source}` : ''}
+                  </div>
+                  <p className={`text-sm mt-1 ${event.type === 'alert' && event.severity ? SEVERITY_STYLES[event.severity] : ''}`}>
+                    {event.text}
+                  </p>
+                  {event.classes.length > 0 && event.type !== 'detections' && (
+                    <p className="text-xs text-gray-500 mt-1">In view: {event.classes.join(', ')}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+            {events.length >= limit && (
+              <button
+                onClick={() => setLimit(prev => prev + PAGE_SIZE)}
+                disabled={isLoading}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition disabled:opacity-50"
+              >
+                {isLoading && <Loader2 size={14} className="animate-spin" />}
+                Load older events
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { downloadDetections, EXPORT_FORMATS, type DetectionRecording, type ExportFormat } from '../utils/annotationExport';
+
+interface LabelExportProps {
+  getRecording: () => DetectionRecording | null;
+  className?: string;
+}
+
+// Download button with a format picker; the recording is read on click so it includes the latest frames
+export function LabelExport({ getRecording, className = '' }: LabelExportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [formats, setFormats] = useState<ExportFormat[]>(EXPORT_FORMATS.map(format => format.id));
+  const [error, setError] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleFormat = (id: ExportFormat) => {
+    setFormats(prev => prev.includes(id) ? prev.filter(format => format !== id) : [...prev, id]);
+  };
+
+  const download = async () => {
+    setError('');
+    const recording = getRecording();
+    setIsExporting(true);
+    try {
+      if (!recording) throw new Error('No detections recorded yet. Process a video first.');
+      await downloadDetections(recording, formats);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export detections');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 transition text-sm"
+        title="Export detections as labels"
+      >
+        <Download size={16} />
+        Export Labels
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 bottom-full mb-2 z-20 w-56 p-3 rounded-xl shadow-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 space-y-2">
+          {EXPORT_FORMATS.map(format => (
+            <label key={format.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={formats.includes(format.id)}
+                onChange={() => toggleFormat(format.id)}
+                className="rounded border-gray-300 dark:border-gray-700"
+              />
+              {format.label}
+            </label>
+          ))}
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+          <button
+            onClick={download}
+            disabled={formats.length === 0 || isExporting}
+            className="w-full px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            {isExporting && <Loader2 size={14} className="animate-spin" />}
+            Download .zip
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
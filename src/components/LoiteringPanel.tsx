@@ -0,0 +1,78 @@
+import { Timer, User } from 'lucide-react';
+import { formatDuration, type DwellRecord } from '../utils/dwell';
+import type { Zone } from '../utils/zones';
+
+interface LoiteringPanelProps {
+  records: DwellRecord[];
+  zones: Zone[];
+  threshold: number; // seconds
+  onThresholdChange: (seconds: number) => void;
+}
+
+export function LoiteringPanel({ records, zones, threshold, onThresholdChange }: LoiteringPanelProps) {
+  const sorted = [...records].sort((a, b) => {
+    if (a.lingering !== b.lingering) return a.lingering ? -1 : 1;
+    return b.duration - a.duration;
+  });
+  const lingeringCount = new Set(records.filter(r => r.lingering).map(r => r.trackId)).size;
+
+  const scopeName = (scope: string) =>
+    scope === 'frame' ? 'in frame' : `in ${zones.find(zone => zone.id === scope)?.name ?? 'zone'}`;
+
+  return (
+    <div className="bg-white dark:bg-gray-900 p-4 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-800 flex flex-col max-h-64">
+      <div className="flex items-center justify-between mb-3 flex-shrink-0">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Timer size={20} className="text-amber-500" />
+          Dwell Time
+          {lingeringCount > 0 && (
+            <span className="px-2 py-0.5 text-xs rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+              {lingeringCount} lingering
+            </span>
+          )}
+        </h3>
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          Threshold (s)
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={threshold}
+            onChange={(e) => onThresholdChange(Math.max(1, parseFloat(e.target.value) || 1))}
+            className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm"
+          />
+        </label>
+      </div>
+
+      {sorted.length > 0 ? (
+        <div className="flex-1 min-h-0 overflow-y-auto scrollbar-thin space-y-2">
+          {sorted.map(record => (
+            <div
+              key={`${record.trackId}:${record.scope}`}
+              className={`flex items-center gap-3 p-2 rounded-lg border text-sm ${
+                record.lingering
+                  ? 'bg-amber-50 dark:bg-amber-900/20 border-amber-500/30 text-amber-700 dark:text-amber-400'
+                  : 'bg-gray-50 dark:bg-gray-800 border-transparent'
+              }`}
+            >
+              {record.thumbnail ? (
+                <img src={record.thumbnail} alt={`Person #${record.trackId}`} className="w-8 h-10 object-cover rounded flex-shrink-0" />
+              ) : (
+                <div className="w-8 h-10 rounded bg-gray-200 dark:bg-gray-700 flex items-center justify-center flex-shrink-0">
+                  <User size={16} className="text-gray-400" />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">Person #{record.trackId}</p>
+                <p className="text-xs opacity-75">{scopeName(record.scope)} since {new Date(record.since).toLocaleTimeString()}</p>
+              </div>
+              <span className="font-mono text-sm">{formatDuration(record.duration)}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400 dark:text-gray-600">No one tracked yet</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { StreamStatusBadge } from './StreamStatusBadge';
+import { createNetworkStream, type NetworkStream, type NetworkStreamConfig, type StreamStats, type StreamStatus } from '../utils/networkStream';
+
+interface NetworkStreamPlayerProps {
+  config: NetworkStreamConfig;
+  videoRef: RefObject<HTMLVideoElement>; // owned by the parent so detection can read frames from it
+  onResize?: (width: number, height: number) => void;
+  onStatus?: (status: StreamStatus) => void;
+  className?: string;
+  badgeClassName?: string;
+}
+
+// Plays a network camera in a plain video element and keeps it connected while mounted
+export function NetworkStreamPlayer({
+  config,
+  videoRef,
+  onResize,
+  onStatus,
+  className = '',
+  badgeClassName = 'absolute top-4 right-4 z-10'
+}: NetworkStreamPlayerProps) {
+  const [status, setStatus] = useState<StreamStatus | null>(null);
+  const [stats, setStats] = useState<StreamStats | null>(null);
+  const [stream, setStream] = useState<NetworkStream | null>(null);
+  // Read through a ref so a parent re-render with a new callback does not reconnect the stream
+  const onStatusRef = useRef(onStatus);
+  onStatusRef.current = onStatus;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    setStats(null);
+    const next = createNetworkStream(video, config, (nextStatus) => {
+      setStatus(nextStatus);
+      onStatusRef.current?.(nextStatus);
+      if (nextStatus.state !== 'live') setStats(null);
+    }, setStats);
+    setStream(next);
+    next.start();
+    return () => next.stop();
+  }, [config, videoRef]);
+
+  const updateSize = (video: HTMLVideoElement) => onResize?.(video.videoWidth, video.videoHeight);
+
+  return (
+    <>
+      <video
+        ref={videoRef}
+        muted
+        playsInline
+        onLoadedMetadata={(e) => updateSize(e.currentTarget)}
+        onResize={(e) => updateSize(e.currentTarget)}
+        className={className}
+      />
+      {status && (
+        <StreamStatusBadge
+          status={status}
+          stats={stats}
+          onRetry={() => stream?.reconnect()}
+          className={badgeClassName}
+        />
+      )}
+    </>
+  );
+}
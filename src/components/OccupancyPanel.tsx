@@ -0,0 +1,72 @@
+import { Line } from 'react-chartjs-2';
+import { Users } from 'lucide-react';
+import { lineChartOptions } from '../utils/charts';
+import type { OccupancySnapshot } from '../utils/analytics';
+
+interface OccupancyPanelProps {
+  snapshot: OccupancySnapshot;
+  timeBase: 'clock' | 'video';
+}
+
+const formatTime = (time: number, timeBase: 'clock' | 'video') => {
+  if (timeBase === 'clock') {
+    return new Date(time).toLocaleTimeString();
+  }
+  const totalSeconds = Math.floor(time / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export function OccupancyPanel({ snapshot, timeBase }: OccupancyPanelProps) {
+  const current = snapshot.series.length > 0 ? snapshot.series[snapshot.series.length - 1].count : 0;
+
+  const chartData = {
+    labels: snapshot.series.map(sample => formatTime(sample.time, timeBase)),
+    datasets: [
+      {
+        label: 'People',
+        data: snapshot.series.map(sample => sample.count),
+        borderColor: 'rgb(53, 162, 235)',
+        tension: 0.1
+      }
+    ]
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-gray-800">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Users className="w-5 h-5 text-blue-500" />
+        Occupancy
+      </h3>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <p className="text-xs text-gray-500">{timeBase === 'clock' ? 'Current' : 'Last Sample'}</p>
+          <p className="text-2xl font-semibold">{current}</p>
+        </div>
+        <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <p className="text-xs text-gray-500">Peak</p>
+          <p className="text-2xl font-semibold">{snapshot.peak}</p>
+          {snapshot.peakTime !== null && (
+            <p className="text-xs text-gray-500">at {formatTime(snapshot.peakTime, timeBase)}</p>
+          )}
+        </div>
+        <div className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <p className="text-xs text-gray-500">Average</p>
+          <p className="text-2xl font-semibold">{snapshot.average.toFixed(1)}</p>
+        </div>
+      </div>
+
+      {snapshot.series.length > 0 ? (
+        <div className="h-[250px]">
+          <Line data={chartData} options={lineChartOptions} />
+        </div>
+      ) : (
+        <div className="h-[250px] flex items-center justify-center text-gray-400 dark:text-gray-600">
+          <p className="text-sm">No occupancy data yet</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import {
+  describeRedaction,
+  getRedactionSettings,
+  setRedactionSettings,
+  REDACTION_POLICIES,
+  REDACTION_STYLES,
+  type RedactionSettings
+} from '../utils/redaction';
+import type { Zone } from '../utils/zones';
+
+interface RedactionControlProps {
+  zones: Zone[];
+  openUpwards?: boolean;
+  className?: string;
+}
+
+// Shows the redaction policy applied to frames sent to hosted models, and lets it be changed
+export function RedactionControl({ zones, openUpwards = false, className = '' }: RedactionControlProps) {
+  const [settings, setSettings] = useState<RedactionSettings>(getRedactionSettings);
+  const [isOpen, setIsOpen] = useState(false);
+  const polygonZones = zones.filter(zone => zone.kind === 'polygon');
+  const isRedacting = settings.policy !== 'off';
+
+  const update = (changes: Partial<RedactionSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    setRedactionSettings(next);
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium backdrop-blur-sm transition ${
+          isRedacting
+            ? 'bg-green-600/80 hover:bg-green-600 text-white'
+            : 'bg-amber-500/90 hover:bg-amber-500 text-white'
+        }`}
+        title="Privacy redaction for frames sent to OpenAI"
+      >
+        {isRedacting ? <ShieldCheck size={14} /> : <ShieldAlert size={14} />}
+        {describeRedaction(settings)}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute left-0 z-20 w-64 p-3 rounded-xl shadow-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 text-sm space-y-3 ${
+          openUpwards ? 'bottom-full mb-2' : 'top-full mt-2'
+        }`}>
+          <div className="space-y-2">
+            {REDACTION_POLICIES.map(policy => (
+              <label key={policy.id} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="redaction-policy"
+                  checked={settings.policy === policy.id}
+                  onChange={() => update({ policy: policy.id })}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium">{policy.label}</span>
+                  <span className="block text-xs text-gray-500">{policy.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {settings.policy === 'outside-zone' && (
+            polygonZones.length > 0 ? (
+              <select
+                value={settings.zoneId ?? ''}
+                onChange={(e) => update({ zoneId: e.target.value || null })}
+                className="w-full px-2 py-1.5 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+              >
+                <option value="">All zones</option>
+                {polygonZones.map(zone => (
+                  <option key={zone.id} value={zone.id}>{zone.name}</option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                No zones drawn for this source, so the whole frame is hidden.
+              </p>
+            )
+          )}
+
+          {isRedacting && (
+            <div className="flex gap-2">
+              {REDACTION_STYLES.map(style => (
+                <button
+                  key={style.id}
+                  onClick={() => update({ style: style.id })}
+                  className={`flex-1 px-2 py-1.5 rounded-lg transition ${
+                    settings.style === style.id
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  {style.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
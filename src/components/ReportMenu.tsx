@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { buildSessionReport, downloadReport, printReport, REPORT_FORMATS, type ReportFormat, type ReportInput } from '../utils/report';
+
+interface ReportMenuProps {
+  getInput: () => ReportInput;
+  className?: string;
+}
+
+// The session is read on click so the report covers everything up to that moment
+export function ReportMenu({ getInput, className = '' }: ReportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState('');
+
+  const generate = async (format: ReportFormat) => {
+    setError('');
+    // Opened before any await, while the click still counts as a user gesture
+    const printWindow = format === 'print' ? window.open('', '_blank') : null;
+    if (format === 'print' && !printWindow) {
+      setError('The print window was blocked. Allow pop-ups for this page and try again.');
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const report = await buildSessionReport(getInput());
+      if (printWindow) {
+        printReport(report, printWindow);
+      } else if (format !== 'print') {
+        downloadReport(report, format);
+      }
+      setIsOpen(false);
+    } catch (err) {
+      printWindow?.close();
+      console.error('Error generating report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate the report');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="p-2 rounded-lg transition flex items-center gap-2 text-sm bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"
+        title="Generate a report of this session"
+      >
+        {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />}
+        Report
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-56 p-2 rounded-xl shadow-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 space-y-1">
+          {REPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => generate(format.id)}
+              disabled={isGenerating}
+              className="w-full px-3 py-2 rounded-lg text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800 transition disabled:opacity-50"
+            >
+              {format.label}
+            </button>
+          ))}
+          {error && <p className="px-3 pb-1 text-xs text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useId, useState } from 'react';
+import { Link } from 'lucide-react';
+import {
+  loadStreamHistory,
+  saveStreamHistory,
+  streamSource,
+  STREAM_PROTOCOLS,
+  type NetworkStreamConfig,
+  type StreamProtocol
+} from '../utils/networkStream';
+
+interface StreamSourceFormProps {
+  onConnect: (config: NetworkStreamConfig) => void;
+  submitLabel?: string;
+  className?: string;
+}
+
+export function StreamSourceForm({ onConnect, submitLabel = 'Connect', className = '' }: StreamSourceFormProps) {
+  const [url, setUrl] = useState('');
+  const [protocol, setProtocol] = useState<StreamProtocol | 'auto'>('auto');
+  const [history, setHistory] = useState(loadStreamHistory);
+  const [error, setError] = useState('');
+  const historyListId = useId();
+
+  const connect = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const config = streamSource(url, protocol);
+      setHistory(saveStreamHistory(config));
+      setError('');
+      setUrl('');
+      onConnect(config);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid stream URL');
+    }
+  };
+
+  // Picking a recent URL restores the protocol it was opened with
+  const changeUrl = (value: string) => {
+    setUrl(value);
+    const recent = history.find(entry => entry.url === value);
+    if (recent) setProtocol(recent.protocol);
+  };
+
+  return (
+    <form onSubmit={connect} className={`space-y-2 ${className}`}>
+      <input
+        type="url"
+        value={url}
+        onChange={(e) => changeUrl(e.target.value)}
+        list={historyListId}
+        placeholder="http://camera.local/video.mjpg"
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm"
+      />
+      <datalist id={historyListId}>
+        {history.map(entry => (
+          <option key={entry.id} value={entry.url}>{entry.label}</option>
+        ))}
+      </datalist>
+      <div className="flex gap-2">
+        <select
+          value={protocol}
+          onChange={(e) => setProtocol(e.target.value as StreamProtocol | 'auto')}
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm"
+        >
+          <option value="auto">Detect from URL</option>
+          {STREAM_PROTOCOLS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!url.trim()}
+          className="px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition flex items-center gap-1.5 disabled:opacity-50"
+        >
+          <Link size={14} />
+          {submitLabel}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { Loader2, RefreshCw, WifiOff } from 'lucide-react';
+import { formatBitrate, type StreamStats, type StreamStatus } from '../utils/networkStream';
+
+interface StreamStatusBadgeProps {
+  status: StreamStatus;
+  stats: StreamStats | null;
+  onRetry?: () => void;
+  className?: string;
+}
+
+const STATE_COLORS: Record<StreamStatus['state'], string> = {
+  connecting: 'bg-blue-400',
+  live: 'bg-green-500',
+  reconnecting: 'bg-amber-400',
+  failed: 'bg-red-500',
+  stopped: 'bg-gray-400'
+};
+
+function stateLabel(status: StreamStatus, now: number): string {
+  switch (status.state) {
+    case 'connecting':
+      return 'Connecting...';
+    case 'live':
+      return 'Live';
+    case 'reconnecting':
+      return status.retryAt && status.retryAt > now
+        ? `Reconnecting in ${Math.ceil((status.retryAt - now) / 1000)}s (attempt ${status.attempt})`
+        : 'Reconnecting...';
+    case 'failed':
+      return 'Disconnected';
+    case 'stopped':
+      return 'Stopped';
+  }
+}
+
+export function StreamStatusBadge({ status, stats, onRetry, className = '' }: StreamStatusBadgeProps) {
+  const [now, setNow] = useState(Date.now());
+
+  // Ticks the reconnect countdown; stats already re-render the badge while live
+  useEffect(() => {
+    if (!status.retryAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [status.retryAt]);
+
+  return (
+    <div
+      className={`bg-black/60 backdrop-blur-sm rounded-lg px-2.5 py-1.5 text-white text-xs space-y-0.5 max-w-xs ${className}`}
+      title={status.error ?? undefined}
+    >
+      <div className="flex items-center gap-1.5 font-medium">
+        {status.state === 'connecting' || status.state === 'reconnecting' ? (
+          <Loader2 size={12} className="animate-spin" />
+        ) : status.state === 'failed' ? (
+          <WifiOff size={12} />
+        ) : (
+          <span className={`w-2 h-2 rounded-full ${STATE_COLORS[status.state]}`} />
+        )}
+        {stateLabel(status, now)}
+        {onRetry && (status.state === 'failed' || status.state === 'reconnecting') && (
+          <button
+            onClick={onRetry}
+            className="ml-1 p-0.5 hover:bg-white/20 rounded"
+            title="Reconnect now"
+          >
+            <RefreshCw size={12} />
+          </button>
+        )}
+      </div>
+      {status.state === 'live' && stats && (
+        <p className="text-white/80">
+          {stats.fps} fps • {stats.width}×{stats.height}
+          {stats.bitrate !== null ? ` • ${formatBitrate(stats.bitrate)}` : ''}
+          {status.reconnects > 0 ? ` • ${status.reconnects} ${status.reconnects === 1 ? 'reconnect' : 'reconnects'}` : ''}
+        </p>
+      )}
+      {status.error && status.state !== 'live' && (
+        <p className="text-red-300 line-clamp-2">{status.error}</p>
+      )}
+    </div>
+  );
+}
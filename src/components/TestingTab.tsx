@@ -1,11 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Upload, Play, AlertCircle, Video, X, Gauge, Camera, CameraOff, FlipHorizontal, Pause } from 'lucide-react';
+import { Upload, Play, AlertCircle, Video, X, Gauge, Camera, CameraOff, FlipHorizontal, Pause, PersonStanding } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
 import Webcam from 'react-webcam';
 import * as tf from '@tensorflow/tfjs';
-import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import { getActiveDetector } from '../utils/detectors';
 import { loadTrainedModel } from '../utils/train';
 import { processVideoForPrediction } from '../utils/dataCollection';
+import { createDetectionRecorder, type DetectionRecorder } from '../utils/annotationExport';
+import { LabelExport } from './LabelExport';
+import { VideoOverlay } from './VideoOverlay';
+import { analyzeVideoFalls, type FallEvent } from '../utils/fallDetection';
+import { alertLayer, boxLayer, keypointLayer, labelLayer, type OverlayLayer } from '../utils/overlay';
+import type { Pose } from '../utils/pose';
 
 const SUPPORTED_VIDEO_FORMATS = {
   'video/mp4': ['.mp4'],
@@ -23,6 +29,7 @@ interface PredictionResult {
     bbox: number[];
     label: string;
     score: number;
+    pose?: Pose;
   }>;
 }
 
@@ -38,15 +45,18 @@ export function TestingTab() {
   const [fps, setFps] = useState<number>(0);
   const [isModelLoading, setIsModelLoading] = useState(false);
   const [webcamReady, setWebcamReady] = useState(false);
+  // Fall events per tested clip, keyed by file name
+  const [fallEvents, setFallEvents] = useState<Record<string, FallEvent[]>>({});
+  const [fallProgress, setFallProgress] = useState<number | null>(null);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const webcamRef = useRef<Webcam>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const modelRef = useRef<tf.LayersModel | null>(null);
-  const cocoModelRef = useRef<cocoSsd.ObjectDetection | null>(null);
   const cleanupRef = useRef<(() => void) | null>(null);
   const fpsIntervalRef = useRef<number | null>(null);
   const frameCountRef = useRef<number>(0);
+  const recorderRef = useRef<DetectionRecorder | null>(null);
 
   useEffect(() => {
     const initTf = async () => {
@@ -108,15 +118,16 @@ export function TestingTab() {
       videoRef.current.src = URL.createObjectURL(testVideo);
       await videoRef.current.play();
 
+      recorderRef.current = createDetectionRecorder(testVideo.name);
       cleanupRef.current = await processVideoForPrediction(
         videoRef.current,
         model,
         (prediction) => {
           setPredictions(prev => [...prev.slice(-99), prediction]);
           setCurrentPrediction(prediction);
-          drawDetections(prediction);
           frameCountRef.current++;
-        }
+        },
+        recorderRef.current
       );
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred during analysis');
@@ -124,6 +135,32 @@ export function TestingTab() {
     }
   };
 
+  const startFallDetection = async () => {
+    if (!testVideo || !videoRef.current) return;
+
+    setError(null);
+    setFallProgress(0);
+    try {
+      if (!videoRef.current.src) {
+        videoRef.current.src = URL.createObjectURL(testVideo);
+      }
+      const events = await analyzeVideoFalls(testVideo, setFallProgress);
+      setFallEvents(prev => ({ ...prev, [testVideo.name]: events }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred during fall detection');
+    } finally {
+      setFallProgress(null);
+    }
+  };
+
+  // Detections from the current or most recent run, exported as pre-labels
+  const getRecording = () => recorderRef.current?.recording() ?? null;
+
+  const seekTo = (time: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = time / 1000;
+  };
+
   const toggleCamera = () => {
     setFacingMode(prev => prev === 'user' ? 'environment' : 'user');
     setWebcamReady(false);
@@ -140,6 +177,13 @@ export function TestingTab() {
   const handleWebcamReady = () => {
     console.log('Webcam is ready');
     setWebcamReady(true);
+
+    const video = webcamRef.current?.video;
+    if (!video) return;
+    const updateSize = () => setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+    video.addEventListener('loadedmetadata', updateSize);
+    video.addEventListener('resize', updateSize);
+    updateSize();
   };
 
   const loadModels = async () => {
@@ -155,12 +199,8 @@ export function TestingTab() {
         modelRef.current = model;
       }
       
-      if (!cocoModelRef.current) {
-        const cocoModel = await cocoSsd.load({
-          base: 'lite_mobilenet_v2'
-        });
-        cocoModelRef.current = cocoModel;
-      }
+      // Warm up the shared detector so the first frame doesn't stall
+      await getActiveDetector();
       
       return true;
     } catch (err) {
@@ -200,15 +240,16 @@ export function TestingTab() {
         frameCountRef.current = 0;
       }, 1000);
 
+      recorderRef.current = createDetectionRecorder('webcam');
       cleanupRef.current = await processVideoForPrediction(
         webcamRef.current.video,
         modelRef.current!,
         (prediction) => {
           setPredictions(prev => [...prev.slice(-99), prediction]);
           setCurrentPrediction(prediction);
-          drawDetections(prediction);
           frameCountRef.current++;
-        }
+        },
+        recorderRef.current
       );
     } catch (err) {
       console.error('Error starting webcam analysis:', err);
@@ -229,110 +270,26 @@ export function TestingTab() {
     }
   };
 
-  const drawDetections = (prediction: PredictionResult) => {
-    if (!canvasRef.current) return;
-    
-    const ctx = canvasRef.current.getContext('2d');
-    if (!ctx) return;
-
-    const videoElement = mode === 'upload' ? videoRef.current : webcamRef.current?.video;
-    if (!videoElement) return;
-
-    // Get container dimensions
-    const containerElement = canvasRef.current.parentElement;
-    if (!containerElement) return;
-
-    const containerWidth = containerElement.clientWidth;
-    const containerHeight = containerElement.clientHeight;
-
-    // Set canvas dimensions to match container
-    canvasRef.current.width = containerWidth;
-    canvasRef.current.height = containerHeight;
-
-    // Calculate scale factors
-    const scaleX = containerWidth / videoElement.videoWidth;
-    const scaleY = containerHeight / videoElement.videoHeight;
-    const scale = Math.min(scaleX, scaleY);
-
-    // Calculate centered position
-    const offsetX = (containerWidth - (videoElement.videoWidth * scale)) / 2;
-    const offsetY = (containerHeight - (videoElement.videoHeight * scale)) / 2;
-
-    // Clear previous drawings
-    ctx.clearRect(0, 0, containerWidth, containerHeight);
-
-    // Draw FPS counter
-    if (isAnalyzing) {
-      ctx.font = 'bold 16px Arial';
-      ctx.fillStyle = 'white';
-      ctx.strokeStyle = 'black';
-      ctx.lineWidth = 3;
-      const fpsText = `FPS: ${fps}`;
-      ctx.strokeText(fpsText, 10, 25);
-      ctx.fillText(fpsText, 10, 25);
-    }
-
-    // Draw bounding boxes
-    prediction.detections.forEach(detection => {
-      const [x, y, width, height] = detection.bbox;
-      
-      // Scale and offset coordinates
-      const scaledX = (x * scale) + offsetX;
-      const scaledY = (y * scale) + offsetY;
-      const scaledWidth = width * scale;
-      const scaledHeight = height * scale;
-      
-      // Draw box with shadow effect
-      ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
-      ctx.shadowBlur = 5;
-      ctx.lineWidth = 2;
-      ctx.strokeStyle = prediction.isViolent ? 'red' : 'green';
-      ctx.strokeRect(scaledX, scaledY, scaledWidth, scaledHeight);
-      
-      // Reset shadow for text
-      ctx.shadowColor = 'transparent';
-      
-      // Draw background for label
-      const label = `${detection.label} (${Math.round(detection.score * 100)}%)`;
-      const labelWidth = ctx.measureText(label).width + 10;
-      ctx.fillStyle = prediction.isViolent ? 'rgba(255, 0, 0, 0.8)' : 'rgba(0, 128, 0, 0.8)';
-      ctx.fillRect(scaledX, scaledY - 25, labelWidth, 20);
-      
-      // Draw label text
-      ctx.fillStyle = 'white';
-      ctx.font = '14px Arial';
-      ctx.fillText(label, scaledX + 5, scaledY - 10);
-    });
-
-    // Draw overall prediction
-    if (prediction.detections.length > 0) {
-      const boxWidth = 200;
-      const boxHeight = 60;
-      const margin = 10;
-      
-      // Draw background box
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-      ctx.fillRect(
-        containerWidth - boxWidth - margin,
-        margin,
-        boxWidth,
-        boxHeight
-      );
-      
-      // Draw prediction text
-      ctx.fillStyle = prediction.isViolent ? 'red' : 'green';
-      ctx.font = 'bold 16px Arial';
-      ctx.fillText(
-        `Violence: ${prediction.isViolent ? 'Detected' : 'Not Detected'}`,
-        containerWidth - boxWidth - margin + 10,
-        margin + 25
-      );
-      ctx.fillText(
-        `Confidence: ${Math.round(prediction.confidence * 100)}%`,
-        containerWidth - boxWidth - margin + 10,
-        margin + 45
-      );
-    }
+  // Boxes and skeletons in the prediction's colour, with the clip-level verdict in the corner
+  const predictionLayers = (prediction: PredictionResult | null): OverlayLayer[] => {
+    if (!prediction) return [];
+    const [color, labelColor, textColor] = prediction.isViolent
+      ? ['#ef4444', 'rgba(220, 38, 38, 0.8)', '#f87171']
+      : ['#22c55e', 'rgba(22, 163, 74, 0.8)', '#4ade80'];
+
+    return [
+      boxLayer(prediction.detections.map(detection => ({ bbox: detection.bbox, color }))),
+      keypointLayer(prediction.detections.flatMap(detection => detection.pose ? [detection.pose] : [])),
+      labelLayer(prediction.detections.map(detection => ({
+        bbox: detection.bbox,
+        text: `${detection.label} (${Math.round(detection.score * 100)}%)`,
+        color: labelColor
+      }))),
+      alertLayer(prediction.detections.length > 0 ? [
+        { text: `Violence: ${prediction.isViolent ? 'Detected' : 'Not Detected'}`, color: textColor },
+        { text: `Confidence: ${Math.round(prediction.confidence * 100)}%`, color: textColor }
+      ] : [])
+    ];
   };
 
   return (
@@ -454,6 +411,34 @@ export function TestingTab() {
                     </>
                   )}
                 </button>
+
+                <button
+                  onClick={startFallDetection}
+                  disabled={fallProgress !== null}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {fallProgress !== null ? (
+                    <>
+                      <Gauge className="animate-spin" size={18} />
+                      Detecting Falls... {Math.round(fallProgress)}%
+                    </>
+                  ) : (
+                    <>
+                      <PersonStanding size={18} />
+                      Detect Falls
+                    </>
+                  )}
+                </button>
+                {fallProgress !== null && (
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${fallProgress}%` }}
+                    />
+                  </div>
+                )}
+
+                <LabelExport getRecording={getRecording} className="flex justify-end" />
               </div>
             )
           ) : (
@@ -471,11 +456,15 @@ export function TestingTab() {
                         width: { ideal: 1280 },
                         height: { ideal: 720 }
                       }}
+                      mirrored={facingMode === 'user'}
                       onUserMedia={handleWebcamReady}
                     />
-                    <canvas
-                      ref={canvasRef}
-                      className="absolute inset-0 w-full h-full pointer-events-none"
+                    <VideoOverlay
+                      videoWidth={videoSize.width}
+                      videoHeight={videoSize.height}
+                      layers={predictionLayers(currentPrediction)}
+                      fit="cover"
+                      mirrored={facingMode === 'user'}
                     />
                     {isAnalyzing && (
                       <div className="absolute top-4 left-4 bg-black/50 backdrop-blur-sm rounded-lg px-3 py-1.5 text-white text-sm">
@@ -553,6 +542,8 @@ export function TestingTab() {
                   )}
                 </button>
               )}
+
+              <LabelExport getRecording={getRecording} className="flex justify-end" />
             </div>
           )}
 
@@ -614,6 +605,47 @@ export function TestingTab() {
         </div>
       </div>
 
+      {/* Fall Events - one list per tested clip */}
+      {mode === 'upload' && Object.keys(fallEvents).length > 0 && (
+        <div className="bg-white dark:bg-gray-900 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-gray-800">
+          <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <PersonStanding className="w-5 h-5 text-red-500" />
+            Fall Events
+          </h3>
+          <div className="space-y-4">
+            {Object.entries(fallEvents).map(([fileName, events]) => (
+              <div key={fileName} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium truncate">{fileName}</span>
+                  <span className="text-xs text-gray-500">{events.length} fall(s)</span>
+                </div>
+                {events.length > 0 ? (
+                  events.map(event => (
+                    <button
+                      key={event.id}
+                      onClick={() => seekTo(event.timestamp)}
+                      disabled={testVideo?.name !== fileName}
+                      className="w-full flex items-center justify-between p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm text-left disabled:cursor-default"
+                    >
+                      <span>
+                        Person #{event.trackId} fell at {(event.timestamp / 1000).toFixed(1)}s
+                      </span>
+                      <span className="text-xs">
+                        confirmed after {((event.confirmedAt - event.timestamp) / 1000).toFixed(1)}s • drop {event.dropVelocity.toFixed(1)} heights/s
+                      </span>
+                    </button>
+                  ))
+                ) : (
+                  <p className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400 text-sm">
+                    No falls detected
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Video Preview - Only show for upload mode */}
       {mode === 'upload' && (
         <div className="bg-white dark:bg-gray-900 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-gray-800">
@@ -624,10 +656,15 @@ export function TestingTab() {
               className="absolute inset-0 w-full h-full"
               controls
               crossOrigin="anonymous"
+              onLoadedMetadata={(e) => setVideoSize({
+                width: e.currentTarget.videoWidth,
+                height: e.currentTarget.videoHeight
+              })}
             />
-            <canvas
-              ref={canvasRef}
-              className="absolute inset-0 w-full h-full pointer-events-none"
+            <VideoOverlay
+              videoWidth={videoSize.width}
+              videoHeight={videoSize.height}
+              layers={predictionLayers(currentPrediction)}
             />
           </div>
         </div>
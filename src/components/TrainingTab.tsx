@@ -2,29 +2,11 @@ import React, { useState, useRef } from 'react';
 import { Upload, Play, RefreshCw, Save, X, Video, AlertCircle, Loader2, Settings, Check } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
 import { Line } from 'react-chartjs-2';
-import {
-  Chart as ChartJS,
-  CategoryScale,
-  LinearScale,
-  PointElement,
-  LineElement,
-  Title,
-  Tooltip,
-  Legend
-} from 'chart.js';
 import { processVideoForTraining, dataCollector } from '../utils/dataCollection';
 import { trainViolenceDetection, type TrainingConfig } from '../utils/train';
-
-// Register ChartJS components
-ChartJS.register(
-  CategoryScale,
-  LinearScale,
-  PointElement,
-  LineElement,
-  Title,
-  Tooltip,
-  Legend
-);
+import { lineChartOptions } from '../utils/charts';
+import type { DetectionRecording } from '../utils/annotationExport';
+import { LabelExport } from './LabelExport';
 
 interface TrainingMetrics {
   epoch: number;
@@ -39,12 +21,14 @@ interface VideoStatus {
   progress: number;
   error?: string;
   isViolent: boolean;
+  recording?: DetectionRecording;
 }
 
 interface ProcessingResult {
   success: boolean;
   error?: string;
   framesProcessed: number;
+  recording?: DetectionRecording;
 }
 
 const SUPPORTED_VIDEO_FORMATS = {
@@ -79,6 +63,7 @@ export function TrainingTab() {
   const [error, setError] = useState<string | null>(null);
   const [trainingComplete, setTrainingComplete] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [exportVideo, setExportVideo] = useState('');
   const abortControllerRef = useRef<AbortController | null>(null);
   const [processingStats, setProcessingStats] = useState<{
     totalVideos: number;
@@ -242,7 +227,8 @@ export function TrainingTab() {
             ...status,
             isProcessing: false,
             progress: result.success ? 100 : 0,
-            error: result.error
+            error: result.error,
+            recording: result.recording
           }));
 
           // Update processing stats
@@ -345,6 +331,11 @@ export function TrainingTab() {
     });
   };
 
+  const labeledVideos = Array.from(videoStatus.entries())
+    .filter(([, status]) => status.recording)
+    .map(([name]) => name);
+  const selectedExport = labeledVideos.includes(exportVideo) ? exportVideo : labeledVideos[0] ?? '';
+
   const chartData = {
     labels: metrics.map(m => `Epoch ${m.epoch + 1}`),
     datasets: [
@@ -537,6 +528,22 @@ export function TrainingTab() {
                   })}
                 </div>
               </div>
+
+              {/* Detections from processed videos can be exported as pre-labels */}
+              {labeledVideos.length > 0 && (
+                <div className="mt-3 flex items-center gap-2">
+                  <select
+                    value={selectedExport}
+                    onChange={(e) => setExportVideo(e.target.value)}
+                    className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-sm"
+                  >
+                    {labeledVideos.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                  <LabelExport getRecording={() => videoStatus.get(selectedExport)?.recording ?? null} />
+                </div>
+              )}
             </div>
           )}
 
@@ -691,32 +698,7 @@ export function TrainingTab() {
           <div className="h-[400px]">
             <Line
               data={chartData}
-              options={{
-                responsive: true,
-                maintainAspectRatio: false,
-                scales: {
-                  y: {
-                    beginAtZero: true,
-                    grid: {
-                      color: 'rgba(0, 0, 0, 0.1)'
-                    }
-                  },
-                  x: {
-                    grid: {
-                      display: false
-                    }
-                  }
-                },
-                plugins: {
-                  legend: {
-                    position: 'top' as const,
-                  },
-                  tooltip: {
-                    mode: 'index' as const,
-                    intersect: false,
-                  }
-                }
-              }}
+              options={lineChartOptions}
             />
           </div>
         ) : (
@@ -0,0 +1,61 @@
+import { ListVideo, Users } from 'lucide-react';
+import { formatDuration } from '../utils/dwell';
+import type { VideoTimeline } from '../utils/videoTimeline';
+
+interface VideoChaptersProps {
+  timeline: VideoTimeline;
+  currentTime: number; // ms, playback position of the uploaded video
+  onSeek: (time: number) => void;
+}
+
+export function VideoChapters({ timeline, currentTime, onSeek }: VideoChaptersProps) {
+  return (
+    <div className="bg-white dark:bg-gray-900 p-4 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-800 flex flex-col max-h-96">
+      <div className="flex items-center justify-between mb-3 flex-shrink-0">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ListVideo size={20} className="text-blue-600 dark:text-blue-500" />
+          Chapters
+          <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400">
+            {timeline.chapters.length}
+          </span>
+        </h3>
+        <span className="text-xs text-gray-500 font-mono">{formatDuration(timeline.duration)}</span>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto scrollbar-thin space-y-2">
+        <p className="text-sm leading-relaxed p-3 rounded-lg bg-gray-50 dark:bg-gray-800">{timeline.summary}</p>
+
+        {timeline.chapters.map(chapter => {
+          const isActive = currentTime >= chapter.start && currentTime < chapter.end;
+          return (
+            <button
+              key={chapter.id}
+              onClick={() => onSeek(chapter.start)}
+              className={`w-full flex gap-3 p-2 rounded-lg border text-left text-sm transition ${
+                isActive
+                  ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-500/30'
+                  : 'bg-gray-50 dark:bg-gray-800 border-transparent hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {chapter.thumbnail && (
+                <img src={chapter.thumbnail} alt="" className="w-20 h-12 object-cover rounded flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="flex items-center gap-2 text-xs font-mono text-blue-600 dark:text-blue-400">
+                  {formatDuration(chapter.start)} – {formatDuration(chapter.end)}
+                  {chapter.peopleCount > 0 && (
+                    <span className="flex items-center gap-1 text-gray-500">
+                      <Users size={12} />
+                      {chapter.peopleCount}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs leading-relaxed mt-1 line-clamp-3">{chapter.description}</p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { Download, Film, Loader2, Video } from 'lucide-react';
+import { exportAnnotatedVideo, VIDEO_EXPORT_LAYERS, type VideoExportLayer } from '../utils/videoExport';
+
+interface VideoExportProps {
+  videoFile: File;
+}
+
+interface ExportStatus {
+  isProcessing: boolean;
+  progress: number;
+  error?: string;
+}
+
+export function VideoExport({ videoFile }: VideoExportProps) {
+  const [layers, setLayers] = useState<VideoExportLayer[]>(['boxes', 'labels', 'alerts', 'blur-faces']);
+  const [status, setStatus] = useState<ExportStatus>({ isProcessing: false, progress: 0 });
+  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const fileName = `${videoFile.name.replace(/\.[^.]+$/, '')}-annotated.webm`;
+
+  useEffect(() => {
+    return () => {
+      if (downloadUrl) URL.revokeObjectURL(downloadUrl);
+    };
+  }, [downloadUrl]);
+
+  const toggleLayer = (id: VideoExportLayer) => {
+    setLayers(prev => prev.includes(id) ? prev.filter(layer => layer !== id) : [...prev, id]);
+  };
+
+  const startExport = async () => {
+    setDownloadUrl(null);
+    setStatus({ isProcessing: true, progress: 0 });
+    try {
+      const blob = await exportAnnotatedVideo(videoFile, layers, progress => {
+        setStatus({ isProcessing: true, progress });
+      });
+      const url = URL.createObjectURL(blob);
+      setDownloadUrl(url);
+      setStatus({ isProcessing: false, progress: 100 });
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+    } catch (err) {
+      console.error('Error exporting video:', err);
+      setStatus({
+        isProcessing: false,
+        progress: 0,
+        error: err instanceof Error ? err.message : 'Export failed'
+      });
+    }
+  };
+
+  const stateColor = status.error
+    ? 'text-red-500'
+    : status.isProcessing
+    ? 'text-blue-500'
+    : status.progress === 100
+    ? 'text-green-500'
+    : 'text-gray-500';
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {VIDEO_EXPORT_LAYERS.map(layer => (
+          <label key={layer.id} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={layers.includes(layer.id)}
+              onChange={() => toggleLayer(layer.id)}
+              disabled={status.isProcessing}
+              className="rounded border-gray-300 dark:border-gray-700"
+            />
+            {layer.label}
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={startExport}
+        disabled={status.isProcessing || layers.length === 0}
+        className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {status.isProcessing ? <Loader2 size={20} className="animate-spin" /> : <Film size={20} />}
+        Export Annotated Video
+      </button>
+
+      {(status.isProcessing || status.progress === 100 || status.error) && (
+        <div className={`p-2 rounded-lg ${
+          status.error
+            ? 'bg-red-50 dark:bg-red-900/20'
+            : status.isProcessing
+            ? 'bg-blue-50 dark:bg-blue-900/20'
+            : 'bg-green-50 dark:bg-green-900/20'
+        }`}>
+          <div className="flex items-center gap-2">
+            <Video className={`w-4 h-4 flex-shrink-0 ${stateColor}`} />
+            <div className="min-w-0 flex-1">
+              <span className="text-sm truncate block">{fileName}</span>
+              <div className="flex items-center gap-2 mt-1">
+                <div className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-full h-1">
+                  <div
+                    className={`h-1 rounded-full transition-all ${
+                      status.error
+                        ? 'bg-red-500'
+                        : status.progress === 100
+                        ? 'bg-green-500'
+                        : 'bg-blue-500'
+                    }`}
+                    style={{ width: `${status.progress || 0}%` }}
+                  />
+                </div>
+                <span className={`text-xs flex items-center gap-1 ${stateColor}`}>
+                  {status.isProcessing && (
+                    <Loader2 size={10} className="animate-spin" />
+                  )}
+                  {status.error
+                    ? 'Error'
+                    : status.isProcessing
+                    ? `${Math.round(status.progress)}%`
+                    : 'Done'}
+                </span>
+              </div>
+            </div>
+            {downloadUrl && (
+              <a
+                href={downloadUrl}
+                download={fileName}
+                className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-full flex-shrink-0"
+                title="Download again"
+              >
+                <Download size={14} />
+              </a>
+            )}
+          </div>
+          {status.error && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{status.error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+import { computeOverlayView, renderOverlay, type OverlayFit, type OverlayLayer } from '../utils/overlay';
+
+interface VideoOverlayProps {
+  videoWidth: number;
+  videoHeight: number;
+  layers: OverlayLayer[];
+  fit?: OverlayFit;
+  mirrored?: boolean;
+}
+
+// Canvas laid over a video element; layers draw in source-video pixels and are mapped onto
+// the area the video actually occupies, so the fit has to match the video's object-fit
+export function VideoOverlay({ videoWidth, videoHeight, layers, fit = 'contain', mirrored = false }: VideoOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [pixelRatio, setPixelRatio] = useState(() => window.devicePixelRatio || 1);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  // Moving the window to a screen with a different density changes the ratio without a resize
+  useEffect(() => {
+    const query = window.matchMedia(`(resolution: ${pixelRatio}dppx)`);
+    const update = () => setPixelRatio(window.devicePixelRatio || 1);
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, [pixelRatio]);
+
+  useEffect(() => {
+    if (!canvasRef.current || !size.width || !size.height) return;
+    const view = computeOverlayView(size.width, size.height, videoWidth, videoHeight, fit, mirrored);
+    renderOverlay(canvasRef.current, view, layers, pixelRatio);
+  }, [size, pixelRatio, videoWidth, videoHeight, fit, mirrored, layers]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    />
+  );
+}
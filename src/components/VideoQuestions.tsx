@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { HelpCircle, Loader2, Send } from 'lucide-react';
+import { formatDuration } from '../utils/dwell';
+import {
+  askVideoQuestion,
+  loadQuestionProvider,
+  saveQuestionProvider,
+  QUESTION_PROVIDERS,
+  type QuestionProvider,
+  type VideoAnswer
+} from '../utils/videoQuestions';
+
+interface VideoQuestionsProps {
+  videoFile: File;
+  onSeek: (time: number) => void;
+  onAnswer?: (answer: VideoAnswer) => void;
+}
+
+export function VideoQuestions({ videoFile, onSeek, onAnswer }: VideoQuestionsProps) {
+  const [question, setQuestion] = useState('');
+  const [provider, setProvider] = useState<QuestionProvider>(loadQuestionProvider);
+  const [answers, setAnswers] = useState<VideoAnswer[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const changeProvider = (next: QuestionProvider) => {
+    setProvider(next);
+    saveQuestionProvider(next);
+  };
+
+  const handleQuestionSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const asked = question.trim();
+    if (!asked || progress !== null) return;
+
+    setError('');
+    setProgress(0);
+    try {
+      const answer = await askVideoQuestion(videoFile, asked, provider, setProgress);
+      setAnswers(prev => [answer, ...prev]);
+      setQuestion('');
+      onAnswer?.(answer);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error answering the question. Please try again.');
+      console.error(err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <form onSubmit={handleQuestionSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask about this video, e.g. when does the person leave?"
+          className="flex-1 min-w-0 px-4 py-3 border border-gray-300 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm"
+        />
+        <select
+          value={provider}
+          onChange={(e) => changeProvider(e.target.value as QuestionProvider)}
+          className="px-3 py-3 border border-gray-300 dark:border-gray-700 rounded-xl bg-white dark:bg-gray-800 text-sm"
+          title="Answer provider"
+        >
+          {QUESTION_PROVIDERS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!question.trim() || progress !== null}
+          className="px-4 py-3 bg-blue-600 hover:bg-blue-700 dark:bg-blue-500 dark:hover:bg-blue-600 text-white rounded-xl transition disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Ask"
+        >
+          {progress !== null ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} />}
+        </button>
+      </form>
+
+      {progress !== null && (
+        <p className="text-xs text-gray-500">
+          {progress < 100 ? `Sampling video... ${Math.round(progress)}%` : 'Waiting for the answer...'}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      {answers.length > 0 && (
+        <div className="max-h-64 overflow-y-auto scrollbar-thin space-y-2">
+          {answers.map(answer => (
+            <div key={answer.id} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800 text-sm space-y-2">
+              <p className="font-medium flex items-start gap-2">
+                <HelpCircle size={16} className="text-blue-600 dark:text-blue-500 flex-shrink-0 mt-0.5" />
+                {answer.question}
+              </p>
+              <p className="leading-relaxed whitespace-pre-wrap">{answer.answer}</p>
+              {answer.citations.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {answer.citations.map(time => (
+                    <button
+                      key={time}
+                      onClick={() => onSeek(time)}
+                      className="px-2 py-0.5 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 text-xs font-mono hover:bg-blue-200 dark:hover:bg-blue-900/50 transition"
+                    >
+                      {formatDuration(time)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useRef, useState } from 'react';
+import { Check, Hexagon, Minus, Trash2, X } from 'lucide-react';
+import { ZONE_COLORS, type CrossingDirection, type Point, type Zone } from '../utils/zones';
+import type { OverlayFit } from '../utils/overlay';
+
+interface ZoneEditorProps {
+  zones: Zone[];
+  onChange: (zones: Zone[]) => void;
+  videoWidth: number;
+  videoHeight: number;
+  isEditing: boolean;
+  activeZoneIds?: string[];
+  fit?: OverlayFit;
+  mirrored?: boolean;
+}
+
+// SVG equivalent of each object-fit, so the viewBox lines up with the video the same way
+const ASPECT_RATIO: Record<OverlayFit, string> = {
+  contain: 'xMidYMid meet',
+  cover: 'xMidYMid slice',
+  fill: 'none'
+};
+
+type Tool = 'polygon' | 'line';
+
+export function ZoneEditor({
+  zones,
+  onChange,
+  videoWidth,
+  videoHeight,
+  isEditing,
+  activeZoneIds = [],
+  fit = 'contain',
+  mirrored = false
+}: ZoneEditorProps) {
+  const [tool, setTool] = useState<Tool>('polygon');
+  const [draft, setDraft] = useState<Point[]>([]);
+  const [draftName, setDraftName] = useState('');
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  if (!videoWidth || !videoHeight) return null;
+
+  // Zones are stored in source pixels; a mirrored video only flips how they are shown
+  const viewX = (x: number) => mirrored ? videoWidth - x : x;
+
+  // Map a pointer position back to source-video pixels through the SVG viewBox
+  const toVideoPoint = (clientX: number, clientY: number): Point | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+
+    const point = svg.createSVGPoint();
+    point.x = clientX;
+    point.y = clientY;
+    const { x, y } = point.matrixTransform(matrix.inverse());
+    return {
+      x: Math.min(videoWidth, Math.max(0, viewX(x))),
+      y: Math.min(videoHeight, Math.max(0, y))
+    };
+  };
+
+  const commitDraft = (points: Point[]) => {
+    const minPoints = tool === 'polygon' ? 3 : 2;
+    if (points.length < minPoints) return;
+
+    const zone: Zone = {
+      id: `zone_${Date.now()}`,
+      name: draftName.trim() || `${tool === 'polygon' ? 'Zone' : 'Line'} ${zones.length + 1}`,
+      kind: tool,
+      points,
+      direction: tool === 'line' ? 'both' : undefined,
+      color: ZONE_COLORS[zones.length % ZONE_COLORS.length]
+    };
+    onChange([...zones, zone]);
+    setDraft([]);
+    setDraftName('');
+  };
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    // The second click of a double-click finishes the polygon instead of adding a corner
+    if (!isEditing || e.detail > 1) return;
+    const point = toVideoPoint(e.clientX, e.clientY);
+    if (!point) return;
+
+    const next = [...draft, point];
+    if (tool === 'line' && next.length === 2) {
+      commitDraft(next);
+    } else {
+      setDraft(next);
+    }
+  };
+
+  const updateZone = (id: string, changes: Partial<Zone>) => {
+    onChange(zones.map(zone => zone.id === id ? { ...zone, ...changes } : zone));
+  };
+
+  const toPath = (points: Point[]) => points.map(p => `${viewX(p.x)},${p.y}`).join(' ');
+  const strokeWidth = Math.max(videoWidth, videoHeight) / 300;
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${videoWidth} ${videoHeight}`}
+        preserveAspectRatio={ASPECT_RATIO[fit]}
+        className={`absolute inset-0 w-full h-full ${isEditing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+        onClick={handleClick}
+        onDoubleClick={() => tool === 'polygon' && commitDraft(draft)}
+        onMouseMove={(e) => isEditing && setCursor(toVideoPoint(e.clientX, e.clientY))}
+        onMouseLeave={() => setCursor(null)}
+      >
+        {zones.map(zone => {
+          const color = zone.color || ZONE_COLORS[0];
+          const isActive = activeZoneIds.includes(zone.id);
+          const labelPoint = zone.points[0];
+
+          return (
+            <g key={zone.id}>
+              {zone.kind === 'polygon' ? (
+                <polygon
+                  points={toPath(zone.points)}
+                  fill={color}
+                  fillOpacity={isActive ? 0.35 : 0.15}
+                  stroke={color}
+                  strokeWidth={strokeWidth}
+                />
+              ) : (
+                <polyline
+                  points={toPath(zone.points)}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={strokeWidth * 1.5}
+                  strokeDasharray={zone.direction === 'both' ? undefined : `${strokeWidth * 4} ${strokeWidth * 2}`}
+                />
+              )}
+              {labelPoint && (
+                <text
+                  x={viewX(labelPoint.x) + strokeWidth * 2}
+                  y={labelPoint.y - strokeWidth * 2}
+                  fill={color}
+                  fontSize={strokeWidth * 8}
+                  fontWeight="bold"
+                >
+                  {zone.name}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {isEditing && draft.length > 0 && (
+          <polyline
+            points={toPath(cursor ? [...draft, cursor] : draft)}
+            fill="none"
+            stroke="white"
+            strokeWidth={strokeWidth}
+            strokeDasharray={`${strokeWidth * 3} ${strokeWidth * 2}`}
+          />
+        )}
+        {isEditing && draft.map((point, index) => (
+          <circle key={index} cx={viewX(point.x)} cy={point.y} r={strokeWidth * 2} fill="white" />
+        ))}
+      </svg>
+
+      {isEditing && (
+        <div className="absolute top-4 left-4 w-64 bg-gray-900/80 backdrop-blur-sm rounded-lg p-3 text-white text-sm space-y-3">
+          <div className="flex gap-2">
+            <button
+              onClick={() => { setTool('polygon'); setDraft([]); }}
+              className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg transition ${
+                tool === 'polygon' ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700'
+              }`}
+            >
+              <Hexagon size={14} />
+              Zone
+            </button>
+            <button
+              onClick={() => { setTool('line'); setDraft([]); }}
+              className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg transition ${
+                tool === 'line' ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700'
+              }`}
+            >
+              <Minus size={14} />
+              Tripwire
+            </button>
+          </div>
+          <input
+            type="text"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            placeholder="Name (optional)"
+            className="w-full px-2 py-1.5 rounded-lg bg-gray-800 border border-gray-700"
+          />
+          <p className="text-xs text-gray-300">
+            {tool === 'polygon'
+              ? 'Click to add corners, double-click or press finish to close.'
+              : 'Click the two ends of the line.'}
+          </p>
+          {draft.length > 0 && (
+            <div className="flex gap-2">
+              {tool === 'polygon' && (
+                <button
+                  onClick={() => commitDraft(draft)}
+                  disabled={draft.length < 3}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg bg-green-600 hover:bg-green-700 transition disabled:opacity-50"
+                >
+                  <Check size={14} />
+                  Finish
+                </button>
+              )}
+              <button
+                onClick={() => setDraft([])}
+                className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 transition"
+              >
+                <X size={14} />
+                Cancel
+              </button>
+            </div>
+          )}
+
+          {zones.length > 0 && (
+            <div className="max-h-40 overflow-y-auto scrollbar-thin space-y-1.5 pt-2 border-t border-gray-700">
+              {zones.map(zone => (
+                <div key={zone.id} className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: zone.color }} />
+                  <span className="flex-1 truncate">{zone.name}</span>
+                  {zone.kind === 'line' && (
+                    <select
+                      value={zone.direction || 'both'}
+                      onChange={(e) => updateZone(zone.id, { direction: e.target.value as CrossingDirection })}
+                      className="bg-gray-800 rounded px-1 py-0.5 text-xs"
+                      title="Crossing direction, relative to the line's first point"
+                    >
+                      <option value="both">Both</option>
+                      <option value="left-to-right">L → R</option>
+                      <option value="right-to-left">R → L</option>
+                    </select>
+                  )}
+                  <button
+                    onClick={() => onChange(zones.filter(z => z.id !== zone.id))}
+                    className="p-1 hover:bg-gray-700 rounded-full"
+                    title="Delete"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,353 @@
+import type { Track } from './tracker';
+import type { ZoneEvent, ZoneEventType } from './zones';
+import type { DwellRecord } from './dwell';
+import type { PoseFeatureKey, PoseFeatures } from './pose';
+
+export type AlertSeverity = 'info' | 'warning' | 'danger';
+
+export type RuleCondition =
+  | { type: 'speed'; above: number } // px/s of a tracked person
+  | { type: 'proximity'; below: number } // px between two people
+  | { type: 'count'; class: string; above?: number; below?: number }
+  | { type: 'classPresent'; class: string; minScore?: number }
+  | { type: 'inZone'; zoneId: string }
+  | { type: 'zoneEvent'; zoneId?: string; event: ZoneEventType }
+  | { type: 'loitering'; zoneId?: string } // past the dwell monitor's threshold; no zone means anywhere in frame
+  | { type: 'fall' } // confirmed by the fall detector and still down
+  | { type: 'pose'; feature: PoseFeatureKey; above: number } // keypoint-derived, per tracked person
+  | { type: 'motion'; above: number } // 0..1 share of a tracked box that changed since the last frame
+  | { type: 'score'; key: string; above: number };
+
+export type RuleConditionType = RuleCondition['type'];
+
+export type AlertRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+  conditions: RuleCondition[]; // all must hold
+  minDuration: number; // ms the conditions must hold before firing
+  cooldown: number; // ms before the same rule can fire again for the same subject
+};
+
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  message: string;
+  trackIds: number[];
+  timestamp: number;
+  source?: string;
+};
+
+export type RuleDetection = {
+  trackId?: number;
+  class: string;
+  bbox: number[];
+  score: number;
+};
+
+export type RuleContext = {
+  timestamp: number;
+  detections: RuleDetection[];
+  tracks: Track[];
+  zoneEvents: ZoneEvent[];
+  zoneOccupants: Record<string, number[]>;
+  dwell: DwellRecord[];
+  fallen: number[];
+  poseFeatures: Record<number, PoseFeatures>;
+  motion: Record<number, number>;
+  scores: Record<string, number>;
+};
+
+// Track-level conditions return the matching track ids, frame-level ones a boolean
+type ConditionResult = Set<number> | boolean;
+type ConditionEvaluator<T extends RuleCondition = RuleCondition> = (condition: T, context: RuleContext) => ConditionResult;
+
+const STORAGE_KEY = 'vision-lang-alert-rules';
+const FRAME_SUBJECT = 'frame';
+
+function center(bbox: number[]) {
+  return { x: bbox[0] + bbox[2] / 2, y: bbox[1] + bbox[3] / 2 };
+}
+
+function personTracks(context: RuleContext) {
+  const ids = new Set(
+    context.detections
+      .filter(d => d.class === 'person' && d.trackId !== undefined)
+      .map(d => d.trackId!)
+  );
+  return context.tracks.filter(track => ids.has(track.id));
+}
+
+const evaluators: { [K in RuleConditionType]: ConditionEvaluator<Extract<RuleCondition, { type: K }>> } = {
+  speed: (condition, context) => new Set(
+    personTracks(context)
+      // A velocity estimate needs at least two observations of the same person
+      .filter(track => track.history.length >= 2)
+      .filter(track => Math.hypot(track.velocity.vx, track.velocity.vy) > condition.above)
+      .map(track => track.id)
+  ),
+
+  proximity: (condition, context) => {
+    const people = context.detections.filter(d => d.class === 'person' && d.trackId !== undefined);
+    const matches = new Set<number>();
+    for (let i = 0; i < people.length; i++) {
+      for (let j = i + 1; j < people.length; j++) {
+        const a = center(people[i].bbox);
+        const b = center(people[j].bbox);
+        if (Math.hypot(a.x - b.x, a.y - b.y) < condition.below) {
+          matches.add(people[i].trackId!);
+          matches.add(people[j].trackId!);
+        }
+      }
+    }
+    return matches;
+  },
+
+  count: (condition, context) => {
+    const count = context.detections.filter(d => d.class === condition.class).length;
+    return (condition.above === undefined || count > condition.above) &&
+      (condition.below === undefined || count < condition.below);
+  },
+
+  classPresent: (condition, context) => new Set(
+    context.detections
+      .filter(d => d.class === condition.class && d.score >= (condition.minScore ?? 0) && d.trackId !== undefined)
+      .map(d => d.trackId!)
+  ),
+
+  inZone: (condition, context) => new Set(context.zoneOccupants[condition.zoneId] || []),
+
+  zoneEvent: (condition, context) => new Set(
+    context.zoneEvents
+      .filter(e => e.type === condition.event && (!condition.zoneId || e.zoneId === condition.zoneId))
+      .map(e => e.trackId)
+  ),
+
+  loitering: (condition, context) => new Set(
+    context.dwell
+      .filter(record => record.lingering && record.scope === (condition.zoneId || 'frame'))
+      .map(record => record.trackId)
+  ),
+
+  fall: (_condition, context) => new Set(context.fallen),
+
+  pose: (condition, context) => new Set(
+    Object.entries(context.poseFeatures)
+      .filter(([, features]) => (features[condition.feature] ?? 0) > condition.above)
+      .map(([trackId]) => Number(trackId))
+  ),
+
+  motion: (condition, context) => new Set(
+    Object.entries(context.motion)
+      .filter(([, intensity]) => intensity > condition.above)
+      .map(([trackId]) => Number(trackId))
+  ),
+
+  score: (condition, context) => (context.scores[condition.key] ?? 0) > condition.above
+};
+
+export function describeCondition(condition: RuleCondition): string {
+  switch (condition.type) {
+    case 'speed':
+      return `person moving faster than ${condition.above} px/s`;
+    case 'proximity':
+      return `people closer than ${condition.below} px`;
+    case 'count':
+      return [
+        `${condition.class} count`,
+        condition.above !== undefined ? `above ${condition.above}` : '',
+        condition.below !== undefined ? `below ${condition.below}` : ''
+      ].filter(Boolean).join(' ');
+    case 'classPresent':
+      return `${condition.class} present`;
+    case 'inZone':
+      return `person inside zone`;
+    case 'zoneEvent':
+      return `zone ${condition.event}`;
+    case 'loitering':
+      return condition.zoneId ? 'person lingering in zone' : 'person lingering in frame';
+    case 'fall':
+      return 'person fallen and still down';
+    case 'pose':
+      return `${condition.feature.replace(/_/g, ' ')} above ${condition.above}`;
+    case 'motion':
+      return `motion intensity above ${condition.above}`;
+    case 'score':
+      return `${condition.key} score above ${condition.above}`;
+  }
+}
+
+export const DEFAULT_RULES: AlertRule[] = [
+  {
+    id: 'rule_sudden_movement',
+    name: 'Sudden aggressive movement',
+    enabled: true,
+    severity: 'danger',
+    conditions: [{ type: 'speed', above: 100 }],
+    minDuration: 0,
+    cooldown: 5000
+  },
+  {
+    id: 'rule_close_proximity',
+    name: 'Close proximity conflict',
+    enabled: true,
+    severity: 'warning',
+    conditions: [{ type: 'proximity', below: 150 }],
+    minDuration: 0,
+    cooldown: 10000
+  },
+  {
+    id: 'rule_loitering',
+    name: 'Loitering',
+    enabled: true,
+    severity: 'warning',
+    conditions: [{ type: 'loitering', zoneId: '' }],
+    minDuration: 0,
+    cooldown: 60000
+  },
+  {
+    id: 'rule_fall',
+    name: 'Person fallen',
+    enabled: true,
+    severity: 'danger',
+    conditions: [{ type: 'fall' }],
+    minDuration: 0,
+    cooldown: 30000
+  }
+];
+
+export function loadRules(): AlertRule[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) as AlertRule[] : DEFAULT_RULES;
+  } catch (error) {
+    console.warn('Failed to load alert rules:', error);
+    return DEFAULT_RULES;
+  }
+}
+
+export function saveRules(rules: AlertRule[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (error) {
+    console.warn('Failed to save alert rules:', error);
+  }
+}
+
+function evaluateCondition(condition: RuleCondition, context: RuleContext): ConditionResult {
+  const evaluator = evaluators[condition.type] as ConditionEvaluator;
+  return evaluator ? evaluator(condition, context) : false;
+}
+
+// Returns the subjects (track ids, or the frame itself) for which every condition holds
+function matchRule(rule: AlertRule, context: RuleContext): string[] {
+  let trackMatches: Set<number> | null = null;
+
+  for (const condition of rule.conditions) {
+    const result = evaluateCondition(condition, context);
+    if (result === false) return [];
+    if (result === true) continue;
+
+    trackMatches = trackMatches
+      ? new Set(Array.from<number>(trackMatches).filter(id => result.has(id)))
+      : result;
+    if (trackMatches.size === 0) return [];
+  }
+
+  if (rule.conditions.length === 0) return [];
+  return trackMatches ? Array.from(trackMatches).map(String) : [FRAME_SUBJECT];
+}
+
+export function createRuleEngine(initialRules: AlertRule[] = DEFAULT_RULES) {
+  let rules = initialRules;
+  // `${ruleId}:${subject}` -> when the conditions started holding, and when it last fired
+  const active = new Map<string, { since: number; fired: boolean }>();
+  const lastFired = new Map<string, number>();
+  const listeners = new Set<(rules: AlertRule[]) => void>();
+  let eventCounter = 0;
+
+  return {
+    evaluate(context: RuleContext, source?: string): AlertEvent[] {
+      const events: AlertEvent[] = [];
+      const stillActive = new Set<string>();
+
+      for (const rule of rules) {
+        if (!rule.enabled) continue;
+
+        for (const subject of matchRule(rule, context)) {
+          const key = `${rule.id}:${subject}`;
+          stillActive.add(key);
+
+          const state = active.get(key) ?? { since: context.timestamp, fired: false };
+          active.set(key, state);
+
+          // One event per continuous episode, then wait out the cooldown
+          if (state.fired || context.timestamp - state.since < rule.minDuration) continue;
+          if (context.timestamp - (lastFired.get(key) ?? -Infinity) < rule.cooldown) continue;
+
+          state.fired = true;
+          lastFired.set(key, context.timestamp);
+          const trackIds = subject === FRAME_SUBJECT ? [] : [Number(subject)];
+          events.push({
+            id: `${context.timestamp}-${eventCounter++}`,
+            ruleId: rule.id,
+            ruleName: rule.name,
+            severity: rule.severity,
+            message: trackIds.length > 0
+              ? `${rule.name} (person #${trackIds[0]})`
+              : rule.name,
+            trackIds,
+            timestamp: context.timestamp,
+            source
+          });
+        }
+      }
+
+      for (const key of active.keys()) {
+        if (!stillActive.has(key)) active.delete(key);
+      }
+
+      return events;
+    },
+
+    // Subjects whose current episode has fired, for as long as the conditions keep holding.
+    // Episodes still inside minDuration or suppressed by the cooldown are left out.
+    activeSubjects(): Array<{ rule: AlertRule; trackId?: number }> {
+      return Array.from(active.entries()).flatMap(([key, state]) => {
+        if (!state.fired) return [];
+        const [ruleId, subject] = key.split(':');
+        const rule = rules.find(r => r.id === ruleId);
+        if (!rule) return [];
+        return [{ rule, trackId: subject === FRAME_SUBJECT ? undefined : Number(subject) }];
+      });
+    },
+
+    setRules(nextRules: AlertRule[]) {
+      rules = nextRules;
+      active.clear();
+      listeners.forEach(listener => listener(nextRules));
+    },
+
+    // Called with the new rules after every setRules; returns the unsubscribe function
+    subscribe(listener: (rules: AlertRule[]) => void): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getRules(): AlertRule[] {
+      return rules;
+    },
+
+    reset() {
+      active.clear();
+      lastFired.clear();
+    }
+  };
+}
+
+export type RuleEngine = ReturnType<typeof createRuleEngine>;
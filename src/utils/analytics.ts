@@ -0,0 +1,169 @@
+import { getActiveDetector } from './detectors';
+import { seekVideo, withVideoFile } from './videoFile';
+
+export type OccupancySample = {
+  time: number; // ms; wall clock for live sources, video time for uploads
+  count: number;
+};
+
+export type OccupancySnapshot = {
+  series: OccupancySample[];
+  peak: number;
+  peakTime: number | null;
+  average: number;
+  heatmap: { cols: number; rows: number; cells: Float32Array; max: number };
+};
+
+const HEATMAP_COLS = 64;
+const HEATMAP_ROWS = 36;
+const KERNEL_RADIUS = 2; // cells
+const MAX_SERIES_SECONDS = 60 * 60;
+const OFFLINE_SAMPLE_RATE = 2; // frames per second
+
+export function createOccupancyAnalytics() {
+  const cells = new Float32Array(HEATMAP_COLS * HEATMAP_ROWS);
+  let cellMax = 0;
+  // Per-second buckets keep the highest person count seen within that second
+  let buckets = new Map<number, number>();
+  let peak = 0;
+  let peakTime: number | null = null;
+
+  const splat = (nx: number, ny: number) => {
+    const cx = Math.floor(nx * HEATMAP_COLS);
+    const cy = Math.floor(ny * HEATMAP_ROWS);
+    for (let dy = -KERNEL_RADIUS; dy <= KERNEL_RADIUS; dy++) {
+      for (let dx = -KERNEL_RADIUS; dx <= KERNEL_RADIUS; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= HEATMAP_COLS || y >= HEATMAP_ROWS) continue;
+
+        const weight = Math.max(0, 1 - Math.hypot(dx, dy) / (KERNEL_RADIUS + 1));
+        const index = y * HEATMAP_COLS + x;
+        cells[index] += weight;
+        cellMax = Math.max(cellMax, cells[index]);
+      }
+    }
+  };
+
+  return {
+    // Records one analyzed frame of person boxes (source-video pixels)
+    record(personBoxes: number[][], frameWidth: number, frameHeight: number, time: number = Date.now()) {
+      if (!frameWidth || !frameHeight) return;
+
+      const second = Math.floor(time / 1000);
+      const count = personBoxes.length;
+      buckets.set(second, Math.max(buckets.get(second) ?? 0, count));
+      if (buckets.size > MAX_SERIES_SECONDS) {
+        const oldest = Math.min(...buckets.keys());
+        buckets.delete(oldest);
+      }
+
+      if (count > peak) {
+        peak = count;
+        peakTime = time;
+      }
+
+      // People occupy the floor where they stand, so heat goes at the feet
+      for (const [x, y, width, height] of personBoxes) {
+        splat(
+          Math.min(0.999, Math.max(0, (x + width / 2) / frameWidth)),
+          Math.min(0.999, Math.max(0, (y + height) / frameHeight))
+        );
+      }
+    },
+
+    snapshot(): OccupancySnapshot {
+      const series = Array.from(buckets.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([second, count]) => ({ time: second * 1000, count }));
+      const average = series.length > 0
+        ? series.reduce((sum, sample) => sum + sample.count, 0) / series.length
+        : 0;
+
+      return {
+        series,
+        peak,
+        peakTime,
+        average,
+        heatmap: { cols: HEATMAP_COLS, rows: HEATMAP_ROWS, cells: cells.slice(), max: cellMax }
+      };
+    },
+
+    reset() {
+      cells.fill(0);
+      cellMax = 0;
+      buckets = new Map();
+      peak = 0;
+      peakTime = null;
+    }
+  };
+}
+
+export type OccupancyAnalytics = ReturnType<typeof createOccupancyAnalytics>;
+
+// Blue -> green -> yellow -> red ramp for a 0..1 intensity
+function heatColor(value: number): [number, number, number] {
+  const stops: Array<[number, number, number]> = [
+    [0, 0, 255], [0, 255, 255], [0, 255, 0], [255, 255, 0], [255, 0, 0]
+  ];
+  const scaled = Math.min(0.999, Math.max(0, value)) * (stops.length - 1);
+  const i = Math.floor(scaled);
+  const t = scaled - i;
+  const [a, b] = [stops[i], stops[i + 1]];
+  return [
+    Math.round(a[0] + (b[0] - a[0]) * t),
+    Math.round(a[1] + (b[1] - a[1]) * t),
+    Math.round(a[2] + (b[2] - a[2]) * t)
+  ];
+}
+
+// Renders one pixel per cell; the overlay scales it onto the video area with smoothing
+export function renderHeatmapGrid(
+  heatmap: OccupancySnapshot['heatmap'],
+  opacity = 0.6
+): HTMLCanvasElement | null {
+  const grid = document.createElement('canvas');
+  grid.width = heatmap.cols;
+  grid.height = heatmap.rows;
+  const gridCtx = grid.getContext('2d');
+  if (!gridCtx) return null;
+
+  const image = gridCtx.createImageData(heatmap.cols, heatmap.rows);
+  for (let i = 0; i < heatmap.cells.length; i++) {
+    const value = heatmap.max > 0 ? heatmap.cells[i] / heatmap.max : 0;
+    const [r, g, b] = heatColor(value);
+    image.data[i * 4] = r;
+    image.data[i * 4 + 1] = g;
+    image.data[i * 4 + 2] = b;
+    image.data[i * 4 + 3] = value > 0.02 ? Math.round(255 * opacity * Math.sqrt(value)) : 0;
+  }
+  gridCtx.putImageData(image, 0, 0);
+  return grid;
+}
+
+// Samples an uploaded file at a fixed rate and builds occupancy statistics against video time
+export async function analyzeVideoOccupancy(
+  videoFile: File,
+  onProgress: (progress: number) => void
+): Promise<OccupancySnapshot> {
+  return withVideoFile(videoFile, async videoElement => {
+    const detector = await getActiveDetector();
+    const analytics = createOccupancyAnalytics();
+    const frameCount = Math.max(1, Math.floor(videoElement.duration * OFFLINE_SAMPLE_RATE));
+
+    for (let i = 0; i < frameCount; i++) {
+      await seekVideo(videoElement, i / OFFLINE_SAMPLE_RATE);
+
+      const detections = await detector.detect(videoElement, { minScore: 0.4 });
+      analytics.record(
+        detections.filter(d => d.class === 'person').map(d => d.bbox),
+        videoElement.videoWidth,
+        videoElement.videoHeight,
+        (i / OFFLINE_SAMPLE_RATE) * 1000
+      );
+      onProgress(((i + 1) / frameCount) * 100);
+    }
+
+    return analytics.snapshot();
+  });
+}
@@ -0,0 +1,331 @@
+import { createZip, type ZipEntry } from './zip';
+
+export type ExportFormat = 'coco' | 'yolo' | 'voc' | 'mot';
+
+export type RecordedDetection = {
+  bbox: number[]; // [x, y, width, height] in pixels of the recorded frame
+  class: string;
+  score: number;
+  trackId?: number;
+};
+
+export type RecordedFrame = {
+  time: number; // ms into the video, or since recording started for live sources
+  detections: RecordedDetection[];
+};
+
+export type DetectionRecording = {
+  name: string;
+  width: number;
+  height: number;
+  frames: RecordedFrame[];
+  images: Array<Promise<Blob | null>>; // JPEG of each frame, same order as frames; null if it could not be captured
+};
+
+export const EXPORT_FORMATS: Array<{ id: ExportFormat; label: string }> = [
+  { id: 'coco', label: 'COCO JSON' },
+  { id: 'yolo', label: 'YOLO txt' },
+  { id: 'voc', label: 'Pascal VOC XML' },
+  { id: 'mot', label: 'MOTChallenge CSV' }
+];
+
+const ALL_FORMATS = EXPORT_FORMATS.map(format => format.id);
+const MAX_FRAMES = 2000; // oldest frames are dropped past this, since each one keeps a JPEG
+const JPEG_QUALITY = 0.9;
+
+export type RecorderLimits = {
+  minInterval?: number; // ms; thins out live sources that detect many times a second
+  maxFrames?: number; // only the newest frames are kept
+  maxWidth?: number; // frames are scaled down to this width, boxes with them
+};
+
+// Collects per-frame detections and the frames themselves while a video or camera is processed,
+// for export afterwards
+export function createDetectionRecorder(
+  name: string,
+  { minInterval = 0, maxFrames = MAX_FRAMES, maxWidth = Infinity }: RecorderLimits = {}
+) {
+  let width = 0;
+  let height = 0;
+  let frames: RecordedFrame[] = [];
+  let images: Array<Promise<Blob | null>> = [];
+  let canvas: HTMLCanvasElement | null = null;
+
+  // toBlob copies the canvas before encoding, so one canvas serves every frame
+  const captureImage = (frame: CanvasImageSource): Promise<Blob | null> => {
+    canvas = canvas ?? document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) return Promise.resolve(null);
+    try {
+      context.drawImage(frame, 0, 0, width, height);
+    } catch (error) {
+      console.warn('Failed to capture a labelled frame:', error);
+      return Promise.resolve(null);
+    }
+    const target = canvas;
+    return new Promise(resolve => target.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  };
+
+  return {
+    record(
+      time: number,
+      detections: RecordedDetection[],
+      size: { width: number; height: number },
+      frame?: CanvasImageSource
+    ) {
+      if (!size.width || !size.height) return;
+      const last = frames[frames.length - 1];
+      if (last && time - last.time < minInterval) return;
+      const scale = Math.min(1, maxWidth / size.width);
+      width = Math.round(size.width * scale);
+      height = Math.round(size.height * scale);
+      images.push(frame ? captureImage(frame) : Promise.resolve(null));
+      frames.push({
+        time,
+        detections: detections.map(({ bbox, class: className, score, trackId }) => ({
+          bbox: bbox.map(value => value * scale),
+          class: className,
+          score,
+          trackId
+        }))
+      });
+      if (frames.length > maxFrames) {
+        frames = frames.slice(-maxFrames);
+        images = images.slice(-maxFrames);
+      }
+    },
+
+    recording(): DetectionRecording {
+      return { name, width, height, frames: [...frames], images: [...images] };
+    },
+
+    frameCount(): number {
+      return frames.length;
+    },
+
+    reset() {
+      frames = [];
+      images = [];
+    }
+  };
+}
+
+export type DetectionRecorder = ReturnType<typeof createDetectionRecorder>;
+
+function frameName(index: number): string {
+  return `frame_${(index + 1).toString().padStart(6, '0')}`;
+}
+
+// Boxes can reach past the frame edge; every format expects them inside the image
+function clampBox(bbox: number[], width: number, height: number): number[] | null {
+  const left = Math.max(0, bbox[0]);
+  const top = Math.max(0, bbox[1]);
+  const right = Math.min(width, bbox[0] + bbox[2]);
+  const bottom = Math.min(height, bbox[1] + bbox[3]);
+  return right > left && bottom > top ? [left, top, right - left, bottom - top] : null;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function classList(recording: DetectionRecording): string[] {
+  return Array.from(new Set(recording.frames.flatMap(frame => frame.detections.map(d => d.class)))).sort();
+}
+
+function frameRate(recording: DetectionRecording): number {
+  const { frames } = recording;
+  if (frames.length < 2) return 1;
+  const span = frames[frames.length - 1].time - frames[0].time;
+  return span > 0 ? Math.max(1, Math.round(((frames.length - 1) * 1000) / span)) : 1;
+}
+
+function toCoco(recording: DetectionRecording, classes: string[]): ZipEntry[] {
+  let annotationId = 1;
+  const images = recording.frames.map((frame, index) => ({
+    id: index + 1,
+    file_name: `${frameName(index)}.jpg`,
+    width: recording.width,
+    height: recording.height,
+    time_ms: round(frame.time)
+  }));
+  const annotations = recording.frames.flatMap((frame, index) =>
+    frame.detections.flatMap(detection => {
+      const box = clampBox(detection.bbox, recording.width, recording.height);
+      if (!box) return [];
+      return [{
+        id: annotationId++,
+        image_id: index + 1,
+        category_id: classes.indexOf(detection.class) + 1,
+        bbox: box.map(value => round(value)),
+        area: round(box[2] * box[3]),
+        iscrowd: 0,
+        score: round(detection.score, 4),
+        ...(detection.trackId !== undefined ? { track_id: detection.trackId } : {})
+      }];
+    })
+  );
+
+  return [{
+    path: 'coco/annotations.json',
+    content: JSON.stringify({
+      info: { description: recording.name, date_created: new Date().toISOString() },
+      images,
+      annotations,
+      categories: classes.map((name, index) => ({ id: index + 1, name, supercategory: 'object' }))
+    }, null, 2)
+  }];
+}
+
+// YOLO tools find a label by swapping images/ for labels/ in the image path, so labels sit beside the shared images/
+function toYolo(recording: DetectionRecording, classes: string[]): ZipEntry[] {
+  const { width, height } = recording;
+  return [
+    { path: 'classes.txt', content: classes.join('\n') + '\n' },
+    // Frames with no detections still get an empty file, which YOLO reads as background
+    ...recording.frames.map((frame, index) => ({
+      path: `labels/${frameName(index)}.txt`,
+      content: frame.detections.flatMap(detection => {
+        const box = clampBox(detection.bbox, width, height);
+        if (!box) return [];
+        const [x, y, w, h] = box;
+        return [[
+          classes.indexOf(detection.class),
+          ((x + w / 2) / width).toFixed(6),
+          ((y + h / 2) / height).toFixed(6),
+          (w / width).toFixed(6),
+          (h / height).toFixed(6)
+        ].join(' ')];
+      }).join('\n')
+    }))
+  ];
+}
+
+function toVoc(recording: DetectionRecording): ZipEntry[] {
+  const { width, height } = recording;
+  return recording.frames.map((frame, index) => {
+    const objects = frame.detections.flatMap(detection => {
+      const box = clampBox(detection.bbox, width, height);
+      if (!box) return [];
+      // VOC pixel coordinates are 1-based and inclusive
+      const [x, y, w, h] = box;
+      return [`  <object>
+    <name>${escapeXml(detection.class)}</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <bndbox>
+      <xmin>${Math.round(x) + 1}</xmin>
+      <ymin>${Math.round(y) + 1}</ymin>
+      <xmax>${Math.round(x + w)}</xmax>
+      <ymax>${Math.round(y + h)}</ymax>
+    </bndbox>
+  </object>`];
+    });
+
+    return {
+      path: `voc/Annotations/${frameName(index)}.xml`,
+      content: `<annotation>
+  <folder>images</folder>
+  <filename>${frameName(index)}.jpg</filename>
+  <source><database>${escapeXml(recording.name)}</database></source>
+  <size>
+    <width>${width}</width>
+    <height>${height}</height>
+    <depth>3</depth>
+  </size>
+  <segmented>0</segmented>
+${objects.join('\n')}
+</annotation>
+`
+    };
+  });
+}
+
+// gt.txt holds tracked boxes with their IDs; det.txt holds every detection with id -1, as MOT detections do
+function toMot(recording: DetectionRecording): ZipEntry[] {
+  const { width, height } = recording;
+  const gt: string[] = [];
+  const det: string[] = [];
+
+  recording.frames.forEach((frame, index) => {
+    frame.detections.forEach(detection => {
+      const box = clampBox(detection.bbox, width, height);
+      if (!box) return;
+      // MOTChallenge pixel coordinates are 1-based, like VOC's
+      const coords = [box[0] + 1, box[1] + 1, box[2], box[3]].map(value => round(value)).join(',');
+      det.push(`${index + 1},-1,${coords},${round(detection.score, 4)},-1,-1,-1`);
+      if (detection.trackId !== undefined) {
+        gt.push(`${index + 1},${detection.trackId},${coords},1,-1,-1,-1`);
+      }
+    });
+  });
+
+  return [
+    {
+      path: 'mot/seqinfo.ini',
+      content: `[Sequence]
+name=${recording.name}
+imDir=../images
+frameRate=${frameRate(recording)}
+seqLength=${recording.frames.length}
+imWidth=${width}
+imHeight=${height}
+imExt=.jpg
+`
+    },
+    { path: 'mot/gt/gt.txt', content: gt.join('\n') + (gt.length ? '\n' : '') },
+    { path: 'mot/det/det.txt', content: det.join('\n') + (det.length ? '\n' : '') }
+  ];
+}
+
+// Frames are sampled rather than consecutive, so the index maps every frame file name to its video time
+function frameIndex(recording: DetectionRecording): ZipEntry {
+  return {
+    path: 'frames.csv',
+    content: ['frame,file_name,time_ms', ...recording.frames.map((frame, index) =>
+      `${index + 1},${frameName(index)}.jpg,${round(frame.time)}`
+    )].join('\n') + '\n'
+  };
+}
+
+// Every format points at the same images/frame_XXXXXX.jpg files, so the frames are stored once
+async function frameImages(recording: DetectionRecording): Promise<ZipEntry[]> {
+  const blobs = await Promise.all(recording.images);
+  const entries: ZipEntry[] = [];
+  for (const [index, blob] of blobs.entries()) {
+    if (!blob) continue;
+    entries.push({ path: `images/${frameName(index)}.jpg`, content: new Uint8Array(await blob.arrayBuffer()) });
+  }
+  return entries;
+}
+
+export async function exportDetections(recording: DetectionRecording, formats: ExportFormat[] = ALL_FORMATS): Promise<Blob> {
+  if (recording.frames.length === 0) {
+    throw new Error('No detections recorded yet. Process a video first.');
+  }
+
+  const classes = classList(recording);
+  const entries: ZipEntry[] = [frameIndex(recording), ...await frameImages(recording)];
+  if (formats.includes('coco')) entries.push(...toCoco(recording, classes));
+  if (formats.includes('yolo')) entries.push(...toYolo(recording, classes));
+  if (formats.includes('voc')) entries.push(...toVoc(recording));
+  if (formats.includes('mot')) entries.push(...toMot(recording));
+  return createZip(entries);
+}
+
+export async function downloadDetections(recording: DetectionRecording, formats: ExportFormat[] = ALL_FORMATS) {
+  const url = URL.createObjectURL(await exportDetections(recording, formats));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${recording.name.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '_') || 'detections'}-labels.zip`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,61 @@
+import type { NetworkStreamConfig } from './networkStream';
+
+// A tile in the camera grid: a physical camera, an IP camera stream, or an uploaded file looping as a virtual camera
+export type CameraSource =
+  | { id: string; kind: 'device'; label: string; deviceId: string }
+  | { id: string; kind: 'stream'; label: string; stream: NetworkStreamConfig }
+  | { id: string; kind: 'file'; label: string; file: File };
+
+async function videoInputs(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+}
+
+export async function listCameras(): Promise<CameraSource[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    throw new Error('This browser cannot list cameras.');
+  }
+
+  let devices = await videoInputs();
+  // Labels, and in some browsers ids, stay hidden until the page has camera permission
+  if (devices.some(device => !device.label || !device.deviceId)) {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+      stream.getTracks().forEach(track => track.stop());
+    } catch (error) {
+      console.error('Camera permission error:', error);
+      throw new Error('Camera access was denied. Allow it in the browser to see every camera.');
+    }
+    devices = await videoInputs();
+  }
+
+  return devices.map((device, index) => ({
+    id: `device-${device.deviceId}`,
+    kind: 'device',
+    label: device.label || `Camera ${index + 1}`,
+    deviceId: device.deviceId
+  }));
+}
+
+export function openCamera(deviceId: string): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({ video: { deviceId: { exact: deviceId } }, audio: false });
+}
+
+export function fileSource(file: File): CameraSource {
+  return {
+    id: `file-${file.name}-${file.size}-${file.lastModified}`,
+    kind: 'file',
+    label: file.name,
+    file
+  };
+}
+
+export function networkSource(stream: NetworkStreamConfig): CameraSource {
+  return { id: stream.id, kind: 'stream', label: stream.label, stream };
+}
+
+// Cameras plugged in or removed while the page is open
+export function onCamerasChanged(listener: () => void): () => void {
+  navigator.mediaDevices?.addEventListener('devicechange', listener);
+  return () => navigator.mediaDevices?.removeEventListener('devicechange', listener);
+}
@@ -0,0 +1,314 @@
+import { deleteBeyondNewest, listNewestFirst, STORES, withStore } from './db';
+import { createWebmEncoder, findWebmEncoding } from './webmEncoder';
+import type { AlertEvent } from './alertRules';
+import type { RecordedDetection, RecordedFrame } from './annotationExport';
+
+export type ClipCommentary = {
+  time: number; // ms into the clip
+  text: string;
+};
+
+export type ClipRecord = {
+  id: string;
+  createdAt: number; // Date.now() of the first alert
+  start: number; // Date.now() of the first buffered frame
+  end: number;
+  source?: string;
+  width: number;
+  height: number;
+  alerts: AlertEvent[];
+  detections: RecordedFrame[]; // times are ms into the clip
+  commentary: ClipCommentary[];
+  thumbnail: Blob;
+  video: Blob;
+  mimeType: string;
+};
+
+export type ClipSettings = {
+  enabled: boolean;
+  preSeconds: number;
+  postSeconds: number;
+};
+
+type BufferedFrame = {
+  time: number;
+  image: Blob;
+};
+
+type PendingClip = {
+  alerts: AlertEvent[];
+  triggeredAt: number;
+  endsAt: number;
+};
+
+const STORAGE_KEY = 'vision-lang-clip-settings';
+const DEFAULT_SETTINGS: ClipSettings = { enabled: true, preSeconds: 10, postSeconds: 5 };
+export const MAX_WINDOW_SECONDS = 30; // per side; the buffer holds JPEG frames in memory
+const MAX_CLIP_SECONDS = 90; // alerts joining a pending clip cannot extend it past this
+const MAX_STORED_CLIPS = 50; // oldest clips are dropped beyond this
+const BUFFER_FPS = 10;
+const BUFFER_WIDTH = 640; // frames are scaled down to this width before buffering
+const JPEG_QUALITY = 0.75;
+const VIDEO_BITRATE = 2_500_000;
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export function loadClipSettings(): ClipSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) as Partial<ClipSettings> } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.warn('Failed to load clip settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveClipSettings(settings: ClipSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save clip settings:', error);
+  }
+}
+
+// The library tab edits these while the camera's recorder keeps running, so they are module state
+let activeSettings = loadClipSettings();
+
+export function getClipSettings(): ClipSettings {
+  return activeSettings;
+}
+
+export function setClipSettings(settings: ClipSettings) {
+  activeSettings = settings;
+  saveClipSettings(settings);
+}
+
+export async function saveClip(clip: ClipRecord) {
+  await withStore(STORES.clips, 'readwrite', store => store.put(clip));
+  await deleteBeyondNewest(STORES.clips, MAX_STORED_CLIPS);
+}
+
+export function listClips(): Promise<ClipRecord[]> {
+  return listNewestFirst<ClipRecord>(STORES.clips);
+}
+
+export async function deleteClip(id: string) {
+  await withStore(STORES.clips, 'readwrite', store => store.delete(id));
+}
+
+// Encodes buffered JPEG frames with their capture times as timestamps, so a clip takes a
+// fraction of its length to encode and a hidden tab cannot stretch or drop frames
+async function encodeFrames(frames: BufferedFrame[], width: number, height: number): Promise<{ video: Blob; mimeType: string }> {
+  const encoding = await findWebmEncoding(width, height, VIDEO_BITRATE, BUFFER_FPS);
+  if (!encoding) return replayFrames(frames, width, height);
+
+  const encoder = createWebmEncoder(encoding);
+  const start = frames[0].time;
+  try {
+    for (let i = 0; i < frames.length; i++) {
+      const bitmap = await createImageBitmap(frames[i].image, { resizeWidth: width, resizeHeight: height });
+      const next = frames[i + 1];
+      try {
+        await encoder.addFrame(bitmap, frames[i].time - start, next ? next.time - frames[i].time : 1000 / BUFFER_FPS);
+      } finally {
+        bitmap.close();
+      }
+    }
+    return { video: await encoder.finish(), mimeType: 'video/webm' };
+  } finally {
+    encoder.close();
+  }
+}
+
+function wait(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Fallback without WebCodecs: replays the frames onto a canvas at their original spacing while
+// MediaRecorder captures it, so this takes as long as the clip itself
+async function replayFrames(frames: BufferedFrame[], width: number, height: number): Promise<{ video: Blob; mimeType: string }> {
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error('This browser cannot record WebM video.');
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { alpha: false });
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const stream = canvas.captureStream(BUFFER_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise(resolve => {
+    recorder.onstop = resolve;
+  });
+
+  try {
+    recorder.start(1000);
+    for (let i = 0; i < frames.length; i++) {
+      const bitmap = await createImageBitmap(frames[i].image);
+      ctx.drawImage(bitmap, 0, 0, width, height);
+      bitmap.close();
+      const next = frames[i + 1];
+      await wait(next ? next.time - frames[i].time : 1000 / BUFFER_FPS);
+    }
+  } finally {
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      await stopped;
+    }
+    stream.getTracks().forEach(track => track.stop());
+  }
+
+  return { video: new Blob(chunks, { type: 'video/webm' }), mimeType };
+}
+
+// Keeps the last few seconds of a live video in memory; an alert turns the buffer plus
+// the following seconds into a clip that is encoded and stored in IndexedDB
+export function createClipRecorder(
+  onSaved: (clip: ClipRecord) => void,
+  onError: (error: Error) => void = () => {}
+) {
+  let videoElement: HTMLVideoElement | null = null;
+  let source: string | undefined;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let isCapturing = false;
+  let frames: BufferedFrame[] = [];
+  let detections: Array<{ time: number; detections: RecordedDetection[] }> = [];
+  let commentary: Array<{ time: number; text: string }> = [];
+  let pending: PendingClip | null = null;
+  let size = { width: 0, height: 0 };
+  // Clips are encoded one at a time so two encodes never compete for the CPU
+  let encoding: Promise<void> = Promise.resolve();
+  let canvas: HTMLCanvasElement | null = null;
+
+  const prune = (now: number) => {
+    const oldest = pending
+      ? pending.triggeredAt - activeSettings.preSeconds * 1000
+      : now - activeSettings.preSeconds * 1000;
+    frames = frames.filter(frame => frame.time >= oldest);
+    detections = detections.filter(frame => frame.time >= oldest);
+    commentary = commentary.filter(entry => entry.time >= oldest);
+  };
+
+  const finish = () => {
+    if (!pending) return;
+    const clip = pending;
+    const clipFrames = frames.filter(frame => frame.time <= clip.endsAt);
+    const clipDetections = detections.filter(frame => frame.time <= clip.endsAt);
+    const clipCommentary = commentary.filter(entry => entry.time <= clip.endsAt);
+    const { width, height } = size;
+    pending = null;
+    prune(Date.now());
+    if (clipFrames.length === 0) return;
+
+    const start = clipFrames[0].time;
+    const end = clipFrames[clipFrames.length - 1].time;
+    const thumbnail = clipFrames.find(frame => frame.time >= clip.triggeredAt) ?? clipFrames[clipFrames.length - 1];
+
+    encoding = encoding.then(async () => {
+      try {
+        const { video, mimeType } = await encodeFrames(clipFrames, width, height);
+        const record: ClipRecord = {
+          id: `clip-${clip.triggeredAt}-${clip.alerts[0].id}`,
+          createdAt: clip.triggeredAt,
+          start,
+          end,
+          source,
+          width,
+          height,
+          alerts: clip.alerts,
+          detections: clipDetections.map(frame => ({ ...frame, time: Math.max(0, frame.time - start) })),
+          commentary: clipCommentary.map(entry => ({ ...entry, time: Math.max(0, entry.time - start) })),
+          thumbnail: thumbnail.image,
+          video,
+          mimeType
+        };
+        await saveClip(record);
+        onSaved(record);
+      } catch (error) {
+        console.error('Error saving clip:', error);
+        onError(new Error('Could not save the alert clip.'));
+      }
+    });
+  };
+
+  const capture = () => {
+    const now = Date.now();
+    if (pending && now >= pending.endsAt) finish();
+    if (!videoElement || isCapturing || videoElement.readyState < 2 || !videoElement.videoWidth) return;
+
+    const scale = Math.min(1, BUFFER_WIDTH / videoElement.videoWidth);
+    const width = Math.round(videoElement.videoWidth * scale);
+    const height = Math.round(videoElement.videoHeight * scale);
+    // A resolution change mid-clip would stretch the earlier frames, so the clip is cut there
+    if (pending && (width !== size.width || height !== size.height)) finish();
+    if (width !== size.width || height !== size.height) frames = [];
+    size = { width, height };
+    canvas ??= document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(videoElement, 0, 0, width, height);
+
+    isCapturing = true;
+    canvas.toBlob(blob => {
+      isCapturing = false;
+      if (!blob || !timer) return;
+      frames.push({ time: now, image: blob });
+      prune(Date.now());
+    }, 'image/jpeg', JPEG_QUALITY);
+  };
+
+  // Saves whatever a pending clip has so far, then drops the buffer
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+    finish();
+    videoElement = null;
+    frames = [];
+    detections = [];
+    commentary = [];
+  };
+
+  return {
+    start(video: HTMLVideoElement, sourceName?: string) {
+      stop();
+      videoElement = video;
+      source = sourceName;
+      timer = setInterval(capture, 1000 / BUFFER_FPS);
+    },
+
+    stop,
+
+    trigger(alerts: AlertEvent[]) {
+      if (!timer || !activeSettings.enabled || alerts.length === 0) return;
+      const now = Date.now();
+      const endsAt = now + activeSettings.postSeconds * 1000;
+
+      if (pending) {
+        // Alerts during the post window join the same clip and extend it, up to a limit
+        pending.alerts.push(...alerts);
+        pending.endsAt = Math.min(Math.max(pending.endsAt, endsAt), pending.triggeredAt + MAX_CLIP_SECONDS * 1000);
+      } else {
+        pending = { alerts: [...alerts], triggeredAt: now, endsAt };
+      }
+    },
+
+    recordDetections(items: RecordedDetection[], time: number = Date.now()) {
+      if (!timer) return;
+      detections.push({
+        time,
+        detections: items.map(({ bbox, class: className, score, trackId }) => ({ bbox: [...bbox], class: className, score, trackId }))
+      });
+    },
+
+    addCommentary(text: string, time: number = Date.now()) {
+      if (!timer) return;
+      commentary.push({ time, text });
+    }
+  };
+}
+
+export type ClipRecorder = ReturnType<typeof createClipRecorder>;
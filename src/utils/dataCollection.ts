@@ -1,11 +1,39 @@
 import * as tf from '@tensorflow/tfjs';
-import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import { getActiveDetector } from './detectors';
+import { createFrameClassifier, inferPoses } from './inferenceClient';
+import { createDetectionRecorder, type DetectionRecorder, type DetectionRecording } from './annotationExport';
+import { createTracker } from './tracker';
+import { createMotionAnalyzer, type MotionAnalyzer } from './motion';
+import { createPoseFeatureTracker, POSE_FEATURE_KEYS, type Pose, type PoseFeatureTracker } from './pose';
+import { featureVector } from './train';
 
 export interface TrainingExample {
   image: tf.Tensor3D;
   boxes: number[][];
   labels: string[];
   isViolent: boolean;
+  features?: Record<string, number>; // per-frame signals, e.g. motion_intensity, limb_velocity, arm_raise
+}
+
+// Per-frame classifier signals: motion over the whole frame, and for each pose feature the
+// highest value across everyone in it
+function frameFeatures(
+  videoElement: HTMLVideoElement,
+  motionAnalyzer: MotionAnalyzer,
+  poseFeatureTracker: PoseFeatureTracker,
+  people: Array<{ trackId: number; bbox: number[]; pose: Pose | null }>,
+  time: number
+): Record<string, number> {
+  const features: Record<string, number> = Object.fromEntries(POSE_FEATURE_KEYS.map(key => [key, 0]));
+  features.motion_intensity = motionAnalyzer.analyze(videoElement).global;
+  for (const { trackId, bbox, pose } of people) {
+    if (!pose) continue;
+    const poseFeatures = poseFeatureTracker.update(trackId, pose, bbox, time);
+    for (const key of POSE_FEATURE_KEYS) {
+      features[key] = Math.max(features[key], poseFeatures[key]);
+    }
+  }
+  return features;
 }
 
 // Add the missing dataCollector singleton
@@ -35,15 +63,17 @@ export async function processVideoForTraining(
   video: File,
   onProgress: (progress: number) => void,
   isViolent: boolean
-): Promise<{ success: boolean; error?: string; framesProcessed: number }> {
+): Promise<{ success: boolean; error?: string; framesProcessed: number; recording?: DetectionRecording }> {
   try {
     const videoElement = document.createElement('video');
     videoElement.src = URL.createObjectURL(video);
     await videoElement.play();
 
-    const cocoModel = await cocoSsd.load({
-      base: 'lite_mobilenet_v2'
-    });
+    const detector = await getActiveDetector();
+    const tracker = createTracker({ minHits: 1 });
+    const poseFeatureTracker = createPoseFeatureTracker();
+    const motionAnalyzer = createMotionAnalyzer();
+    const recorder = createDetectionRecorder(video.name);
 
     const frameCount = Math.floor(videoElement.duration * 5); // Process 5 frames per second
     let processedFrames = 0;
@@ -57,9 +87,23 @@ export async function processVideoForTraining(
       });
 
       // Get person detections
-      const detections = await cocoModel.detect(videoElement);
+      const detections = await detector.detect(videoElement);
       const personDetections = detections.filter(d => d.class === 'person');
 
+      const time = (i / 5) * 1000;
+      const trackIds = tracker.update(personDetections, time);
+      // Every class is kept for export; only people are tracked, so only they carry track IDs
+      recorder.record(time, detections.map(d => {
+        const personIndex = personDetections.indexOf(d);
+        return personIndex === -1 ? d : { ...d, trackId: trackIds[personIndex] };
+      }), { width: videoElement.videoWidth, height: videoElement.videoHeight }, videoElement);
+      const poses = await inferPoses(videoElement, personDetections.map(d => d.bbox));
+      const features = frameFeatures(videoElement, motionAnalyzer, poseFeatureTracker, personDetections.map((d, index) => ({
+        trackId: trackIds[index],
+        bbox: d.bbox,
+        pose: poses[index]
+      })), time);
+
       // Create training example
       const frameTensor = tf.tidy(() => {
         return tf.browser.fromPixels(videoElement)
@@ -72,7 +116,8 @@ export async function processVideoForTraining(
         image: frameTensor,
         boxes: personDetections.map(d => d.bbox),
         labels: personDetections.map(d => d.class),
-        isViolent
+        isViolent,
+        features
       });
 
       processedFrames++;
@@ -85,7 +130,8 @@ export async function processVideoForTraining(
 
     return {
       success: true,
-      framesProcessed: processedFrames
+      framesProcessed: processedFrames,
+      recording: recorder.recording()
     };
   } catch (error) {
     return {
@@ -107,12 +153,16 @@ export async function processVideoForPrediction(
       bbox: number[];
       label: string;
       score: number;
+      pose?: Pose;
     }>;
-  }) => void
+  }) => void,
+  recorder?: DetectionRecorder
 ): Promise<void> {
-  const cocoModel = await cocoSsd.load({
-    base: 'lite_mobilenet_v2'
-  });
+  const detector = await getActiveDetector();
+  const classifier = await createFrameClassifier(model);
+  const tracker = createTracker({ minHits: 1 });
+  const poseFeatureTracker = createPoseFeatureTracker();
+  const motionAnalyzer = createMotionAnalyzer();
 
   let isProcessing = true;
   let lastProcessTime = 0;
@@ -129,36 +179,35 @@ export async function processVideoForPrediction(
 
     try {
       // Get person detections
-      const detections = await cocoModel.detect(videoElement);
+      const detections = await detector.detect(videoElement);
       const personDetections = detections.filter(d => d.class === 'person');
-
-      // Process frame for violence detection
-      const frameTensor = tf.tidy(() => {
-        return tf.browser.fromPixels(videoElement)
-          .resizeBilinear([224, 224])
-          .toFloat()
-          .div(255)
-          .expandDims(0);
-      });
-
-      // Get violence prediction
-      const prediction = await model.predict(frameTensor) as tf.Tensor;
-      const confidence = prediction.dataSync()[0];
+      const poses = await inferPoses(videoElement, personDetections.map(d => d.bbox));
+      recorder?.record(videoElement.currentTime * 1000, detections, {
+        width: videoElement.videoWidth,
+        height: videoElement.videoHeight
+      }, videoElement);
+
+      // Get violence prediction, with the same per-frame signals the model was trained on
+      const time = videoElement.currentTime * 1000;
+      const trackIds = tracker.update(personDetections, time);
+      const features = frameFeatures(videoElement, motionAnalyzer, poseFeatureTracker, personDetections.map((d, index) => ({
+        trackId: trackIds[index],
+        bbox: d.bbox,
+        pose: poses[index]
+      })), time);
+      const confidence = await classifier.classify(videoElement, undefined, featureVector(features));
       const isViolent = confidence > 0.5;
 
-      // Clean up tensors
-      frameTensor.dispose();
-      prediction.dispose();
-
       // Send prediction results
       onPrediction({
         timestamp: now,
         isViolent,
         confidence,
-        detections: personDetections.map(d => ({
+        detections: personDetections.map((d, index) => ({
           bbox: d.bbox,
           label: d.class,
-          score: d.score
+          score: d.score,
+          pose: poses[index] ?? undefined
         }))
       });
 
@@ -176,5 +225,6 @@ export async function processVideoForPrediction(
   // Return cleanup function
   return () => {
     isProcessing = false;
+    classifier.dispose();
   };
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+const DB_NAME = 'vision-lang';
+const DB_VERSION = 2;
+
+export const STORES = {
+  clips: 'clips',
+  events: 'events'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Every store is keyed by id and indexed by creation time, so lists can be read newest first
+const STORE_INDEXES: Record<StoreName, string[]> = {
+  clips: ['createdAt'],
+  events: ['createdAt']
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise;
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser cannot store data locally.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const [name, indexes] of Object.entries(STORE_INDEXES)) {
+        if (db.objectStoreNames.contains(name)) continue;
+        const store = db.createObjectStore(name, { keyPath: 'id' });
+        indexes.forEach(index => store.createIndex(index, index));
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgrading the schema needs this connection out of the way
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('Local database upgrade is waiting for other tabs to close');
+  });
+
+  // A failed open is retried on the next call instead of being cached
+  databasePromise.catch(error => {
+    console.error('Failed to open local database:', error);
+    databasePromise = null;
+  });
+  return databasePromise;
+}
+
+// Runs one request in its own transaction and resolves once the transaction has committed
+export async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(name, mode);
+  const result = requestToPromise(run(transaction.objectStore(name)));
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+  // Awaited together, so a failed request rejects once instead of leaving its own rejection unhandled
+  const [value] = await Promise.all([result, done]);
+  return value;
+}
+
+// All records of a store, newest first
+export async function listNewestFirst<T>(name: StoreName): Promise<T[]> {
+  const records = await withStore(name, 'readonly', store => store.index('createdAt').getAll());
+  return (records as T[]).reverse();
+}
+
+// Walks the createdAt index newest first within a range, keeping matching records up to a limit
+export async function queryNewestFirst<T>(
+  name: StoreName,
+  range: IDBKeyRange | null,
+  match: (record: T) => boolean,
+  limit: number
+): Promise<T[]> {
+  const db = await openDatabase();
+  const request = db.transaction(name, 'readonly').objectStore(name).index('createdAt').openCursor(range, 'prev');
+  const results: T[] = [];
+
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || results.length >= limit) {
+        resolve(results);
+        return;
+      }
+      if (match(cursor.value as T)) results.push(cursor.value as T);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function deleteOlderThan(name: StoreName, time: number) {
+  const db = await openDatabase();
+  const transaction = db.transaction(name, 'readwrite');
+  const request = transaction.objectStore(name).index('createdAt').openCursor(IDBKeyRange.upperBound(time, true));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Deletes every record past the newest `keep`, walking index keys so no record is loaded
+export async function deleteBeyondNewest(name: StoreName, keep: number) {
+  const db = await openDatabase();
+  const transaction = db.transaction(name, 'readwrite');
+  const store = transaction.objectStore(name);
+  const request = store.index('createdAt').openKeyCursor(null, 'prev');
+  let skipped = false;
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if (!skipped && keep > 0) {
+      skipped = true;
+      cursor.advance(keep);
+      return;
+    }
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function clearStore(name: StoreName) {
+  await withStore(name, 'readwrite', store => store.clear());
+}
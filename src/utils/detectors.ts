@@ -0,0 +1,142 @@
+import { createWorkerDetector, isWorkerInferenceSupported } from './inferenceClient';
+import { createLocalDetector } from './localInference';
+
+export type DetectorId =
+  | 'coco-ssd/lite_mobilenet_v2'
+  | 'coco-ssd/mobilenet_v1'
+  | 'coco-ssd/mobilenet_v2'
+  | 'face-api/ssd_mobilenetv1'
+  | 'fake';
+
+export type DetectorInput = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+export type Detection = {
+  bbox: number[]; // [x, y, width, height] in source pixels
+  class: string;
+  score: number;
+};
+
+export type DetectOptions = {
+  minScore?: number;
+  maxResults?: number;
+  // Worker only: a newer frame on the same channel replaces one still waiting, so live loops never fall behind
+  channel?: string;
+};
+
+export interface Detector {
+  id: DetectorId;
+  label: string;
+  detect(input: DetectorInput, options?: DetectOptions): Promise<Detection[]>;
+  dispose(): void;
+}
+
+type DetectorDefinition = {
+  label: string;
+  description: string;
+};
+
+const DEFAULT_DETECTOR: DetectorId = 'coco-ssd/lite_mobilenet_v2';
+const STORAGE_KEY = 'vision-lang-detector';
+
+const definitions = new Map<DetectorId, DetectorDefinition>([
+  ['coco-ssd/lite_mobilenet_v2', {
+    label: 'COCO-SSD Lite MobileNet v2',
+    description: 'Fastest, lowest accuracy'
+  }],
+  ['coco-ssd/mobilenet_v1', {
+    label: 'COCO-SSD MobileNet v1',
+    description: 'Balanced speed and accuracy'
+  }],
+  ['coco-ssd/mobilenet_v2', {
+    label: 'COCO-SSD MobileNet v2',
+    description: 'Most accurate, slowest'
+  }],
+  ['face-api/ssd_mobilenetv1', {
+    label: 'Face-API SSD',
+    description: 'Detects faces only'
+  }],
+  ['fake', {
+    label: 'Fake detector',
+    description: 'Deterministic boxes for testing'
+  }]
+]);
+
+// Each detector is loaded at most once and shared by every tab
+const loaded = new Map<DetectorId, Promise<Detector>>();
+const listeners = new Set<(id: DetectorId) => void>();
+
+function readStoredDetector(): DetectorId {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY) as DetectorId | null;
+    return stored && definitions.has(stored) ? stored : DEFAULT_DETECTOR;
+  } catch {
+    return DEFAULT_DETECTOR;
+  }
+}
+
+let activeDetectorId: DetectorId = readStoredDetector();
+
+export function listDetectors() {
+  return Array.from(definitions.entries()).map(([id, definition]) => ({
+    id,
+    label: definition.label,
+    description: definition.description
+  }));
+}
+
+// Prefer the inference worker so detection stays off the UI thread; fall back to the page when it cannot start
+async function createDetector(id: DetectorId, label: string): Promise<Detector> {
+  if (!isWorkerInferenceSupported()) return createLocalDetector(id, label);
+
+  try {
+    return await createWorkerDetector(id, label);
+  } catch (error) {
+    console.warn(`Worker inference unavailable for ${id}, running on the main thread:`, error);
+    return createLocalDetector(id, label);
+  }
+}
+
+export function loadDetector(id: DetectorId): Promise<Detector> {
+  const definition = definitions.get(id);
+  if (!definition) {
+    return Promise.reject(new Error(`Unknown detector: ${id}`));
+  }
+
+  let detector = loaded.get(id);
+  if (!detector) {
+    detector = createDetector(id, definition.label).catch(error => {
+      loaded.delete(id);
+      console.error(`Failed to load detector ${id}:`, error);
+      throw new Error('Failed to initialize the AI model. Please check your internet connection and try again.');
+    });
+    loaded.set(id, detector);
+  }
+  return detector;
+}
+
+export function getActiveDetectorId(): DetectorId {
+  return activeDetectorId;
+}
+
+export function getActiveDetector(): Promise<Detector> {
+  return loadDetector(activeDetectorId);
+}
+
+export function setActiveDetector(id: DetectorId) {
+  if (!definitions.has(id) || id === activeDetectorId) return;
+
+  activeDetectorId = id;
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Selection still applies for this session
+  }
+  listeners.forEach(listener => listener(id));
+}
+
+export function onActiveDetectorChange(listener: (id: DetectorId) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,141 @@
+export type DwellScope = 'frame' | string; // 'frame' or a zone id
+
+export type DwellRecord = {
+  trackId: number;
+  scope: DwellScope;
+  since: number;
+  duration: number; // ms
+  lingering: boolean;
+  thumbnail?: string;
+};
+
+export type DwellTrack = {
+  id: number;
+  class: string;
+  bbox: number[];
+};
+
+const STORAGE_KEY = 'vision-lang-loiter-threshold';
+const DEFAULT_THRESHOLD = 60; // seconds
+// Keep dwell timers through short occlusions and dropped detections
+const ABSENCE_GRACE = 5000;
+const REASSOCIATE_DISTANCE = 1; // lost-box sizes between its centre and a new track's
+
+export function loadLoiterThreshold(): number {
+  try {
+    const stored = Number(localStorage.getItem(STORAGE_KEY));
+    return stored > 0 ? stored : DEFAULT_THRESHOLD;
+  } catch {
+    return DEFAULT_THRESHOLD;
+  }
+}
+
+export function saveLoiterThreshold(seconds: number) {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(seconds));
+  } catch (error) {
+    console.warn('Failed to save loitering threshold:', error);
+  }
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(hours > 0 ? 2 : 1, '0')}:${seconds.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+export function createDwellMonitor(thresholdSeconds: number = loadLoiterThreshold()) {
+  let threshold = thresholdSeconds * 1000;
+  // trackId -> scope -> when the track entered that scope
+  const entries = new Map<number, { lastSeen: number; bbox: number[]; scopes: Map<DwellScope, number>; thumbnail?: string }>();
+
+  // The tracker drops a track after its coast time, well inside the grace period, so someone
+  // reappearing after an occlusion gets a new id; the nearest lost entry is handed over to it
+  const takeOverLost = (track: DwellTrack, visibleIds: Set<number>) => {
+    const [x, y, width, height] = track.bbox;
+    let nearest: { id: number; distance: number } | null = null;
+    for (const [id, entry] of entries.entries()) {
+      if (visibleIds.has(id)) continue;
+      const [lx, ly, lw, lh] = entry.bbox;
+      const distance = Math.hypot(x + width / 2 - (lx + lw / 2), y + height / 2 - (ly + lh / 2));
+      if (distance <= REASSOCIATE_DISTANCE * Math.max(lw, lh) && (!nearest || distance < nearest.distance)) {
+        nearest = { id, distance };
+      }
+    }
+    if (!nearest) return undefined;
+    const entry = entries.get(nearest.id);
+    entries.delete(nearest.id);
+    return entry;
+  };
+
+  return {
+    // capture is called once per person, when they first cross the threshold
+    update(
+      tracks: DwellTrack[],
+      zoneOccupants: Record<string, number[]>,
+      timestamp: number = Date.now(),
+      capture?: (bbox: number[]) => string | null
+    ): DwellRecord[] {
+      const people = tracks.filter(track => track.class === 'person');
+      const visibleIds = new Set(people.map(track => track.id));
+      for (const track of people) {
+        const entry = entries.get(track.id)
+          ?? takeOverLost(track, visibleIds)
+          ?? { lastSeen: timestamp, bbox: track.bbox, scopes: new Map<DwellScope, number>() };
+        entry.lastSeen = timestamp;
+        entry.bbox = track.bbox;
+        if (!entry.scopes.has('frame')) entry.scopes.set('frame', timestamp);
+
+        const zoneIds = Object.keys(zoneOccupants).filter(zoneId => zoneOccupants[zoneId].includes(track.id));
+        for (const zoneId of zoneIds) {
+          if (!entry.scopes.has(zoneId)) entry.scopes.set(zoneId, timestamp);
+        }
+        for (const scope of Array.from(entry.scopes.keys())) {
+          if (scope !== 'frame' && !zoneIds.includes(scope)) entry.scopes.delete(scope);
+        }
+
+        const frameSince = entry.scopes.get('frame')!;
+        if (!entry.thumbnail && capture && timestamp - frameSince >= threshold) {
+          entry.thumbnail = capture(track.bbox) ?? undefined;
+        }
+        entries.set(track.id, entry);
+      }
+
+      for (const [trackId, entry] of entries.entries()) {
+        if (timestamp - entry.lastSeen > ABSENCE_GRACE) entries.delete(trackId);
+      }
+
+      return this.records(timestamp);
+    },
+
+    records(timestamp: number = Date.now()): DwellRecord[] {
+      return Array.from(entries.entries()).flatMap(([trackId, entry]) =>
+        Array.from(entry.scopes.entries()).map(([scope, since]) => ({
+          trackId,
+          scope,
+          since,
+          duration: timestamp - since,
+          lingering: timestamp - since >= threshold,
+          thumbnail: entry.thumbnail
+        }))
+      );
+    },
+
+    setThreshold(seconds: number) {
+      threshold = seconds * 1000;
+    },
+
+    getThreshold(): number {
+      return threshold / 1000;
+    },
+
+    reset() {
+      entries.clear();
+    }
+  };
+}
+
+export type DwellMonitor = ReturnType<typeof createDwellMonitor>;
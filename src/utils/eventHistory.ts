@@ -0,0 +1,168 @@
+import { clearStore, deleteOlderThan, queryNewestFirst, STORES, withStore } from './db';
+import type { AlertEvent, AlertSeverity } from './alertRules';
+
+export type HistoryEventType = 'commentary' | 'alert' | 'detections';
+
+export type HistoryEvent = {
+  id: string;
+  createdAt: number; // Date.now()
+  type: HistoryEventType;
+  text: string;
+  classes: string[]; // object classes in view, for filtering
+  source?: string;
+  severity?: AlertSeverity;
+  thumbnail?: Blob;
+};
+
+export type HistoryFilter = {
+  from?: number;
+  to?: number;
+  types?: HistoryEventType[];
+  className?: string;
+  search?: string;
+};
+
+export const HISTORY_EVENT_TYPES: Array<{ id: HistoryEventType; label: string }> = [
+  { id: 'commentary', label: 'Commentary' },
+  { id: 'alert', label: 'Alerts' },
+  { id: 'detections', label: 'Detections' }
+];
+
+const RETENTION_DAYS = 7;
+const PRUNE_INTERVAL = 60 * 60 * 1000; // ms between retention sweeps while logging
+const SUMMARY_MIN_INTERVAL = 5000; // ms; flickering detections would otherwise log every frame
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_QUALITY = 0.7;
+
+let eventCounter = 0;
+
+// "2 person, 1 dog", in the same form the video question context uses
+export function summarizeClasses(detections: Array<{ class: string }>): string {
+  const counts = new Map<string, number>();
+  detections.forEach(d => counts.set(d.class, (counts.get(d.class) ?? 0) + 1));
+  return Array.from(counts).map(([name, count]) => `${count} ${name}`).join(', ') || 'nothing detected';
+}
+
+function captureThumbnail(videoElement: HTMLVideoElement): Promise<Blob | null> {
+  if (videoElement.readyState < 2 || !videoElement.videoWidth) return Promise.resolve(null);
+  const scale = Math.min(1, THUMBNAIL_WIDTH / videoElement.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(videoElement.videoWidth * scale);
+  canvas.height = Math.round(videoElement.videoHeight * scale);
+  canvas.getContext('2d')?.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY));
+}
+
+function matchesFilter(event: HistoryEvent, filter: HistoryFilter, terms: string[]): boolean {
+  if (filter.types && !filter.types.includes(event.type)) return false;
+  if (filter.className && !event.classes.includes(filter.className)) return false;
+  const text = event.text.toLowerCase();
+  return terms.every(term => text.includes(term));
+}
+
+// Newest first; every search term has to appear in the event text
+export function queryEvents(filter: HistoryFilter, limit: number): Promise<HistoryEvent[]> {
+  const from = filter.from ?? 0;
+  const to = filter.to ?? Number.MAX_SAFE_INTEGER;
+  const terms = (filter.search ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  return queryNewestFirst<HistoryEvent>(
+    STORES.events,
+    IDBKeyRange.bound(from, to),
+    event => matchesFilter(event, filter, terms),
+    limit
+  );
+}
+
+export function clearHistory(): Promise<void> {
+  return clearStore(STORES.events);
+}
+
+async function pruneHistory() {
+  try {
+    await deleteOlderThan(STORES.events, Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  } catch (error) {
+    console.warn('Failed to prune event history:', error);
+  }
+}
+
+type SourceView = {
+  lastSummary: string;
+  lastSummaryAt: number;
+  classesInView: string[];
+};
+
+// Writes commentary, alerts and changes in what is detected to the event store as they happen.
+// Writes are fire-and-forget so a slow or full database never holds up analysis.
+// Each source keeps its own view, so one logger can serve a whole camera grid.
+export function createEventLogger() {
+  let lastPruneAt = 0;
+  const views = new Map<string, SourceView>();
+
+  const viewOf = (source?: string): SourceView => {
+    const key = source ?? '';
+    let view = views.get(key);
+    if (!view) {
+      view = { lastSummary: '', lastSummaryAt: 0, classesInView: [] };
+      views.set(key, view);
+    }
+    return view;
+  };
+
+  const record = async (
+    event: Omit<HistoryEvent, 'id' | 'createdAt' | 'thumbnail'>,
+    videoElement?: HTMLVideoElement | null
+  ) => {
+    const createdAt = Date.now();
+    try {
+      const thumbnail = videoElement ? await captureThumbnail(videoElement) : null;
+      const stored: HistoryEvent = {
+        ...event,
+        id: `${event.type}-${createdAt}-${eventCounter++}`,
+        createdAt,
+        ...(thumbnail ? { thumbnail } : {})
+      };
+      await withStore(STORES.events, 'readwrite', store => store.put(stored));
+    } catch (error) {
+      console.warn('Failed to record history event:', error);
+    }
+
+    if (createdAt - lastPruneAt > PRUNE_INTERVAL) {
+      lastPruneAt = createdAt;
+      pruneHistory();
+    }
+  };
+
+  return {
+    commentary(text: string, videoElement?: HTMLVideoElement | null, source?: string) {
+      record({ type: 'commentary', text, classes: viewOf(source).classesInView, source }, videoElement);
+    },
+
+    alerts(alerts: AlertEvent[], videoElement?: HTMLVideoElement | null) {
+      alerts.forEach(alert => record({
+        type: 'alert',
+        text: `${alert.ruleName}: ${alert.message}`,
+        classes: viewOf(alert.source).classesInView,
+        source: alert.source,
+        severity: alert.severity
+      }, videoElement));
+    },
+
+    // Logs only when the counts change, and not more often than SUMMARY_MIN_INTERVAL
+    detections(detections: Array<{ class: string }>, videoElement?: HTMLVideoElement | null, source?: string) {
+      const view = viewOf(source);
+      view.classesInView = Array.from(new Set(detections.map(d => d.class)));
+      const summary = summarizeClasses(detections);
+      const now = Date.now();
+      if (summary === view.lastSummary || now - view.lastSummaryAt < SUMMARY_MIN_INTERVAL) return;
+      view.lastSummary = summary;
+      view.lastSummaryAt = now;
+      record({ type: 'detections', text: summary, classes: view.classesInView, source }, videoElement);
+    },
+
+    reset() {
+      views.clear();
+    }
+  };
+}
+
+export type EventLogger = ReturnType<typeof createEventLogger>;
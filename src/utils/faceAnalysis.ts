@@ -0,0 +1,228 @@
+// face-api is loaded from the CDN script in index.html so it shares no tfjs instance with the bundle;
+// the inference worker installs its own copy under the same global name
+declare const faceapi: typeof import('@vladmandic/face-api');
+
+export const FACE_MODEL_PATH = 'https://cdn.jsdelivr.net/npm/@vladmandic/face-api/model';
+export const UNKNOWN_ATTRIBUTE = 'unknown';
+
+const MIN_FACE_SCORE = 0.4;
+const MIN_CROP_SIZE = 24;
+const CROP_TARGET_SIZE = 224; // Small crops are upscaled so the SSD can find the face
+const CROP_PADDING = 0.1;
+
+// Frames come from the page (video or canvas) or, inside the inference worker, from an OffscreenCanvas
+export type FaceInput = HTMLVideoElement | HTMLCanvasElement | OffscreenCanvas;
+
+// Plain-object copy of a face-api result so it can cross the worker boundary
+export type FrameFace = {
+  detection: {
+    box: { x: number; y: number; width: number; height: number };
+  };
+  landmarks: { positions: Array<{ x: number; y: number }> };
+  expressions: { [key: string]: number };
+  age: number;
+  gender: string;
+  genderProbability: number;
+};
+
+export type FaceAttributes = {
+  faceBox: number[]; // [x, y, width, height] in source-video coordinates
+  faceScore: number;
+  gender: string;
+  genderConfidence: number;
+  age: number;
+  ageRange: string;
+  expression: string;
+  expressionConfidence: number;
+};
+
+let faceModelsPromise: Promise<boolean> | null = null;
+
+export function loadFaceModels(): Promise<boolean> {
+  if (!faceModelsPromise) {
+    faceModelsPromise = (async () => {
+      if (typeof faceapi === 'undefined') {
+        throw new Error('Face API not loaded. Please check your internet connection.');
+      }
+
+      await Promise.all([
+        faceapi.nets.ssdMobilenetv1.loadFromUri(FACE_MODEL_PATH),
+        faceapi.nets.faceLandmark68Net.loadFromUri(FACE_MODEL_PATH),
+        faceapi.nets.faceExpressionNet.loadFromUri(FACE_MODEL_PATH),
+        faceapi.nets.ageGenderNet.loadFromUri(FACE_MODEL_PATH)
+      ]);
+      console.log('Face-API models loaded successfully');
+      return true;
+    })().catch(error => {
+      // Allow a later call to retry instead of caching the failure
+      faceModelsPromise = null;
+      throw error;
+    });
+  }
+  return faceModelsPromise;
+}
+
+export function toAgeRange(age: number): string {
+  const lower = Math.max(0, Math.floor(age / 10) * 10);
+  return `${lower}-${lower + 9}`;
+}
+
+function inputSize(input: FaceInput) {
+  // No instanceof here: HTMLVideoElement does not exist inside a worker
+  return 'videoWidth' in input
+    ? { width: input.videoWidth, height: input.videoHeight }
+    : { width: input.width, height: input.height };
+}
+
+function createCanvas(): HTMLCanvasElement | OffscreenCanvas {
+  return typeof document !== 'undefined' ? document.createElement('canvas') : new OffscreenCanvas(1, 1);
+}
+
+function cropRegion(bbox: number[], frameWidth: number, frameHeight: number) {
+  const [x, y, width, height] = bbox;
+  const padX = width * CROP_PADDING;
+  const padY = height * CROP_PADDING;
+  const left = Math.max(0, x - padX);
+  const top = Math.max(0, y - padY);
+  const right = Math.min(frameWidth, x + width + padX);
+  const bottom = Math.min(frameHeight, y + height + padY);
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// Faces near the top-centre of a person box are the most plausible owners of that box
+function ownershipScore(faceBox: number[], personBox: number[]): number {
+  const [fx, fy, fw, fh] = faceBox;
+  const [px, py, pw, ph] = personBox;
+  const dx = (fx + fw / 2 - (px + pw / 2)) / pw;
+  const dy = (fy + fh / 2 - (py + ph * 0.15)) / ph;
+  return Math.hypot(dx, dy);
+}
+
+// Runs the face pipeline on each person crop and returns one result per box (null when no face is visible)
+export async function analyzePersonFaces(
+  input: FaceInput,
+  personBoxes: number[][]
+): Promise<Array<FaceAttributes | null>> {
+  if (personBoxes.length === 0) return [];
+
+  try {
+    await loadFaceModels();
+  } catch (error) {
+    console.warn('Face analysis unavailable:', error);
+    return personBoxes.map(() => null);
+  }
+
+  const { width: frameWidth, height: frameHeight } = inputSize(input);
+  const canvas = createCanvas();
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as
+    CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx || !frameWidth || !frameHeight) return personBoxes.map(() => null);
+
+  const candidates: Array<{ personIndex: number; ownership: number; attributes: FaceAttributes }> = [];
+
+  for (let personIndex = 0; personIndex < personBoxes.length; personIndex++) {
+    const region = cropRegion(personBoxes[personIndex], frameWidth, frameHeight);
+    if (region.width < MIN_CROP_SIZE || region.height < MIN_CROP_SIZE) continue;
+
+    const scale = Math.max(1, CROP_TARGET_SIZE / Math.min(region.width, region.height));
+    canvas.width = Math.round(region.width * scale);
+    canvas.height = Math.round(region.height * scale);
+    ctx.drawImage(
+      input,
+      region.left, region.top, region.width, region.height,
+      0, 0, canvas.width, canvas.height
+    );
+
+    try {
+      const faces = await faceapi
+        .detectAllFaces(canvas as HTMLCanvasElement, new faceapi.SsdMobilenetv1Options({ minConfidence: MIN_FACE_SCORE, maxResults: 3 }))
+        .withFaceLandmarks()
+        .withFaceExpressions()
+        .withAgeAndGender();
+
+      for (const face of faces) {
+        const { box, score } = face.detection;
+        const faceBox = [
+          region.left + box.x / scale,
+          region.top + box.y / scale,
+          box.width / scale,
+          box.height / scale
+        ];
+        const [topExpression] = face.expressions.asSortedArray();
+
+        candidates.push({
+          personIndex,
+          ownership: ownershipScore(faceBox, personBoxes[personIndex]),
+          attributes: {
+            faceBox,
+            faceScore: score,
+            gender: face.gender,
+            genderConfidence: face.genderProbability,
+            age: face.age,
+            ageRange: toAgeRange(face.age),
+            expression: topExpression?.expression ?? UNKNOWN_ATTRIBUTE,
+            expressionConfidence: topExpression?.probability ?? 0
+          }
+        });
+      }
+    } catch (error) {
+      console.warn('Face detection error:', error);
+    }
+  }
+
+  // Overlapping person crops can see the same face; each face goes to at most one person
+  candidates.sort((a, b) => a.ownership - b.ownership);
+  const results: Array<FaceAttributes | null> = personBoxes.map(() => null);
+  const claimedFaces: number[][] = [];
+
+  for (const { personIndex, attributes } of candidates) {
+    if (results[personIndex]) continue;
+    const alreadyClaimed = claimedFaces.some(claimed => overlap(claimed, attributes.faceBox) > 0.5);
+    if (alreadyClaimed) continue;
+
+    results[personIndex] = attributes;
+    claimedFaces.push(attributes.faceBox);
+  }
+
+  return results;
+}
+
+function overlap(a: number[], b: number[]): number {
+  const ix = Math.max(0, Math.min(a[0] + a[2], b[0] + b[2]) - Math.max(a[0], b[0]));
+  const iy = Math.max(0, Math.min(a[1] + a[3], b[1] + b[3]) - Math.max(a[1], b[1]));
+  const smaller = Math.min(a[2] * a[3], b[2] * b[3]);
+  return smaller > 0 ? (ix * iy) / smaller : 0;
+}
+
+// Whole-frame face pass with landmarks, for the face analysis view
+export async function detectFrameFaces(
+  input: FaceInput,
+  options: { minScore: number; maxResults: number }
+): Promise<FrameFace[]> {
+  await loadFaceModels();
+
+  const faces = await faceapi
+    .detectAllFaces(
+      input as HTMLCanvasElement,
+      new faceapi.SsdMobilenetv1Options({ minConfidence: options.minScore, maxResults: options.maxResults })
+    )
+    .withFaceLandmarks()
+    .withFaceExpressions()
+    .withAgeAndGender();
+
+  return faces.map(face => ({
+    detection: {
+      box: {
+        x: face.detection.box.x,
+        y: face.detection.box.y,
+        width: face.detection.box.width,
+        height: face.detection.box.height
+      }
+    },
+    landmarks: { positions: face.landmarks.positions.map(point => ({ x: point.x, y: point.y })) },
+    expressions: { ...face.expressions },
+    age: face.age,
+    gender: face.gender,
+    genderProbability: face.genderProbability
+  }));
+}
@@ -0,0 +1,173 @@
+import { getActiveDetector } from './detectors';
+import { inferPoses } from './inferenceClient';
+import { torsoAxis, type Pose } from './pose';
+import { createTracker } from './tracker';
+import { seekVideo, withVideoFile } from './videoFile';
+
+export type FallEvent = {
+  id: string;
+  trackId: number;
+  timestamp: number; // when the fall started; video time for uploads
+  confirmedAt: number;
+  dropVelocity: number; // standing heights per second
+};
+
+export type FallDetectorConfig = {
+  uprightRatio: number; // width/height below this counts as standing
+  lyingRatio: number; // width/height above this counts as lying down
+  uprightAngle: number; // degrees of torso lean below this count as standing, when a pose is available
+  lyingAngle: number; // degrees of torso lean above this count as lying down
+  fallWindow: number; // ms allowed between last upright sample and lying down
+  minDropVelocity: number; // standing heights per second the top of the box must fall
+  minDownTime: number; // ms the person must stay down before the fall is confirmed
+  forgetAfter: number; // ms without seeing a track before its state is dropped
+};
+
+export type FallTrack = {
+  id: number;
+  class: string;
+  bbox: number[];
+  pose?: Pose | null;
+};
+
+type FallState = {
+  phase: 'upright' | 'down';
+  lastUpright?: { time: number; top: number; height: number; torsoY?: number };
+  downSince?: number;
+  dropVelocity?: number;
+  confirmed: boolean;
+  lastSeen: number;
+};
+
+const DEFAULT_CONFIG: FallDetectorConfig = {
+  uprightRatio: 0.8,
+  lyingRatio: 1.1,
+  uprightAngle: 30,
+  lyingAngle: 60,
+  fallWindow: 1500,
+  minDropVelocity: 0.5,
+  minDownTime: 2000,
+  forgetAfter: 10000
+};
+
+const OFFLINE_SAMPLE_RATE = 8; // frames per second; falls last about a second
+
+export function createFallDetector(overrides: Partial<FallDetectorConfig> = {}) {
+  const config = { ...DEFAULT_CONFIG, ...overrides };
+  const states = new Map<number, FallState>();
+  let eventCounter = 0;
+  let lastUpdate = 0;
+
+  return {
+    update(tracks: FallTrack[], timestamp: number = Date.now()): FallEvent[] {
+      const events: FallEvent[] = [];
+      lastUpdate = timestamp;
+
+      for (const track of tracks) {
+        if (track.class !== 'person') continue;
+
+        const [, top, width, height] = track.bbox;
+        const ratio = width / Math.max(1, height);
+        // The skeleton's lean decides posture when the torso is visible; the box shape stands in otherwise
+        const torso = track.pose ? torsoAxis(track.pose) : null;
+        const isUpright = torso ? torso.angle < config.uprightAngle : ratio < config.uprightRatio;
+        const isLying = torso ? torso.angle > config.lyingAngle : ratio > config.lyingRatio;
+        const state = states.get(track.id) ?? { phase: 'upright', confirmed: false, lastSeen: timestamp };
+        state.lastSeen = timestamp;
+        states.set(track.id, state);
+
+        if (isUpright) {
+          // Getting back up clears the fall
+          state.phase = 'upright';
+          state.lastUpright = { time: timestamp, top, height, torsoY: torso?.center.y };
+          state.downSince = undefined;
+          state.confirmed = false;
+          continue;
+        }
+
+        if (state.phase === 'upright' && isLying && state.lastUpright) {
+          const elapsed = timestamp - state.lastUpright.time;
+          if (elapsed > 0 && elapsed <= config.fallWindow) {
+            // The torso drops with the body even when the box barely changes, e.g. falling toward the camera
+            const { lastUpright } = state;
+            const torsoDrop = torso && lastUpright.torsoY !== undefined ? torso.center.y - lastUpright.torsoY : -Infinity;
+            const drop = Math.max(top - lastUpright.top, torsoDrop);
+            const dropVelocity = (drop / lastUpright.height) / (elapsed / 1000);
+            if (dropVelocity >= config.minDropVelocity) {
+              state.phase = 'down';
+              state.downSince = state.lastUpright.time;
+              state.dropVelocity = dropVelocity;
+            }
+          }
+        }
+
+        if (state.phase === 'down' && !state.confirmed && state.downSince !== undefined &&
+            timestamp - state.downSince >= config.minDownTime) {
+          state.confirmed = true;
+          events.push({
+            id: `fall-${timestamp}-${eventCounter++}`,
+            trackId: track.id,
+            timestamp: state.downSince,
+            confirmedAt: timestamp,
+            dropVelocity: state.dropVelocity ?? 0
+          });
+        }
+      }
+
+      for (const [trackId, state] of states.entries()) {
+        if (timestamp - state.lastSeen > config.forgetAfter) states.delete(trackId);
+      }
+
+      return events;
+    },
+
+    // Tracks seen in the latest update with a confirmed fall who have not got back up
+    fallen(): number[] {
+      return Array.from(states.entries())
+        .filter(([, state]) => state.confirmed && state.lastSeen === lastUpdate)
+        .map(([trackId]) => trackId);
+    },
+
+    downTime(trackId: number, timestamp: number = Date.now()): number {
+      const state = states.get(trackId);
+      return state?.confirmed && state.downSince !== undefined ? timestamp - state.downSince : 0;
+    },
+
+    reset() {
+      states.clear();
+    }
+  };
+}
+
+export type FallDetector = ReturnType<typeof createFallDetector>;
+
+// Replays an uploaded clip through detection, tracking and the fall detector against video time
+export async function analyzeVideoFalls(
+  videoFile: File,
+  onProgress: (progress: number) => void
+): Promise<FallEvent[]> {
+  return withVideoFile(videoFile, async videoElement => {
+    const detector = await getActiveDetector();
+    const tracker = createTracker();
+    const fallDetector = createFallDetector();
+    const events: FallEvent[] = [];
+    const frameCount = Math.max(1, Math.floor(videoElement.duration * OFFLINE_SAMPLE_RATE));
+
+    for (let i = 0; i < frameCount; i++) {
+      await seekVideo(videoElement, i / OFFLINE_SAMPLE_RATE);
+
+      const time = (i / OFFLINE_SAMPLE_RATE) * 1000;
+      const detections = await detector.detect(videoElement, { minScore: 0.4 });
+      const trackIds = tracker.update(detections, time);
+      const people = detections.filter(d => d.class === 'person');
+      const poses = await inferPoses(videoElement, people.map(d => d.bbox));
+      events.push(...fallDetector.update(
+        detections.map((d, index) => ({ id: trackIds[index], class: d.class, bbox: d.bbox, pose: poses[people.indexOf(d)] })),
+        time
+      ));
+      onProgress(((i + 1) / frameCount) * 100);
+    }
+
+    return events;
+  });
+}
@@ -0,0 +1,154 @@
+import * as tf from '@tensorflow/tfjs';
+import * as faceapiModule from '@vladmandic/face-api';
+import { analyzePersonFaces, detectFrameFaces } from './faceAnalysis';
+import { classifyFrame, createLocalDetector } from './localInference';
+import { estimatePoses } from './pose';
+import type { Detector, DetectorId } from './detectors';
+import type { InferenceOutput, InferenceTask, WorkerRequest, WorkerResponse } from './inferenceProtocol';
+
+type InferRequest = Extract<WorkerRequest, { type: 'infer' }>;
+
+// face-api has no DOM here, so point its canvas factory at OffscreenCanvas and expose it under the
+// same global name the page's CDN copy uses; image and video inputs never reach the worker
+class Unavailable {}
+
+faceapiModule.env.setEnv({
+  ...faceapiModule.env.createFileSystem(),
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+  Image: Unavailable as unknown as typeof HTMLImageElement,
+  ImageData,
+  Video: Unavailable as unknown as typeof HTMLVideoElement,
+  createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+  createImageElement: () => {
+    throw new Error('Images are not available in the inference worker');
+  },
+  createVideoElement: () => {
+    throw new Error('Videos are not available in the inference worker');
+  },
+  fetch: (url: string, init?: RequestInit) => fetch(url, init)
+});
+(globalThis as unknown as { faceapi: typeof faceapiModule }).faceapi = faceapiModule;
+
+const detectors = new Map<DetectorId, Promise<Detector>>();
+const classifiers = new Map<number, tf.LayersModel>();
+
+// Latest frame per channel; a new frame replaces the queued one instead of waiting behind it
+const pending = new Map<string, InferRequest>();
+let busy = false;
+
+// One canvas reused for every frame; the model code reads it like a page canvas
+const frameCanvas = new OffscreenCanvas(1, 1);
+const frameContext = frameCanvas.getContext('2d', { willReadFrequently: true });
+
+function post(response: WorkerResponse) {
+  (self as unknown as Worker).postMessage(response);
+}
+
+function loadDetector(id: DetectorId): Promise<Detector> {
+  let detector = detectors.get(id);
+  if (!detector) {
+    detector = createLocalDetector(id, id).catch(error => {
+      detectors.delete(id);
+      throw error;
+    });
+    detectors.set(id, detector);
+  }
+  return detector;
+}
+
+function drawFrame(frame: ImageBitmap): HTMLCanvasElement {
+  if (!frameContext) throw new Error('OffscreenCanvas 2D context unavailable');
+  if (frameCanvas.width !== frame.width || frameCanvas.height !== frame.height) {
+    frameCanvas.width = frame.width;
+    frameCanvas.height = frame.height;
+  }
+  frameContext.drawImage(frame, 0, 0);
+  frame.close();
+  return frameCanvas as unknown as HTMLCanvasElement;
+}
+
+async function run(task: InferenceTask, canvas: HTMLCanvasElement): Promise<InferenceOutput> {
+  switch (task.kind) {
+    case 'detect': {
+      const detector = await loadDetector(task.detectorId);
+      return { kind: 'detect', detections: await detector.detect(canvas, task.options) };
+    }
+    case 'classify': {
+      const model = classifiers.get(task.classifierId);
+      if (!model) throw new Error(`Unknown classifier: ${task.classifierId}`);
+      return { kind: 'classify', confidence: await classifyFrame(model, canvas, task.features) };
+    }
+    case 'personFaces':
+      return { kind: 'personFaces', faces: await analyzePersonFaces(canvas, task.boxes) };
+    case 'frameFaces':
+      return { kind: 'frameFaces', faces: await detectFrameFaces(canvas, task) };
+    case 'poses':
+      return { kind: 'poses', poses: await estimatePoses(canvas, task.boxes) };
+  }
+}
+
+async function pump() {
+  if (busy) return;
+  busy = true;
+
+  while (pending.size > 0) {
+    const [channel, request] = pending.entries().next().value as [string, InferRequest];
+    pending.delete(channel);
+
+    try {
+      const output = await run(request.task, drawFrame(request.frame));
+      post({ type: 'result', requestId: request.requestId, output });
+    } catch (error) {
+      post({ type: 'error', requestId: request.requestId, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  busy = false;
+}
+
+function enqueue(request: InferRequest) {
+  const stale = pending.get(request.channel);
+  if (stale) {
+    stale.frame.close();
+    post({ type: 'superseded', requestId: stale.requestId, by: request.requestId });
+  }
+  // Re-inserting moves the channel to the back so busy channels cannot starve quiet ones
+  pending.delete(request.channel);
+  pending.set(request.channel, request);
+  pump();
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'infer':
+      enqueue(request);
+      break;
+
+    case 'loadDetector':
+      try {
+        await loadDetector(request.detectorId);
+        post({ type: 'loaded', requestId: request.requestId });
+      } catch (error) {
+        post({ type: 'error', requestId: request.requestId, message: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+
+    case 'loadClassifier':
+      try {
+        classifiers.get(request.classifierId)?.dispose();
+        classifiers.set(request.classifierId, await tf.loadLayersModel(tf.io.fromMemory(request.artifacts)));
+        post({ type: 'loaded', requestId: request.requestId });
+      } catch (error) {
+        post({ type: 'error', requestId: request.requestId, message: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+
+    case 'disposeClassifier':
+      classifiers.get(request.classifierId)?.dispose();
+      classifiers.delete(request.classifierId);
+      break;
+  }
+};
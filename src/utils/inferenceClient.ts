@@ -0,0 +1,226 @@
+import * as tf from '@tensorflow/tfjs';
+import type { Detector, DetectorId, DetectorInput } from './detectors';
+import { analyzePersonFaces, detectFrameFaces, type FaceAttributes, type FrameFace } from './faceAnalysis';
+import { classifyFrame, createLocalDetector } from './localInference';
+import { estimatePoses, type Pose } from './pose';
+import type { InferenceChannel, InferenceOutput, InferenceTask, WorkerRequest, WorkerResponse } from './inferenceProtocol';
+
+type FrameInput = HTMLVideoElement | HTMLCanvasElement | HTMLImageElement;
+
+type Waiter = {
+  resolve: (output: InferenceOutput | null) => void;
+  reject: (error: Error) => void;
+};
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 1;
+let nextClassifierId = 1;
+
+// Several callers can wait on one request once older requests on its channel were superseded by it
+const waiters = new Map<number, Waiter[]>();
+
+export function isWorkerInferenceSupported(): boolean {
+  return !workerFailed &&
+    typeof window !== 'undefined' &&
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined';
+}
+
+function rejectAll(error: Error) {
+  waiters.forEach(list => list.forEach(waiter => waiter.reject(error)));
+  waiters.clear();
+}
+
+function settle(requestId: number, settleWaiter: (waiter: Waiter) => void) {
+  const list = waiters.get(requestId) ?? [];
+  waiters.delete(requestId);
+  list.forEach(settleWaiter);
+}
+
+function handleResponse(response: WorkerResponse) {
+  switch (response.type) {
+    case 'loaded':
+      settle(response.requestId, waiter => waiter.resolve(null));
+      break;
+    case 'result':
+      settle(response.requestId, waiter => waiter.resolve(response.output));
+      break;
+    case 'superseded': {
+      // The stale frame was dropped; its callers get the newer frame's result instead
+      const moved = waiters.get(response.requestId) ?? [];
+      waiters.delete(response.requestId);
+      waiters.set(response.by, [...(waiters.get(response.by) ?? []), ...moved]);
+      break;
+    }
+    case 'error':
+      settle(response.requestId, waiter => waiter.reject(new Error(response.message)));
+      break;
+  }
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./inference.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => handleResponse(event.data);
+    worker.onerror = event => {
+      // A worker that fails to start or crashes is not retried; later calls run on the main thread
+      console.error('Inference worker failed:', event.message);
+      workerFailed = true;
+      worker?.terminate();
+      worker = null;
+      rejectAll(new Error('Inference worker stopped unexpectedly'));
+    };
+  }
+  return worker;
+}
+
+function send(request: WorkerRequest & { requestId: number }, transfer: Transferable[] = []): Promise<InferenceOutput | null> {
+  return new Promise((resolve, reject) => {
+    waiters.set(request.requestId, [{ resolve, reject }]);
+    try {
+      getWorker().postMessage(request, transfer);
+    } catch (error) {
+      waiters.delete(request.requestId);
+      reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  });
+}
+
+async function infer<K extends InferenceTask['kind']>(
+  input: FrameInput,
+  channel: InferenceChannel | undefined,
+  task: Extract<InferenceTask, { kind: K }>
+): Promise<Extract<InferenceOutput, { kind: K }>> {
+  const requestId = nextRequestId++;
+  // Without a channel every request stands alone and is never replaced
+  const frame = await createImageBitmap(input);
+  const output = await send(
+    { type: 'infer', requestId, channel: channel ?? `request-${requestId}`, frame, task },
+    [frame]
+  );
+
+  if (output?.kind !== task.kind) {
+    throw new Error(`Unexpected ${output?.kind ?? 'empty'} result for ${task.kind} request`);
+  }
+  return output as Extract<InferenceOutput, { kind: K }>;
+}
+
+export async function createWorkerDetector(id: DetectorId, label: string): Promise<Detector> {
+  await send({ type: 'loadDetector', requestId: nextRequestId++, detectorId: id });
+  let fallback: Promise<Detector> | null = null;
+
+  return {
+    id,
+    label,
+    async detect(input: DetectorInput, options = {}) {
+      if (workerFailed) {
+        fallback ??= createLocalDetector(id, label);
+        return (await fallback).detect(input, options);
+      }
+
+      const { channel, ...detectOptions } = options;
+      const output = await infer(input, channel, { kind: 'detect', detectorId: id, options: detectOptions });
+      return output.detections;
+    },
+    dispose() {
+      // Detectors stay loaded in the worker, matching the shared detector cache
+    }
+  };
+}
+
+async function serializeModel(model: tf.LayersModel): Promise<tf.io.ModelArtifacts> {
+  let artifacts: tf.io.ModelArtifacts | null = null;
+  await model.save(tf.io.withSaveHandler(async saved => {
+    artifacts = saved;
+    return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+  }));
+  if (!artifacts) throw new Error('Failed to serialize the classifier');
+  return artifacts;
+}
+
+// Copies a trained classifier into the worker; scores run there when possible and on the page otherwise
+export async function createFrameClassifier(model: tf.LayersModel) {
+  let classifierId: number | null = null;
+
+  if (isWorkerInferenceSupported()) {
+    try {
+      const id = nextClassifierId++;
+      await send({ type: 'loadClassifier', requestId: nextRequestId++, classifierId: id, artifacts: await serializeModel(model) });
+      classifierId = id;
+    } catch (error) {
+      console.warn('Worker classification unavailable, running on the main thread:', error);
+    }
+  }
+
+  return {
+    // features in training order, for models trained with them
+    async classify(input: FrameInput, channel?: InferenceChannel, features?: number[]): Promise<number> {
+      if (classifierId === null || workerFailed) return classifyFrame(model, input, features);
+      const output = await infer(input, channel, { kind: 'classify', classifierId, features });
+      return output.confidence;
+    },
+
+    dispose() {
+      if (classifierId !== null && worker) {
+        worker.postMessage({ type: 'disposeClassifier', classifierId } satisfies WorkerRequest);
+      }
+      classifierId = null;
+    }
+  };
+}
+
+export type FrameClassifier = Awaited<ReturnType<typeof createFrameClassifier>>;
+
+// Face attributes for each person box, computed in the worker with a main-thread fallback
+export async function inferPersonFaces(
+  input: HTMLVideoElement | HTMLCanvasElement,
+  personBoxes: number[][],
+  channel?: InferenceChannel
+): Promise<Array<FaceAttributes | null>> {
+  if (personBoxes.length === 0) return [];
+  if (!isWorkerInferenceSupported()) return analyzePersonFaces(input, personBoxes);
+
+  try {
+    const output = await infer(input, channel, { kind: 'personFaces', boxes: personBoxes });
+    return output.faces;
+  } catch (error) {
+    console.warn('Worker face analysis failed, running on the main thread:', error);
+    return analyzePersonFaces(input, personBoxes);
+  }
+}
+
+export async function inferFrameFaces(
+  input: HTMLVideoElement | HTMLCanvasElement,
+  options: { minScore: number; maxResults: number },
+  channel?: InferenceChannel
+): Promise<FrameFace[]> {
+  if (!isWorkerInferenceSupported()) return detectFrameFaces(input, options);
+
+  try {
+    const output = await infer(input, channel, { kind: 'frameFaces', ...options });
+    return output.faces;
+  } catch (error) {
+    console.warn('Worker face detection failed, running on the main thread:', error);
+    return detectFrameFaces(input, options);
+  }
+}
+
+// MoveNet keypoints for each person box, computed in the worker with a main-thread fallback
+export async function inferPoses(
+  input: HTMLVideoElement | HTMLCanvasElement,
+  personBoxes: number[][],
+  channel?: InferenceChannel
+): Promise<Array<Pose | null>> {
+  if (personBoxes.length === 0) return [];
+  if (!isWorkerInferenceSupported()) return estimatePoses(input, personBoxes);
+
+  try {
+    const output = await infer(input, channel, { kind: 'poses', boxes: personBoxes });
+    return output.poses;
+  } catch (error) {
+    console.warn('Worker pose estimation failed, running on the main thread:', error);
+    return estimatePoses(input, personBoxes);
+  }
+}
@@ -0,0 +1,33 @@
+import type * as tf from '@tensorflow/tfjs';
+import type { DetectOptions, Detection, DetectorId } from './detectors';
+import type { FaceAttributes, FrameFace } from './faceAnalysis';
+import type { Pose } from './pose';
+
+// Every request on a channel replaces the one still queued on it, so a slow worker drops stale frames
+export type InferenceChannel = string;
+
+export type InferenceTask =
+  | { kind: 'detect'; detectorId: DetectorId; options?: DetectOptions }
+  | { kind: 'classify'; classifierId: number; features?: number[] }
+  | { kind: 'personFaces'; boxes: number[][] }
+  | { kind: 'frameFaces'; minScore: number; maxResults: number }
+  | { kind: 'poses'; boxes: number[][] };
+
+export type InferenceOutput =
+  | { kind: 'detect'; detections: Detection[] }
+  | { kind: 'classify'; confidence: number }
+  | { kind: 'personFaces'; faces: Array<FaceAttributes | null> }
+  | { kind: 'frameFaces'; faces: FrameFace[] }
+  | { kind: 'poses'; poses: Array<Pose | null> };
+
+export type WorkerRequest =
+  | { type: 'loadDetector'; requestId: number; detectorId: DetectorId }
+  | { type: 'loadClassifier'; requestId: number; classifierId: number; artifacts: tf.io.ModelArtifacts }
+  | { type: 'disposeClassifier'; classifierId: number }
+  | { type: 'infer'; requestId: number; channel: InferenceChannel; frame: ImageBitmap; task: InferenceTask };
+
+export type WorkerResponse =
+  | { type: 'loaded'; requestId: number }
+  | { type: 'result'; requestId: number; output: InferenceOutput }
+  | { type: 'superseded'; requestId: number; by: number }
+  | { type: 'error'; requestId: number; message: string };
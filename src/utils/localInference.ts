@@ -0,0 +1,152 @@
+import * as tf from '@tensorflow/tfjs';
+import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import { loadFaceModels } from './faceAnalysis';
+import type { Detection, Detector, DetectorId } from './detectors';
+
+// Model code that runs on whichever thread calls it: the page as a fallback, or the inference worker.
+// It must not import the worker client, or the worker bundle would import itself.
+declare const faceapi: typeof import('@vladmandic/face-api');
+
+const DEFAULT_MIN_SCORE = 0.5;
+const DEFAULT_MAX_RESULTS = 20;
+const CLASSIFIER_INPUT_SIZE = 224;
+
+async function createCocoDetector(
+  id: DetectorId,
+  base: cocoSsd.ObjectDetectionBaseModel,
+  label: string
+): Promise<Detector> {
+  await tf.ready();
+  tf.env().set('WEBGL_FORCE_F16_TEXTURES', true);
+  tf.env().set('WEBGL_PACK', true);
+  const model = await cocoSsd.load({ base });
+
+  return {
+    id,
+    label,
+    async detect(input, options = {}) {
+      const predictions = await model.detect(
+        input,
+        options.maxResults ?? DEFAULT_MAX_RESULTS,
+        options.minScore ?? DEFAULT_MIN_SCORE
+      );
+      return predictions.map(p => ({ bbox: p.bbox, class: p.class, score: p.score }));
+    },
+    dispose() {
+      model.dispose();
+    }
+  };
+}
+
+async function createFaceDetector(label: string): Promise<Detector> {
+  await loadFaceModels();
+
+  return {
+    id: 'face-api/ssd_mobilenetv1',
+    label,
+    async detect(input, options = {}) {
+      const faces = await faceapi.detectAllFaces(
+        input,
+        new faceapi.SsdMobilenetv1Options({
+          minConfidence: options.minScore ?? DEFAULT_MIN_SCORE,
+          maxResults: options.maxResults ?? DEFAULT_MAX_RESULTS
+        })
+      );
+      return faces.map(face => ({
+        bbox: [face.box.x, face.box.y, face.box.width, face.box.height],
+        class: 'face',
+        score: face.score
+      }));
+    },
+    dispose() {
+      // Face-API nets are shared with the face analysis pass and stay loaded
+    }
+  };
+}
+
+// Emits a fixed script of boxes driven by a call counter, so results never depend on the pixels
+export function createFakeDetector(label = 'Fake (deterministic)'): Detector {
+  let frame = 0;
+
+  return {
+    id: 'fake',
+    label,
+    async detect(input, options = {}) {
+      const width = (input as HTMLVideoElement).videoWidth || input.width || 640;
+      const height = (input as HTMLVideoElement).videoHeight || input.height || 480;
+      const t = frame++;
+
+      const detections: Detection[] = [
+        {
+          bbox: [
+            ((t * 8) % Math.max(1, width * 0.8)),
+            height * 0.3,
+            width * 0.15,
+            height * 0.6
+          ],
+          class: 'person',
+          score: 0.9
+        },
+        {
+          bbox: [width * 0.6, height * 0.25 + Math.sin(t / 10) * height * 0.05, width * 0.12, height * 0.55],
+          class: 'person',
+          score: 0.75
+        },
+        {
+          bbox: [width * 0.05, height * 0.8, width * 0.1, height * 0.1],
+          class: 'chair',
+          score: 0.6
+        }
+      ];
+
+      return detections
+        .filter(d => d.score >= (options.minScore ?? 0))
+        .slice(0, options.maxResults ?? DEFAULT_MAX_RESULTS);
+    },
+    dispose() {
+      frame = 0;
+    }
+  };
+}
+
+export function createLocalDetector(id: DetectorId, label: string): Promise<Detector> {
+  switch (id) {
+    case 'coco-ssd/lite_mobilenet_v2':
+      return createCocoDetector(id, 'lite_mobilenet_v2', label);
+    case 'coco-ssd/mobilenet_v1':
+      return createCocoDetector(id, 'mobilenet_v1', label);
+    case 'coco-ssd/mobilenet_v2':
+      return createCocoDetector(id, 'mobilenet_v2', label);
+    case 'face-api/ssd_mobilenetv1':
+      return createFaceDetector(label);
+    case 'fake':
+      return Promise.resolve(createFakeDetector(label));
+  }
+}
+
+// Violence classifier score for one frame, resized to the classifier's input. Models trained
+// with per-frame features take them as a second input; older image-only models ignore them.
+export async function classifyFrame(
+  model: tf.LayersModel,
+  input: HTMLVideoElement | HTMLCanvasElement | HTMLImageElement,
+  features: number[] = []
+): Promise<number> {
+  const inputs = tf.tidy(() => {
+    const frameTensor = tf.browser.fromPixels(input)
+      .resizeBilinear([CLASSIFIER_INPUT_SIZE, CLASSIFIER_INPUT_SIZE])
+      .toFloat()
+      .div(255)
+      .expandDims(0);
+    if (model.inputs.length < 2) return [frameTensor];
+    const size = model.inputs[1].shape[1] ?? features.length;
+    const padded = Array.from({ length: size }, (_, i) => features[i] ?? 0);
+    return [frameTensor, tf.tensor2d([padded], [1, size])];
+  });
+
+  const prediction = model.predict(inputs.length === 1 ? inputs[0] : inputs) as tf.Tensor;
+  const [confidence] = await prediction.data();
+
+  inputs.forEach(t => t.dispose());
+  prediction.dispose();
+  return confidence;
+}
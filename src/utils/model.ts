@@ -1,127 +1,109 @@
-import * as tf from '@tensorflow/tfjs';
-import * as cocoSsd from '@tensorflow-models/coco-ssd';
 import { generateDetailedDescription } from './openai';
-
-let model: cocoSsd.ObjectDetection | null = null;
-let lastProcessedTime = 0;
-const PROCESS_INTERVAL = 200; // Process every 200ms instead of every frame
+import { getActiveDetector } from './detectors';
+import { createTracker } from './tracker';
+import { createFallDetector } from './fallDetection';
+import { createPoseFeatureTracker, type Pose, type PoseFeatures } from './pose';
+import type { MotionAnalyzer, MotionFrame } from './motion';
+import type { SceneChange, SceneChangeGate } from './sceneChange';
+import { UNKNOWN_ATTRIBUTE } from './faceAnalysis';
+import { inferPersonFaces, inferPoses } from './inferenceClient';
+import { redactFrame } from './redaction';
+import { createRuleEngine, loadRules, type AlertEvent } from './alertRules';
+import type { Zone, ZoneEvent, ZoneMonitor } from './zones';
+import type { OccupancyAnalytics } from './analytics';
+import type { DwellMonitor, DwellRecord } from './dwell';
 
 // Motion tracking
-let previousPositions = new Map<string, { x: number, y: number, time: number }>();
-const MOTION_HISTORY_DURATION = 2000; // 2 seconds of motion history
-const SUDDEN_MOVEMENT_THRESHOLD = 100; // pixels per frame
-const AGGRESSIVE_MOTION_THRESHOLD = 150;
+export const objectTracker = createTracker();
+export const fallDetector = createFallDetector();
+export const poseFeatureTracker = createPoseFeatureTracker();
+
+// Alert rules replace the old fixed motion/proximity thresholds
+export const alertEngine = createRuleEngine(loadRules());
+
+// Live state of the main camera; grid tiles get their own so tracks never cross between feeds
+const defaultTracking = { tracker: objectTracker, fallDetector, poseFeatureTracker, alertEngine };
+
+export type TrackingState = typeof defaultTracking;
+
+// Rules are copied from the shared engine when the state is created; followRules keeps them in step
+export function createTrackingState(): TrackingState {
+  return {
+    tracker: createTracker(),
+    fallDetector: createFallDetector(),
+    poseFeatureTracker: createPoseFeatureTracker(),
+    alertEngine: createRuleEngine(alertEngine.getRules())
+  };
+}
+
+// Copies every later edit of the shared rules into a state's own engine; returns the unsubscribe function
+export function followRules(tracking: TrackingState): () => void {
+  return alertEngine.subscribe(rules => tracking.alertEngine.setRules(rules));
+}
+
+export type FrameAnalysisOptions = {
+  zones?: Zone[];
+  zoneMonitor?: ZoneMonitor;
+  analytics?: OccupancyAnalytics;
+  dwellMonitor?: DwellMonitor;
+  motionAnalyzer?: MotionAnalyzer;
+  scores?: Record<string, number>;
+  source?: string;
+  tracking?: TrackingState;
+  channel?: string; // inference channel; every live source needs its own or they replace each other's frames
+};
 
 export type PersonAnnotation = {
   bbox: number[];
+  trackId?: number;
   gender: string;
   ageRange: string;
   expression: string;
   confidence: number;
+  genderConfidence?: number;
+  expressionConfidence?: number;
+  age?: number;
+  faceBox?: number[];
+  pose?: Pose;
+  poseFeatures?: PoseFeatures;
+  motionIntensity?: number;
+  dwellTime?: number; // ms in frame
+  lingering?: boolean;
   class?: string;
   alert?: {
-    type: 'warning' | 'danger';
+    type: 'warning' | 'danger' | 'fall';
     reason: string;
   };
 };
 
 export async function loadModel() {
   try {
-    if (!model) {
-      await tf.ready();
-      tf.env().set('WEBGL_FORCE_F16_TEXTURES', true);
-      tf.env().set('WEBGL_PACK', true);
-      model = await cocoSsd.load({
-        base: 'lite_mobilenet_v2'
-      });
-    }
-    return model;
+    return await getActiveDetector();
   } catch (error) {
-    console.error('Failed to load TensorFlow model:', error);
+    console.error('Failed to load detection model:', error);
     throw new Error('Failed to initialize the AI model. Please check your internet connection and try again.');
   }
 }
 
-function detectSuddenMovement(
-  currentPos: { x: number, y: number },
-  previousPos: { x: number, y: number, time: number }
-): boolean {
-  const dx = currentPos.x - previousPos.x;
-  const dy = currentPos.y - previousPos.y;
-  const distance = Math.sqrt(dx * dx + dy * dy);
-  const timeDiff = Date.now() - previousPos.time;
-  const speed = distance / (timeDiff / 1000); // pixels per second
-  
-  return speed > SUDDEN_MOVEMENT_THRESHOLD;
-}
-
-function detectAggressiveMotion(
-  bbox: number[],
-  personId: string
-): { isAggressive: boolean; reason?: string } {
-  const [x, y, width, height] = bbox;
-  const centerX = x + width / 2;
-  const centerY = y + height / 2;
-  const currentTime = Date.now();
-  
-  const previousPos = previousPositions.get(personId);
-  if (!previousPos) {
-    previousPositions.set(personId, { x: centerX, y: centerY, time: currentTime });
-    return { isAggressive: false };
-  }
-
-  // Clean up old positions
-  for (const [id, pos] of previousPositions.entries()) {
-    if (currentTime - pos.time > MOTION_HISTORY_DURATION) {
-      previousPositions.delete(id);
-    }
-  }
-
-  // Detect sudden movements
-  const isSuddenMovement = detectSuddenMovement(
-    { x: centerX, y: centerY },
-    previousPos
-  );
-
-  // Update position
-  previousPositions.set(personId, { x: centerX, y: centerY, time: currentTime });
-
-  if (isSuddenMovement) {
-    return {
-      isAggressive: true,
-      reason: 'Sudden aggressive movement detected'
-    };
-  }
-
-  return { isAggressive: false };
-}
-
-function detectProximityConflict(annotations: PersonAnnotation[]): boolean {
-  if (annotations.length < 2) return false;
-
-  for (let i = 0; i < annotations.length; i++) {
-    for (let j = i + 1; j < annotations.length; j++) {
-      const [x1, y1] = [
-        annotations[i].bbox[0] + annotations[i].bbox[2] / 2,
-        annotations[i].bbox[1] + annotations[i].bbox[3] / 2
-      ];
-      const [x2, y2] = [
-        annotations[j].bbox[0] + annotations[j].bbox[2] / 2,
-        annotations[j].bbox[1] + annotations[j].bbox[3] / 2
-      ];
-
-      const distance = Math.sqrt(Math.pow(x2 - x1, 2) + Math.pow(y2 - y1, 2));
-      if (distance < AGGRESSIVE_MOTION_THRESHOLD) {
-        return true;
-      }
-    }
-  }
-
-  return false;
+export function resetTracking(tracking: TrackingState = defaultTracking) {
+  tracking.tracker.reset();
+  tracking.fallDetector.reset();
+  tracking.poseFeatureTracker.reset();
+  tracking.alertEngine.reset();
 }
 
-function captureFrame(videoElement: HTMLVideoElement): string | null {
+// Every frame sent to a hosted model is captured here, so the privacy redaction policy is
+// applied at full resolution before the frame is scaled down and encoded
+export async function captureFrame(videoElement: HTMLVideoElement, redactionZones: Zone[] = []): Promise<string | null> {
   try {
+    const source = document.createElement('canvas');
+    source.width = videoElement.videoWidth;
+    source.height = videoElement.videoHeight;
+    const sourceCtx = source.getContext('2d', { alpha: false });
+    if (!sourceCtx) return null;
+    sourceCtx.drawImage(videoElement, 0, 0);
+    await redactFrame(source, redactionZones);
+
     const canvas = document.createElement('canvas');
     const scale = 0.5;
     canvas.width = videoElement.videoWidth * scale;
@@ -132,7 +114,7 @@ function captureFrame(videoElement: HTMLVideoElement): string | null {
     });
     if (!ctx) return null;
     
-    ctx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
     return canvas.toDataURL('image/jpeg', 0.7);
   } catch (error) {
     console.error('Error capturing frame:', error);
@@ -140,58 +122,183 @@ function captureFrame(videoElement: HTMLVideoElement): string | null {
   }
 }
 
-function estimateAgeRange(height: number): string {
-  if (height < window.innerHeight * 0.15) return '20-30';
-  if (height < window.innerHeight * 0.25) return '30-40';
-  return 'Young';
+// Small crop of one person, used as the loitering thumbnail
+function captureThumbnail(videoElement: HTMLVideoElement, bbox: number[]): string | null {
+  try {
+    const [x, y, width, height] = bbox;
+    const scale = Math.min(1, 96 / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(videoElement, x, y, width, height, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.error('Error capturing thumbnail:', error);
+    return null;
+  }
 }
 
-function estimateExpression(bbox: number[]): string {
-  const expressions = ['neutral', 'focused', 'happy'];
-  return expressions[Math.floor(Math.random() * expressions.length)];
+function describeMovement(intensity?: number): string {
+  if (intensity === undefined) return 'detected';
+  if (intensity > 0.3) return 'moving vigorously';
+  if (intensity > 0.05) return 'moving';
+  return 'staying still';
 }
 
-function adjustBoundingBox(bbox: number[]): number[] {
-  const [x, y, width, height] = bbox;
-  return [x, y, width, height];
+function knownAttribute(value: string): string | undefined {
+  return value && value !== UNKNOWN_ATTRIBUTE ? value : undefined;
 }
 
-export async function analyzeFrame(videoElement: HTMLVideoElement) {
+// Highest-severity track alert goes on the annotation; 'info' alerts only appear in the feed
+function annotationAlert(trackId: number, engine: TrackingState['alertEngine']): PersonAnnotation['alert'] {
+  const matches = engine.activeSubjects()
+    .filter(subject => subject.trackId === trackId && subject.rule.severity !== 'info');
+  if (matches.length === 0) return undefined;
+
+  const strongest = matches.find(m => m.rule.severity === 'danger') ?? matches[0];
+  return {
+    type: strongest.rule.severity === 'danger' ? 'danger' : 'warning',
+    reason: strongest.rule.name
+  };
+}
+
+// Fast on-device pass: detection, tracking and everything derived from it, without the LLM
+export async function detectFrame(videoElement: HTMLVideoElement, options: FrameAnalysisOptions = {}) {
   try {
     const currentTime = Date.now();
-    if (currentTime - lastProcessedTime < PROCESS_INTERVAL) {
-      return null;
-    }
-    lastProcessedTime = currentTime;
-
-    if (!model) {
-      model = await loadModel();
-    }
+    const tracking = options.tracking ?? defaultTracking;
+    const detector = await loadModel();
+    const channel = options.channel ?? 'live';
+    const predictions = await detector.detect(videoElement, { minScore: 0.3, channel });
+    const trackIds = tracking.tracker.update(
+      predictions.map(prediction => ({
+        bbox: prediction.bbox,
+        class: prediction.class,
+        score: prediction.score
+      })),
+      currentTime
+    );
+    const personBoxes = predictions.filter(p => p.class === 'person').map(p => p.bbox);
+    const [faces, poses] = await Promise.all([
+      // Separate channels, since a request replaces whatever is still queued on its own channel
+      inferPersonFaces(videoElement, personBoxes, `${channel}-faces`),
+      inferPoses(videoElement, personBoxes, `${channel}-poses`)
+    ]);
+    let personIndex = 0;
+
+    const trackedDetections = predictions.map((prediction, index) => ({
+      trackId: trackIds[index],
+      class: prediction.class,
+      bbox: prediction.bbox,
+      score: prediction.score
+    }));
+    const motion: MotionFrame | null = options.motionAnalyzer
+      ? options.motionAnalyzer.analyze(videoElement, trackedDetections.map(d => d.bbox))
+      : null;
+    const motionByTrack: Record<number, number> = Object.fromEntries(
+      trackedDetections.map((d, index) => [d.trackId, motion?.boxes[index] ?? 0])
+    );
+
+    options.analytics?.record(
+      trackedDetections.filter(d => d.class === 'person').map(d => d.bbox),
+      videoElement.videoWidth,
+      videoElement.videoHeight,
+      currentTime
+    );
+
+    const people = trackedDetections.filter(d => d.class === 'person');
+    tracking.fallDetector.update(
+      trackedDetections.map(d => ({ id: d.trackId, class: d.class, bbox: d.bbox, pose: poses[people.indexOf(d)] })),
+      currentTime
+    );
+    const fallen = tracking.fallDetector.fallen();
+
+    const poseFeatures: Record<number, PoseFeatures> = {};
+    trackedDetections
+      .filter(d => d.class === 'person')
+      .forEach((d, index) => {
+        const pose = poses[index];
+        if (pose) poseFeatures[d.trackId] = tracking.poseFeatureTracker.update(d.trackId, pose, d.bbox, currentTime);
+      });
 
-    const predictions = await model.detect(videoElement, undefined, 0.3);
-    const frameData = captureFrame(videoElement);
+    const zones = options.zones ?? [];
+    const zoneEvents: ZoneEvent[] = options.zoneMonitor
+      ? options.zoneMonitor.update(
+          trackedDetections.map(d => ({ id: d.trackId, class: d.class, bbox: d.bbox })),
+          zones,
+          currentTime
+        )
+      : [];
+    const zoneOccupants = Object.fromEntries(
+      zones.map(zone => [zone.id, options.zoneMonitor?.occupants(zone.id) ?? []])
+    );
+    const dwell: DwellRecord[] = options.dwellMonitor
+      ? options.dwellMonitor.update(
+          trackedDetections.map(d => ({ id: d.trackId, class: d.class, bbox: d.bbox })),
+          zoneOccupants,
+          currentTime,
+          bbox => captureThumbnail(videoElement, bbox)
+        )
+      : [];
+    const alerts: AlertEvent[] = tracking.alertEngine.evaluate({
+      timestamp: currentTime,
+      detections: trackedDetections,
+      tracks: tracking.tracker.getTracks({ includeTentative: true }),
+      zoneEvents,
+      zoneOccupants,
+      dwell,
+      fallen,
+      poseFeatures,
+      motion: motionByTrack,
+      scores: { ...options.scores, ...(motion ? { motion_intensity: motion.global } : {}) }
+    }, options.source);
     
     const annotations: PersonAnnotation[] = [];
-    const results = predictions.map(prediction => {
-      const adjustedBbox = adjustBoundingBox(prediction.bbox);
+    const results = predictions.map((prediction, index) => {
+      const trackId = trackIds[index];
       
       if (prediction.class === 'person') {
-        const personId = `person_${adjustedBbox.join('_')}`;
-        const motionAnalysis = detectAggressiveMotion(adjustedBbox, personId);
+        const face = faces[personIndex];
+        const pose = poses[personIndex++];
         
-        const annotation: PersonAnnotation = {
-          bbox: adjustedBbox,
-          gender: 'Person',
-          ageRange: estimateAgeRange(adjustedBbox[3]),
-          expression: estimateExpression(adjustedBbox),
+        // Without a visible face there is nothing to base these on, so say so
+        const annotation: PersonAnnotation = face ? {
+          bbox: prediction.bbox,
+          trackId,
+          gender: face.gender,
+          ageRange: face.ageRange,
+          expression: face.expression,
+          confidence: prediction.score,
+          genderConfidence: face.genderConfidence,
+          expressionConfidence: face.expressionConfidence,
+          age: face.age,
+          faceBox: face.faceBox
+        } : {
+          bbox: prediction.bbox,
+          trackId,
+          gender: UNKNOWN_ATTRIBUTE,
+          ageRange: UNKNOWN_ATTRIBUTE,
+          expression: UNKNOWN_ATTRIBUTE,
           confidence: prediction.score
         };
 
-        if (motionAnalysis.isAggressive) {
-          annotation.alert = {
-            type: 'danger',
-            reason: motionAnalysis.reason || 'Aggressive motion detected'
-          };
+        if (motion) annotation.motionIntensity = motionByTrack[trackId];
+        if (pose) {
+          annotation.pose = pose;
+          annotation.poseFeatures = poseFeatures[trackId];
+        }
+
+        // A fall outranks whatever the rules say about this person
+        annotation.alert = fallen.includes(trackId)
+          ? { type: 'fall', reason: `Fallen for ${Math.round(tracking.fallDetector.downTime(trackId, currentTime) / 1000)}s` }
+          : annotationAlert(trackId, tracking.alertEngine);
+        const frameDwell = dwell.find(record => record.trackId === trackId && record.scope === 'frame');
+        if (frameDwell) {
+          annotation.dwellTime = frameDwell.duration;
+          annotation.lingering = dwell.some(record => record.trackId === trackId && record.lingering);
         }
 
         annotations.push(annotation);
@@ -199,12 +306,15 @@ export async function analyzeFrame(videoElement: HTMLVideoElement) {
         return {
           class: prediction.class,
           score: prediction.score,
-          bbox: adjustedBbox,
+          bbox: prediction.bbox,
+          trackId,
           details: {
-            pose: 'detected',
+            pose: annotation.alert?.type === 'fall'
+              ? 'lying on the ground'
+              : (annotation.poseFeatures?.arm_raise ?? 0) > 0.5 ? 'standing with arms raised' : 'detected',
             position: 'in frame',
-            activity: motionAnalysis.isAggressive ? 'aggressive movement' : 'present',
-            movement: 'detected',
+            activity: annotation.alert ? annotation.alert.reason.toLowerCase() : 'present',
+            movement: describeMovement(annotation.motionIntensity),
             annotation
           }
         };
@@ -213,59 +323,50 @@ export async function analyzeFrame(videoElement: HTMLVideoElement) {
       return {
         class: prediction.class,
         score: prediction.score,
-        bbox: adjustedBbox,
+        bbox: prediction.bbox,
+        trackId,
         details: null
       };
     });
 
-    // Check for proximity-based conflicts
-    if (detectProximityConflict(annotations)) {
-      annotations.forEach(annotation => {
-        if (!annotation.alert) {
-          annotation.alert = {
-            type: 'warning',
-            reason: 'Close proximity conflict detected'
-          };
-        }
-      });
-    }
-
     const sceneData = {
       people: results
         .filter(r => r.class === 'person' && r.details)
         .map(p => ({
           ...p.details!,
           annotation: {
-            ageRange: p.details!.annotation.ageRange,
-            expression: p.details!.annotation.expression,
+            gender: knownAttribute(p.details!.annotation.gender),
+            ageRange: knownAttribute(p.details!.annotation.ageRange),
+            expression: knownAttribute(p.details!.annotation.expression),
             alert: p.details!.annotation.alert
           }
         })),
       objects: results
         .filter(r => r.class !== 'person')
-        .map(obj => obj.class),
-      frame: frameData
+        .map(obj => obj.class)
     };
 
-    const commentary = await generateDetailedDescription(sceneData);
-    
     return {
       detections: results,
-      commentary,
+      zoneEvents,
+      dwell,
+      motion,
+      alerts,
+      scene: sceneData,
       annotations: [
         ...annotations,
         ...results
           .filter(r => r.class !== 'person')
           .map(obj => ({
             bbox: obj.bbox,
+            trackId: obj.trackId,
             gender: '',
             ageRange: '',
             expression: '',
             confidence: obj.score,
             class: obj.class
           }))
-      ],
-      frame: frameData
+      ]
     };
   } catch (error) {
     console.error('Error analyzing frame:', error);
@@ -273,63 +374,26 @@ export async function analyzeFrame(videoElement: HTMLVideoElement) {
   }
 }
 
-export async function analyzeVideo(videoFile: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    video.src = URL.createObjectURL(videoFile);
-    video.autoplay = true;
-    video.muted = true;
-    video.playsInline = true;
-
-    let frames: string[] = [];
-    let analysisStarted = false;
-
-    video.addEventListener('loadeddata', async () => {
-      try {
-        if (!analysisStarted) {
-          analysisStarted = true;
-          const duration = video.duration;
-          const frameCount = Math.min(3, Math.ceil(duration));
-          const interval = duration / frameCount;
-
-          for (let i = 0; i < frameCount; i++) {
-            video.currentTime = i * interval;
-            await new Promise(resolve => {
-              video.onseeked = () => {
-                const frame = captureFrame(video);
-                if (frame) frames.push(frame);
-                resolve(null);
-              };
-            });
-          }
-
-          URL.revokeObjectURL(video.src);
-          const middleFrame = frames[Math.floor(frames.length / 2)];
-          
-          const sceneData = {
-            people: [],
-            objects: [],
-            frame: middleFrame,
-            isScenic: true
-          };
-
-          try {
-            const description = await generateDetailedDescription(sceneData);
-            resolve(description);
-          } catch (error) {
-            console.error('Error generating description:', error);
-            resolve("This video shows a scenic view. The analysis system is focusing on the natural elements and landscape features of the scene.");
-          }
-        }
-      } catch (error) {
-        URL.revokeObjectURL(video.src);
-        reject(error);
-      }
-    });
+export type FrameDetection = Awaited<ReturnType<typeof detectFrame>>;
+
+// Slow pass: sends the current frame and the last detection summary to the LLM.
+// With a gate, an unchanged scene skips the call and returns no commentary.
+export async function narrateFrame(
+  videoElement: HTMLVideoElement,
+  scene: FrameDetection['scene'],
+  gate?: SceneChangeGate,
+  redactionZones: Zone[] = []
+): Promise<{ commentary: string | null; frame: string | null; change?: SceneChange }> {
+  const change = gate?.check(videoElement, scene);
+  if (change && !change.changed) return { commentary: null, frame: null, change };
+
+  const frameData = await captureFrame(videoElement, redactionZones);
+  const commentary = await generateDetailedDescription({ ...scene, frame: frameData ?? undefined });
+  return { commentary, frame: frameData, change };
+}
 
-    video.addEventListener('error', (error) => {
-      URL.revokeObjectURL(video.src);
-      reject(new Error('Failed to load video file. Please try a different file.'));
-    });
-  });
-}
\ No newline at end of file
+export async function analyzeFrame(videoElement: HTMLVideoElement, options: FrameAnalysisOptions = {}) {
+  const detection = await detectFrame(videoElement, options);
+  const narration = await narrateFrame(videoElement, detection.scene);
+  return { ...detection, ...narration };
+}
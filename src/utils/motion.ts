@@ -0,0 +1,180 @@
+export type MotionConfig = {
+  width: number; // analysis canvas width; height follows the source aspect ratio
+  threshold: number; // 0..255 grey-level change that counts as motion
+  decay: number; // 0..1, how much of the previous energy map survives each frame
+  flow: boolean; // also estimate sparse Lucas-Kanade optical flow
+  flowStep: number; // grid spacing of flow points, in analysis pixels
+};
+
+export type FlowVector = {
+  x: number; // source-video pixels
+  y: number;
+  dx: number; // source-video pixels per frame
+  dy: number;
+};
+
+export type MotionFrame = {
+  global: number; // 0..1 share of the frame that changed
+  boxes: number[]; // 0..1 share of each input box that changed
+  energy: { cols: number; rows: number; cells: Float32Array; max: number };
+  flow: FlowVector[];
+};
+
+const DEFAULT_CONFIG: MotionConfig = {
+  width: 160,
+  threshold: 25,
+  decay: 0.85,
+  flow: false,
+  flowStep: 8
+};
+
+const FLOW_WINDOW = 2; // half-size of the Lucas-Kanade window
+const MIN_FLOW_EIGEN = 1e3; // rejects flat or edge-only windows where flow is ambiguous
+
+function toGray(data: Uint8ClampedArray, size: number): Float32Array {
+  const gray = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+}
+
+// Lucas-Kanade on a coarse grid, only where frame differencing already saw change
+function sparseFlow(
+  previous: Float32Array,
+  current: Float32Array,
+  moving: Uint8Array,
+  cols: number,
+  rows: number,
+  step: number,
+  scale: number
+): FlowVector[] {
+  const vectors: FlowVector[] = [];
+  const at = (image: Float32Array, x: number, y: number) => image[y * cols + x];
+
+  for (let y = FLOW_WINDOW + 1; y < rows - FLOW_WINDOW - 1; y += step) {
+    for (let x = FLOW_WINDOW + 1; x < cols - FLOW_WINDOW - 1; x += step) {
+      if (!moving[y * cols + x]) continue;
+
+      let sxx = 0, syy = 0, sxy = 0, sxt = 0, syt = 0;
+      for (let wy = -FLOW_WINDOW; wy <= FLOW_WINDOW; wy++) {
+        for (let wx = -FLOW_WINDOW; wx <= FLOW_WINDOW; wx++) {
+          const px = x + wx;
+          const py = y + wy;
+          const ix = (at(current, px + 1, py) - at(current, px - 1, py)) / 2;
+          const iy = (at(current, px, py + 1) - at(current, px, py - 1)) / 2;
+          const it = at(current, px, py) - at(previous, px, py);
+          sxx += ix * ix;
+          syy += iy * iy;
+          sxy += ix * iy;
+          sxt += ix * it;
+          syt += iy * it;
+        }
+      }
+
+      const det = sxx * syy - sxy * sxy;
+      const trace = sxx + syy;
+      const minEigen = trace / 2 - Math.sqrt(Math.max(0, (trace * trace) / 4 - det));
+      if (minEigen < MIN_FLOW_EIGEN) continue;
+
+      const u = (-syy * sxt + sxy * syt) / det;
+      const v = (sxy * sxt - sxx * syt) / det;
+      vectors.push({ x: x * scale, y: y * scale, dx: u * scale, dy: v * scale });
+    }
+  }
+
+  return vectors;
+}
+
+export function createMotionAnalyzer(overrides: Partial<MotionConfig> = {}) {
+  const config = { ...DEFAULT_CONFIG, ...overrides };
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  let previous: Float32Array | null = null;
+  let energy: Float32Array | null = null;
+  let cols = 0;
+  let rows = 0;
+
+  return {
+    // boxes are [x, y, width, height] in source-video pixels
+    analyze(input: HTMLVideoElement | HTMLCanvasElement, boxes: number[][] = []): MotionFrame {
+      const sourceWidth = input instanceof HTMLVideoElement ? input.videoWidth : input.width;
+      const sourceHeight = input instanceof HTMLVideoElement ? input.videoHeight : input.height;
+      const nextCols = config.width;
+      const nextRows = Math.max(1, Math.round(config.width * sourceHeight / Math.max(1, sourceWidth)));
+
+      // A new source size invalidates the previous frame
+      if (nextCols !== cols || nextRows !== rows) {
+        cols = nextCols;
+        rows = nextRows;
+        canvas.width = cols;
+        canvas.height = rows;
+        previous = null;
+        energy = new Float32Array(cols * rows);
+      }
+
+      const empty: MotionFrame = {
+        global: 0,
+        boxes: boxes.map(() => 0),
+        energy: { cols, rows, cells: energy!.slice(), max: 0 },
+        flow: []
+      };
+      if (!ctx || !sourceWidth || !sourceHeight) return empty;
+
+      ctx.drawImage(input, 0, 0, cols, rows);
+      const current = toGray(ctx.getImageData(0, 0, cols, rows).data, cols * rows);
+      const last = previous;
+      previous = current;
+      if (!last) return empty;
+
+      const moving = new Uint8Array(cols * rows);
+      let movingCount = 0;
+      let max = 0;
+      for (let i = 0; i < current.length; i++) {
+        const diff = Math.abs(current[i] - last[i]);
+        if (diff > config.threshold) {
+          moving[i] = 1;
+          movingCount++;
+        }
+        energy![i] = energy![i] * config.decay + (moving[i] ? diff / 255 : 0);
+        max = Math.max(max, energy![i]);
+      }
+
+      const scale = sourceWidth / cols;
+      const boxIntensity = boxes.map(([x, y, width, height]) => {
+        const left = Math.max(0, Math.floor(x / scale));
+        const top = Math.max(0, Math.floor(y / scale));
+        const right = Math.min(cols, Math.ceil((x + width) / scale));
+        const bottom = Math.min(rows, Math.ceil((y + height) / scale));
+        let count = 0;
+        let total = 0;
+        for (let by = top; by < bottom; by++) {
+          for (let bx = left; bx < right; bx++) {
+            count += moving[by * cols + bx];
+            total++;
+          }
+        }
+        return total > 0 ? count / total : 0;
+      });
+
+      return {
+        global: movingCount / current.length,
+        boxes: boxIntensity,
+        energy: { cols, rows, cells: energy!.slice(), max },
+        flow: config.flow ? sparseFlow(last, current, moving, cols, rows, config.flowStep, scale) : []
+      };
+    },
+
+    // Flow costs a window solve per moving grid point, so it only runs while something shows it
+    setFlow(enabled: boolean) {
+      config.flow = enabled;
+    },
+
+    reset() {
+      previous = null;
+      energy?.fill(0);
+    }
+  };
+}
+
+export type MotionAnalyzer = ReturnType<typeof createMotionAnalyzer>;
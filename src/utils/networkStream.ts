@@ -0,0 +1,587 @@
+// IP camera streams by URL: MJPEG over HTTP, HLS playlists and WebRTC through a WHEP endpoint.
+// Every protocol ends up playing in an ordinary video element, so detection, clips and
+// reports treat a network camera exactly like the webcam.
+export type StreamProtocol = 'mjpeg' | 'hls' | 'whep';
+
+export type NetworkStreamConfig = {
+  id: string;
+  url: string;
+  protocol: StreamProtocol;
+  label: string;
+};
+
+export type StreamState = 'connecting' | 'live' | 'reconnecting' | 'failed' | 'stopped';
+
+export type StreamStatus = {
+  state: StreamState;
+  attempt: number; // consecutive failed attempts, reset once the stream has been stable
+  retryAt: number | null; // when the next reconnection attempt starts
+  reconnects: number; // since the stream was opened
+  error: string | null;
+};
+
+export type StreamStats = {
+  fps: number;
+  bitrate: number | null; // bits per second; null when the protocol does not expose it
+  width: number;
+  height: number;
+  frames: number; // received on the current connection
+  uptime: number; // ms since the current connection went live
+};
+
+export type NetworkStream = ReturnType<typeof createNetworkStream>;
+
+// What a protocol hands back once the first frame is playing
+type Connection = {
+  sample: () => Promise<{ frames: number; bytes: number | null }>;
+  close: () => void;
+};
+
+type Connector = (
+  video: HTMLVideoElement,
+  url: string,
+  signal: AbortSignal,
+  fail: (error: Error) => void // reports a connection lost after it went live
+) => Promise<Connection>;
+
+export const STREAM_PROTOCOLS: { id: StreamProtocol; label: string }[] = [
+  { id: 'mjpeg', label: 'MJPEG over HTTP' },
+  { id: 'hls', label: 'HLS playlist (.m3u8)' },
+  { id: 'whep', label: 'WebRTC (WHEP endpoint)' }
+];
+
+const HISTORY_KEY = 'vision-lang-stream-history';
+const MAX_HISTORY = 5;
+const CONNECT_TIMEOUT = 15000;
+const STALL_TIMEOUT = 10000; // no new frames for this long counts as a dropped connection
+const STABLE_AFTER = 10000; // a connection live this long resets the backoff
+const BACKOFF_BASE = 1000;
+const BACKOFF_MAX = 30000;
+const MAX_ATTEMPTS = 10; // consecutive failures before giving up until the user retries
+const STATS_INTERVAL = 1000;
+const MAX_MJPEG_BUFFER = 8 * 1024 * 1024; // bytes without a complete JPEG before the stream is rejected
+const ICE_GATHERING_TIMEOUT = 2000;
+
+export function detectProtocol(url: string): StreamProtocol {
+  const { pathname } = new URL(url);
+  if (/\.m3u8$/i.test(pathname)) return 'hls';
+  if (/\/whep\/?$/i.test(pathname)) return 'whep';
+  return 'mjpeg';
+}
+
+export function streamSource(url: string, protocol: StreamProtocol | 'auto' = 'auto'): NetworkStreamConfig {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error('Enter a full stream URL, e.g. http://192.168.1.20:8080/video.mjpg');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Only http and https stream URLs can be opened in the browser. Put RTSP cameras behind a gateway such as MediaMTX.');
+  }
+
+  const resolved = protocol === 'auto' ? detectProtocol(parsed.href) : protocol;
+  return {
+    id: `stream-${resolved}-${parsed.href}`,
+    url: parsed.href,
+    protocol: resolved,
+    label: `${parsed.host}${parsed.pathname === '/' ? '' : parsed.pathname}`
+  };
+}
+
+export function loadStreamHistory(): NetworkStreamConfig[] {
+  try {
+    const stored = localStorage.getItem(HISTORY_KEY);
+    return stored ? JSON.parse(stored) as NetworkStreamConfig[] : [];
+  } catch (error) {
+    console.warn('Failed to load stream history:', error);
+    return [];
+  }
+}
+
+export function saveStreamHistory(config: NetworkStreamConfig): NetworkStreamConfig[] {
+  const history = [config, ...loadStreamHistory().filter(entry => entry.id !== config.id)].slice(0, MAX_HISTORY);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.warn('Failed to save stream history:', error);
+  }
+  return history;
+}
+
+function abortError(): DOMException {
+  return new DOMException('The connection attempt was cancelled', 'AbortError');
+}
+
+// Resolves once the video is actually showing frames
+function waitForPlayback(video: HTMLVideoElement, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('playing', onPlaying);
+      video.removeEventListener('error', onError);
+      signal.removeEventListener('abort', onAbort);
+    };
+    const onPlaying = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('The browser could not play this stream.'));
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    video.addEventListener('playing', onPlaying);
+    video.addEventListener('error', onError);
+    signal.addEventListener('abort', onAbort);
+    // A replaced source rejects the previous play(); the events above decide the outcome
+    video.play().catch(() => {});
+  });
+}
+
+function indexOfMarker(buffer: Uint8Array, marker: number, from: number): number {
+  for (let i = from; i < buffer.length - 1; i++) {
+    if (buffer[i] === 0xff && buffer[i + 1] === marker) return i;
+  }
+  return -1;
+}
+
+// Cameras send multipart/x-mixed-replace with one JPEG per part. The part headers vary by
+// vendor, so frames are cut at the JPEG start/end markers rather than by boundary string.
+const connectMjpeg: Connector = async (video, url, signal, fail) => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal, cache: 'no-store' });
+  } catch (error) {
+    if (signal.aborted) throw abortError();
+    console.error('MJPEG request error:', error);
+    throw new Error('Could not reach the stream. Check the URL and that the camera allows cross-origin requests (CORS).');
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`The camera answered ${response.status} ${response.statusText}`.trim());
+  }
+
+  const reader = response.body.getReader();
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not create a canvas to draw the stream on.');
+
+  let buffer = new Uint8Array(0);
+  let frames = 0;
+  let bytes = 0;
+  let decoding = false;
+  let closed = false;
+  let resolveFirstFrame: () => void = () => {};
+  let rejectFirstFrame: (error: Error) => void = () => {};
+  const firstFrame = new Promise<void>((resolve, reject) => {
+    resolveFirstFrame = resolve;
+    rejectFirstFrame = reject;
+  });
+
+  // Decoding is skipped while the previous frame is still being decoded, so a slow
+  // machine drops frames instead of falling further and further behind the camera
+  const showFrame = async (jpeg: Uint8Array) => {
+    if (decoding) return;
+    decoding = true;
+    try {
+      const bitmap = await createImageBitmap(new Blob([jpeg], { type: 'image/jpeg' }));
+      if (closed) {
+        bitmap.close();
+        return;
+      }
+      if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+      }
+      context.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      frames++;
+      if (frames === 1) resolveFirstFrame();
+    } catch (error) {
+      console.warn('Skipping an undecodable MJPEG frame:', error);
+    } finally {
+      decoding = false;
+    }
+  };
+
+  const pump = async () => {
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        bytes += value.length;
+
+        const joined = new Uint8Array(buffer.length + value.length);
+        joined.set(buffer);
+        joined.set(value, buffer.length);
+        buffer = joined;
+
+        let start = indexOfMarker(buffer, 0xd8, 0);
+        let end = start === -1 ? -1 : indexOfMarker(buffer, 0xd9, start + 2);
+        while (start !== -1 && end !== -1) {
+          showFrame(buffer.slice(start, end + 2));
+          buffer = buffer.slice(end + 2);
+          start = indexOfMarker(buffer, 0xd8, 0);
+          end = start === -1 ? -1 : indexOfMarker(buffer, 0xd9, start + 2);
+        }
+        if (buffer.length > MAX_MJPEG_BUFFER) {
+          throw new Error('This URL does not look like an MJPEG stream.');
+        }
+      }
+      if (!closed) {
+        const ended = new Error('The camera closed the stream.');
+        rejectFirstFrame(ended);
+        fail(ended);
+      }
+    } catch (error) {
+      if (closed) return;
+      const lost = error instanceof Error ? error : new Error('The stream connection was lost.');
+      rejectFirstFrame(lost);
+      fail(lost);
+    }
+  };
+  pump();
+
+  const close = () => {
+    closed = true;
+    reader.cancel().catch(() => {});
+    const stream = video.srcObject instanceof MediaStream ? video.srcObject : null;
+    stream?.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+  };
+
+  try {
+    await firstFrame;
+    video.srcObject = canvas.captureStream();
+    await waitForPlayback(video, signal);
+  } catch (error) {
+    close();
+    throw error;
+  }
+
+  return {
+    sample: async () => ({ frames, bytes }),
+    close
+  };
+};
+
+// Safari plays HLS natively; everywhere else hls.js feeds the playlist through Media Source Extensions
+const connectHls: Connector = async (video, url, signal, fail) => {
+  const onMediaError = () => fail(new Error('The HLS stream stopped playing.'));
+
+  if (video.canPlayType('application/vnd.apple.mpegurl')) {
+    // Without CORS mode the frames would taint every canvas detection draws them on
+    video.crossOrigin = 'anonymous';
+    video.src = url;
+    const close = () => {
+      video.removeEventListener('error', onMediaError);
+      video.removeAttribute('src');
+      video.removeAttribute('crossorigin');
+      video.load();
+    };
+    try {
+      await waitForPlayback(video, signal);
+    } catch (error) {
+      close();
+      throw error;
+    }
+    video.addEventListener('error', onMediaError);
+    return {
+      sample: async () => ({ frames: video.getVideoPlaybackQuality().totalVideoFrames, bytes: null }),
+      close
+    };
+  }
+
+  const { default: Hls } = await import('hls.js');
+  if (signal.aborted) throw abortError();
+  if (!Hls.isSupported()) {
+    throw new Error('This browser cannot play HLS streams.');
+  }
+
+  const hls = new Hls({ lowLatencyMode: true });
+  let bytes = 0;
+  let firstError: Error | null = null;
+  hls.on(Hls.Events.FRAG_LOADED, (_event, data) => {
+    bytes += data.payload.byteLength;
+  });
+  hls.on(Hls.Events.ERROR, (_event, data) => {
+    if (!data.fatal) return;
+    console.error('HLS error:', data.details, data.error);
+    const error = new Error(`The HLS stream failed (${data.details}).`);
+    if (firstError === null) firstError = error;
+    fail(error);
+  });
+
+  const close = () => {
+    hls.destroy();
+    video.removeAttribute('src');
+    video.load();
+  };
+
+  hls.loadSource(url);
+  hls.attachMedia(video);
+  try {
+    await waitForPlayback(video, signal);
+  } catch (error) {
+    close();
+    throw firstError ?? error;
+  }
+
+  return {
+    sample: async () => ({ frames: video.getVideoPlaybackQuality().totalVideoFrames, bytes }),
+    close
+  };
+};
+
+// WHEP sends one SDP offer per viewer; without trickle ICE the offer has to carry every candidate
+function waitForIceGathering(peer: RTCPeerConnection, signal: AbortSignal): Promise<void> {
+  if (peer.iceGatheringState === 'complete') return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      peer.removeEventListener('icegatheringstatechange', onChange);
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    const onChange = () => {
+      if (peer.iceGatheringState === 'complete') finish();
+    };
+    const onAbort = () => {
+      clearTimeout(timer);
+      peer.removeEventListener('icegatheringstatechange', onChange);
+      reject(abortError());
+    };
+    // Host candidates arrive almost at once; waiting longer only helps when STUN is unreachable anyway
+    const timer = setTimeout(finish, ICE_GATHERING_TIMEOUT);
+    peer.addEventListener('icegatheringstatechange', onChange);
+    signal.addEventListener('abort', onAbort);
+  });
+}
+
+const connectWhep: Connector = async (video, url, signal, fail) => {
+  const peer = new RTCPeerConnection();
+  peer.addTransceiver('video', { direction: 'recvonly' });
+  let resource: string | null = null;
+
+  peer.addEventListener('track', (event) => {
+    video.srcObject = event.streams[0] ?? new MediaStream([event.track]);
+  });
+
+  const close = () => {
+    peer.close();
+    video.srcObject = null;
+    // Tells the server to free the session; the endpoint must expose Location through CORS for this
+    if (resource) fetch(resource, { method: 'DELETE' }).catch(() => {});
+  };
+
+  try {
+    await peer.setLocalDescription(await peer.createOffer());
+    await waitForIceGathering(peer, signal);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/sdp' },
+        body: peer.localDescription?.sdp,
+        signal
+      });
+    } catch (error) {
+      if (signal.aborted) throw abortError();
+      console.error('WHEP request error:', error);
+      throw new Error('Could not reach the WHEP endpoint. Check the URL and that it allows cross-origin requests (CORS).');
+    }
+    if (!response.ok) {
+      throw new Error(`The WHEP endpoint answered ${response.status} ${response.statusText}`.trim());
+    }
+    const location = response.headers.get('Location');
+    if (location) resource = new URL(location, url).href;
+
+    await peer.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+    await waitForPlayback(video, signal);
+  } catch (error) {
+    close();
+    throw error;
+  }
+
+  peer.addEventListener('connectionstatechange', () => {
+    if (peer.connectionState === 'failed') fail(new Error('The WebRTC connection failed.'));
+  });
+
+  return {
+    sample: async () => {
+      let frames = 0;
+      let bytes = 0;
+      (await peer.getStats()).forEach(report => {
+        if (report.type === 'inbound-rtp' && report.kind === 'video') {
+          frames += report.framesDecoded ?? 0;
+          bytes += report.bytesReceived ?? 0;
+        }
+      });
+      return { frames, bytes };
+    },
+    close
+  };
+};
+
+const CONNECTORS: Record<StreamProtocol, Connector> = {
+  mjpeg: connectMjpeg,
+  hls: connectHls,
+  whep: connectWhep
+};
+
+// Full jitter keeps several cameras behind the same gateway from reconnecting in lockstep
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX, BACKOFF_BASE * 2 ** (attempt - 1));
+  return ceiling / 2 + Math.random() * ceiling / 2;
+}
+
+// Keeps one network stream playing in `video`, reconnecting with exponential backoff whenever
+// it drops, errors or stalls. State changes and once-a-second stats go to the callbacks.
+export function createNetworkStream(
+  video: HTMLVideoElement,
+  config: NetworkStreamConfig,
+  onStatus: (status: StreamStatus) => void,
+  onStats?: (stats: StreamStats) => void
+) {
+  let status: StreamStatus = { state: 'stopped', attempt: 0, retryAt: null, reconnects: 0, error: null };
+  let connection: Connection | null = null;
+  let controller: AbortController | null = null;
+  let session = 0; // bumped on every teardown so late callbacks from old attempts are ignored
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let statsTimer: ReturnType<typeof setInterval> | undefined;
+  let liveSince = 0;
+  let lastSample: { time: number; frames: number; bytes: number | null } | null = null;
+  let lastFrameAt = 0;
+
+  const setStatus = (changes: Partial<StreamStatus>) => {
+    status = { ...status, ...changes };
+    onStatus(status);
+  };
+
+  const teardown = () => {
+    session++;
+    clearTimeout(retryTimer);
+    clearInterval(statsTimer);
+    retryTimer = undefined;
+    statsTimer = undefined;
+    controller?.abort();
+    controller = null;
+    connection?.close();
+    connection = null;
+    lastSample = null;
+  };
+
+  const retry = (error: Error) => {
+    teardown();
+    const attempt = status.attempt + 1;
+    if (attempt > MAX_ATTEMPTS) {
+      setStatus({ state: 'failed', attempt, retryAt: null, error: error.message });
+      return;
+    }
+    const delay = backoffDelay(attempt);
+    setStatus({
+      state: 'reconnecting',
+      attempt,
+      retryAt: Date.now() + delay,
+      reconnects: status.reconnects + 1,
+      error: error.message
+    });
+    retryTimer = setTimeout(open, delay);
+  };
+
+  const sampleStats = async (current: Connection, id: number) => {
+    let sample: { frames: number; bytes: number | null };
+    try {
+      sample = await current.sample();
+    } catch (error) {
+      console.warn('Failed to read stream stats:', error);
+      return;
+    }
+    if (id !== session) return;
+
+    const now = Date.now();
+    if (!lastSample || sample.frames !== lastSample.frames) lastFrameAt = now;
+    if (now - lastFrameAt > STALL_TIMEOUT) {
+      retry(new Error('The stream stopped sending frames.'));
+      return;
+    }
+    if (status.attempt > 0 && now - liveSince > STABLE_AFTER) setStatus({ attempt: 0 });
+
+    if (onStats && lastSample) {
+      const seconds = (now - lastSample.time) / 1000;
+      onStats({
+        fps: Math.max(0, Math.round((sample.frames - lastSample.frames) / seconds * 10) / 10),
+        bitrate: sample.bytes !== null && lastSample.bytes !== null
+          ? Math.max(0, (sample.bytes - lastSample.bytes) * 8 / seconds)
+          : null,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        frames: sample.frames,
+        uptime: now - liveSince
+      });
+    }
+    lastSample = { time: now, ...sample };
+  };
+
+  const open = async () => {
+    teardown();
+    const id = session;
+    const attemptController = new AbortController();
+    controller = attemptController;
+    setStatus({ state: status.reconnects > 0 ? 'reconnecting' : 'connecting', retryAt: null });
+
+    const fail = (error: Error) => {
+      if (id === session) retry(error);
+    };
+    const timeout = setTimeout(() => fail(new Error('Timed out waiting for the first frame.')), CONNECT_TIMEOUT);
+
+    try {
+      const opened = await CONNECTORS[config.protocol](video, config.url, attemptController.signal, fail);
+      if (id !== session) {
+        opened.close();
+        return;
+      }
+      connection = opened;
+      liveSince = Date.now();
+      lastFrameAt = liveSince;
+      setStatus({ state: 'live', error: null });
+      statsTimer = setInterval(() => sampleStats(opened, id), STATS_INTERVAL);
+    } catch (error) {
+      if (id !== session) return;
+      console.error(`Error connecting to ${config.label}:`, error);
+      fail(error instanceof Error ? error : new Error('Could not connect to the stream.'));
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  return {
+    start() {
+      status = { state: 'stopped', attempt: 0, retryAt: null, reconnects: 0, error: null };
+      open();
+    },
+
+    // Connect again right away, e.g. from a retry button after the stream gave up
+    reconnect() {
+      setStatus({ attempt: 0, error: null });
+      open();
+    },
+
+    stop() {
+      teardown();
+      video.pause();
+      setStatus({ state: 'stopped', retryAt: null });
+    },
+
+    status: () => status
+  };
+}
+
+export function formatBitrate(bitsPerSecond: number): string {
+  if (bitsPerSecond >= 1e6) return `${(bitsPerSecond / 1e6).toFixed(1)} Mbps`;
+  return `${Math.round(bitsPerSecond / 1e3)} kbps`;
+}
@@ -1,4 +1,5 @@
 import OpenAI from 'openai';
+import { formatDuration } from './dwell';
 
 const createOpenAIClient = () => {
   const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
@@ -14,6 +15,12 @@ const createOpenAIClient = () => {
 
 const openai = createOpenAIClient();
 
+export const OPENAI_MODEL = 'gpt-4o';
+
+export function isOpenAIConfigured(): boolean {
+  return openai !== null;
+}
+
 const RATE_LIMIT = {
   tokensPerMin: 30000,
   currentTokens: 0,
@@ -98,6 +105,7 @@ export async function generateDetailedDescription(sceneData: {
     activity: string;
     movement: string;
     annotation?: {
+      gender?: string;
       ageRange?: string;
       expression?: string;
     };
@@ -148,7 +156,7 @@ export async function generateDetailedDescription(sceneData: {
               If there is anything concerning write that too. Report it like a journalist. No bullet points or bold words. (Within 100 to 150 words.)`;
 
         const response = await openai.chat.completions.create({
-          model: "gpt-4o",
+          model: OPENAI_MODEL,
           messages: [
             {
               role: "system",
@@ -193,6 +201,191 @@ export async function generateDetailedDescription(sceneData: {
   });
 }
 
+export type ChapterDescription = {
+  start: number; // ms into the video
+  end: number;
+  description: string;
+};
+
+// Text-only pass over the chapter descriptions, so the summary covers the whole timeline
+export async function summarizeVideoChapters(chapters: ChapterDescription[]): Promise<string> {
+  const timeline = chapters
+    .map(chapter => `[${formatDuration(chapter.start)}-${formatDuration(chapter.end)}] ${chapter.description}`)
+    .join('\n');
+  const basicSummary = chapters.length === 1
+    ? chapters[0].description
+    : `The video has ${chapters.length} distinct scenes. ${chapters.map(chapter => chapter.description.split('. ')[0]).join('. ')}.`;
+
+  if (!openai || chapters.length === 0) {
+    return basicSummary;
+  }
+
+  return new Promise((resolve) => {
+    const task = async () => {
+      try {
+        const response = await openai.chat.completions.create({
+          model: OPENAI_MODEL,
+          messages: [
+            {
+              role: "system",
+              content: `You summarize videos from timestamped scene descriptions. Write one paragraph describing what happens over the whole video, in order, mentioning notable changes between scenes. Report it like a journalist. No bullet points or bold words. (Within 80 to 120 words.)`
+            },
+            {
+              role: "user",
+              content: timeline
+            }
+          ],
+          max_tokens: 250,
+          temperature: 0.5
+        });
+
+        const summary = response.choices[0]?.message?.content || basicSummary;
+        RATE_LIMIT.currentTokens += Math.ceil((timeline.length + summary.length) / 3);
+        resolve(summary.trim());
+      } catch (error) {
+        console.error('GPT-4o API error:', error);
+        resolve(basicSummary);
+      }
+    };
+
+    RATE_LIMIT.queue.push({
+      task,
+      resolve,
+      retries: 0
+    });
+
+    processQueue().catch(console.error);
+  });
+}
+
+export type QuestionFrame = {
+  time: number; // ms into the video
+  image: string; // data URL
+};
+
+// Answers a free-form question from sampled frames plus the detection log, citing [m:ss] timestamps
+export async function answerVideoQuestion(
+  question: string,
+  frames: QuestionFrame[],
+  metadata: string
+): Promise<string> {
+  if (!openai) {
+    throw new Error('OpenAI API key not found. Choose another answer provider or add VITE_OPENAI_API_KEY.');
+  }
+
+  return new Promise((resolve) => {
+    const task = async () => {
+      try {
+        const response = await openai.chat.completions.create({
+          model: OPENAI_MODEL,
+          messages: [
+            {
+              role: "system",
+              content: `You answer questions about a video. You get frames sampled across the video, each labelled with its timestamp, and a detection log from an object detector and tracker. Base the answer only on this evidence. Cite every timestamp you rely on in the form [m:ss], exactly as labelled. If the evidence cannot answer the question, say so. Answer in at most 120 words, no bullet points or bold words.`
+            },
+            {
+              role: "user",
+              content: [
+                { type: "text", text: `Detection log:\n${metadata}` },
+                ...frames.flatMap(frame => [
+                  { type: "text" as const, text: `Frame at [${formatDuration(frame.time)}]` },
+                  {
+                    type: "image_url" as const,
+                    image_url: { url: `data:image/jpeg;base64,${convertDataURLToBase64(frame.image)}`, detail: "low" as const }
+                  }
+                ]),
+                { type: "text", text: `Question: ${question}` }
+              ]
+            }
+          ],
+          max_tokens: 300,
+          temperature: 0.2
+        });
+
+        const answer = response.choices[0]?.message?.content || "Unable to answer from this video.";
+        RATE_LIMIT.currentTokens += Math.ceil((metadata.length + answer.length) / 3) + frames.length * 85;
+        resolve(answer.trim());
+      } catch (error) {
+        console.error('GPT-4o API error:', error);
+        resolve(`Error answering question: ${error instanceof Error ? error.message : 'unknown error'}`);
+      }
+    };
+
+    RATE_LIMIT.queue.push({
+      task,
+      resolve,
+      retries: 0
+    });
+
+    processQueue().catch(console.error);
+  });
+}
+
+export type ChatTurn = {
+  role: 'user' | 'assistant';
+  content: string;
+};
+
+// Follow-up question about the live scene; earlier commentary and chat arrive as conversation history
+export async function answerSceneQuestion(
+  question: string,
+  frames: Array<{ label: string; image: string }>,
+  detections: string,
+  history: ChatTurn[]
+): Promise<string> {
+  if (!openai) {
+    return `I can only see the detections without an OpenAI API key. ${detections}`;
+  }
+
+  return new Promise((resolve) => {
+    const task = async () => {
+      try {
+        const response = await openai.chat.completions.create({
+          model: OPENAI_MODEL,
+          messages: [
+            {
+              role: "system",
+              content: `You are watching a live camera together with the user and answer their follow-up questions. Earlier messages are your own scene commentary and the conversation so far. With each question you get the latest frames, each labelled with when it was taken, and the current detections from an object detector and tracker, with positions as seen in the image. Prefer the newest frame, say when something is uncertain, and answer in at most 80 words. No bullet points or bold words.`
+            },
+            ...history,
+            {
+              role: "user",
+              content: [
+                { type: "text", text: `Current detections:\n${detections}` },
+                ...frames.flatMap(frame => [
+                  { type: "text" as const, text: `Frame (${frame.label})` },
+                  {
+                    type: "image_url" as const,
+                    image_url: { url: `data:image/jpeg;base64,${convertDataURLToBase64(frame.image)}` }
+                  }
+                ]),
+                { type: "text", text: question }
+              ]
+            }
+          ],
+          max_tokens: 200,
+          temperature: 0.3
+        });
+
+        const answer = response.choices[0]?.message?.content || "I couldn't answer that from the current view.";
+        RATE_LIMIT.currentTokens += Math.ceil((detections.length + answer.length + history.reduce((sum, turn) => sum + turn.content.length, 0)) / 3);
+        resolve(answer.trim());
+      } catch (error) {
+        console.error('GPT-4o API error:', error);
+        resolve(`Error answering question: ${error instanceof Error ? error.message : 'unknown error'}`);
+      }
+    };
+
+    RATE_LIMIT.queue.push({
+      task,
+      resolve,
+      retries: 0
+    });
+
+    processQueue().catch(console.error);
+  });
+}
+
 function generateBasicDescription(sceneData: {
   people: Array<{
     pose: string;
@@ -200,6 +393,7 @@ function generateBasicDescription(sceneData: {
     activity: string;
     movement: string;
     annotation?: {
+      gender?: string;
       ageRange?: string;
       expression?: string;
     };
@@ -225,10 +419,11 @@ function generateBasicDescription(sceneData: {
   if (sceneData.people.length > 0) {
     sceneData.people.forEach(person => {
       const parts = [];
-      const age = person.annotation?.ageRange || 'unknown age';
-      const expression = person.annotation?.expression || 'neutral expression';
+      const gender = person.annotation?.gender || 'unknown gender';
+      const age = person.annotation?.ageRange ? `aged ${person.annotation.ageRange}` : 'unknown age';
+      const expression = person.annotation?.expression || 'unknown expression';
       
-      parts.push(`A person (${age}, ${expression}) is ${person.pose} ${person.position}`);
+      parts.push(`A person (${gender}, ${age}, ${expression}) is ${person.pose} ${person.position}`);
       if (person.movement !== 'staying still') {
         parts.push(`they are ${person.movement}`);
       }
@@ -0,0 +1,339 @@
+import { renderHeatmapGrid, type OccupancySnapshot } from './analytics';
+import type { FlowVector } from './motion';
+import { drawSkeleton, type Pose } from './pose';
+import { ZONE_COLORS, type Point, type Zone } from './zones';
+
+// Matches the CSS object-fit of the video the overlay sits on
+export type OverlayFit = 'contain' | 'cover' | 'fill';
+
+// Where the video's pixels land inside the overlay element, in CSS pixels
+export type OverlayView = {
+  width: number;
+  height: number;
+  videoWidth: number;
+  videoHeight: number;
+  scaleX: number;
+  scaleY: number;
+  offsetX: number;
+  offsetY: number;
+  mirrored: boolean;
+};
+
+export type OverlayLayer = (ctx: CanvasRenderingContext2D, view: OverlayView) => void;
+
+export type OverlayBox = {
+  bbox: number[]; // [x, y, width, height] in source pixels
+  color: string;
+  fill?: string;
+  lineWidth?: number;
+};
+
+export type OverlayLabel = {
+  bbox: number[];
+  text: string;
+  color: string; // background
+  placement?: 'above' | 'inside-bottom';
+};
+
+export type OverlayBanner = {
+  text: string;
+  color: string;
+};
+
+export type Trail = {
+  id: number;
+  points: Point[];
+};
+
+const LABEL_FONT = '12px ui-sans-serif, system-ui, sans-serif';
+const LABEL_HEIGHT = 20;
+const LINE_HEIGHT = 16;
+const LABEL_PADDING = 6;
+const TRAIL_COLOR = '#a78bfa';
+const FLOW_COLOR = '#facc15';
+const FLOW_ARROW_SCALE = 4; // per-frame flow is a few pixels, so arrows are drawn this many times longer
+const MIN_FLOW_LENGTH = 0.5; // source pixels per frame; shorter vectors are noise
+
+export function computeOverlayView(
+  width: number,
+  height: number,
+  videoWidth: number,
+  videoHeight: number,
+  fit: OverlayFit = 'contain',
+  mirrored = false
+): OverlayView {
+  if (fit === 'fill') {
+    return {
+      width, height, videoWidth, videoHeight, mirrored,
+      scaleX: width / videoWidth,
+      scaleY: height / videoHeight,
+      offsetX: 0,
+      offsetY: 0
+    };
+  }
+
+  const scale = fit === 'contain'
+    ? Math.min(width / videoWidth, height / videoHeight)
+    : Math.max(width / videoWidth, height / videoHeight);
+  return {
+    width, height, videoWidth, videoHeight, mirrored,
+    scaleX: scale,
+    scaleY: scale,
+    offsetX: (width - videoWidth * scale) / 2,
+    offsetY: (height - videoHeight * scale) / 2
+  };
+}
+
+export function toViewPoint(view: OverlayView, x: number, y: number): Point {
+  const sourceX = view.mirrored ? view.videoWidth - x : x;
+  return {
+    x: sourceX * view.scaleX + view.offsetX,
+    y: y * view.scaleY + view.offsetY
+  };
+}
+
+// Mirroring moves the box's left edge, so the rect is rebuilt from its far corner
+export function toViewRect(view: OverlayView, bbox: number[]): [number, number, number, number] {
+  const [x, y, width, height] = bbox;
+  const left = toViewPoint(view, view.mirrored ? x + width : x, y);
+  return [left.x, left.y, width * view.scaleX, height * view.scaleY];
+}
+
+// Sizes the backing store for the device pixel ratio and draws layers in order, each in isolation
+export function renderOverlay(
+  canvas: HTMLCanvasElement,
+  view: OverlayView,
+  layers: OverlayLayer[],
+  pixelRatio: number = window.devicePixelRatio || 1
+) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const width = Math.round(view.width * pixelRatio);
+  const height = Math.round(view.height * pixelRatio);
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  ctx.clearRect(0, 0, view.width, view.height);
+  if (!view.videoWidth || !view.videoHeight) return;
+  drawLayers(ctx, view, layers);
+}
+
+// Also used on its own to burn layers into exported video frames
+export function drawLayers(ctx: CanvasRenderingContext2D, view: OverlayView, layers: OverlayLayer[]) {
+  for (const layer of layers) {
+    ctx.save();
+    layer(ctx, view);
+    ctx.restore();
+  }
+}
+
+export function boxLayer(boxes: OverlayBox[]): OverlayLayer {
+  return (ctx, view) => {
+    for (const box of boxes) {
+      const [x, y, width, height] = toViewRect(view, box.bbox);
+      ctx.beginPath();
+      ctx.roundRect(x, y, width, height, 6);
+      if (box.fill) {
+        ctx.fillStyle = box.fill;
+        ctx.fill();
+      }
+      ctx.lineWidth = box.lineWidth ?? 2;
+      ctx.strokeStyle = box.color;
+      ctx.stroke();
+    }
+  };
+}
+
+// Text is laid out in screen space so it stays readable when the video is mirrored;
+// multi-line labels split on newlines and grow upwards from the box
+export function labelLayer(labels: OverlayLabel[]): OverlayLayer {
+  return (ctx, view) => {
+    ctx.font = LABEL_FONT;
+    ctx.textBaseline = 'middle';
+
+    for (const label of labels) {
+      const [x, y, , height] = toViewRect(view, label.bbox);
+      const lines = label.text.split('\n');
+      const width = Math.max(...lines.map(line => ctx.measureText(line).width)) + LABEL_PADDING * 2;
+      const boxHeight = LABEL_HEIGHT + (lines.length - 1) * LINE_HEIGHT;
+      const top = label.placement === 'inside-bottom'
+        ? y + height - boxHeight - 4
+        : y - boxHeight - 4 >= 0 ? y - boxHeight - 4 : y + 4;
+      const left = Math.min(Math.max(0, label.placement === 'inside-bottom' ? x + 4 : x), view.width - width);
+
+      ctx.fillStyle = label.color;
+      ctx.beginPath();
+      ctx.roundRect(left, top, width, boxHeight, 6);
+      ctx.fill();
+      ctx.fillStyle = 'white';
+      lines.forEach((line, index) => {
+        ctx.fillText(line, left + LABEL_PADDING, top + LABEL_HEIGHT / 2 + index * LINE_HEIGHT);
+      });
+    }
+  };
+}
+
+export function keypointLayer(poses: Pose[], color?: string): OverlayLayer {
+  return (ctx, view) => {
+    for (const pose of poses) {
+      drawSkeleton(ctx, pose, (x, y) => toViewPoint(view, x, y), color);
+    }
+  };
+}
+
+// Loose points such as face landmarks
+export function landmarkLayer(points: Point[], color = '#00ff00', radius = 2): OverlayLayer {
+  return (ctx, view) => {
+    ctx.fillStyle = color;
+    for (const point of points) {
+      const { x, y } = toViewPoint(view, point.x, point.y);
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+}
+
+export function zoneLayer(zones: Zone[], activeZoneIds: string[] = []): OverlayLayer {
+  return (ctx, view) => {
+    ctx.font = `bold ${LABEL_FONT}`;
+
+    for (const zone of zones) {
+      if (zone.points.length === 0) continue;
+      const color = zone.color || ZONE_COLORS[0];
+      const points = zone.points.map(point => toViewPoint(view, point.x, point.y));
+
+      ctx.beginPath();
+      points.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+      ctx.strokeStyle = color;
+      if (zone.kind === 'polygon') {
+        ctx.closePath();
+        ctx.fillStyle = color;
+        ctx.globalAlpha = activeZoneIds.includes(zone.id) ? 0.35 : 0.15;
+        ctx.fill();
+        ctx.globalAlpha = 1;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([]);
+      } else {
+        ctx.lineWidth = 3;
+        ctx.setLineDash(zone.direction === 'both' ? [] : [12, 6]);
+      }
+      ctx.stroke();
+
+      ctx.fillStyle = color;
+      ctx.fillText(zone.name, points[0].x + 4, points[0].y - 6);
+    }
+  };
+}
+
+// Older segments fade out so the direction of travel reads at a glance
+export function trailLayer(trails: Trail[], color = TRAIL_COLOR): OverlayLayer {
+  return (ctx, view) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+
+    for (const trail of trails) {
+      const points = trail.points.map(point => toViewPoint(view, point.x, point.y));
+      for (let i = 1; i < points.length; i++) {
+        ctx.globalAlpha = i / points.length;
+        ctx.beginPath();
+        ctx.moveTo(points[i - 1].x, points[i - 1].y);
+        ctx.lineTo(points[i].x, points[i].y);
+        ctx.stroke();
+      }
+    }
+  };
+}
+
+// Optical flow as arrows pointing the way each moving patch travelled
+export function flowLayer(vectors: FlowVector[], color = FLOW_COLOR): OverlayLayer {
+  return (ctx, view) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.lineCap = 'round';
+
+    for (const vector of vectors) {
+      if (Math.hypot(vector.dx, vector.dy) < MIN_FLOW_LENGTH) continue;
+      const from = toViewPoint(view, vector.x, vector.y);
+      const to = toViewPoint(view, vector.x + vector.dx * FLOW_ARROW_SCALE, vector.y + vector.dy * FLOW_ARROW_SCALE);
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.lineTo(to.x - 4 * Math.cos(angle - Math.PI / 6), to.y - 4 * Math.sin(angle - Math.PI / 6));
+      ctx.moveTo(to.x, to.y);
+      ctx.lineTo(to.x - 4 * Math.cos(angle + Math.PI / 6), to.y - 4 * Math.sin(angle + Math.PI / 6));
+      ctx.stroke();
+    }
+  };
+}
+
+export function heatmapLayer(heatmap: OccupancySnapshot['heatmap'], opacity?: number): OverlayLayer {
+  const grid = renderHeatmapGrid(heatmap, opacity);
+  return (ctx, view) => {
+    if (!grid) return;
+    const [x, y, width, height] = toViewRect(view, [0, 0, view.videoWidth, view.videoHeight]);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    if (view.mirrored) {
+      ctx.translate(x + width, y);
+      ctx.scale(-1, 1);
+      ctx.drawImage(grid, 0, 0, width, height);
+    } else {
+      ctx.drawImage(grid, x, y, width, height);
+    }
+  };
+}
+
+// Frame-level messages stacked in the top-right corner of the visible video area
+export function alertLayer(banners: OverlayBanner[]): OverlayLayer {
+  return (ctx, view) => {
+    ctx.font = `bold ${LABEL_FONT}`;
+    ctx.textBaseline = 'middle';
+    const [videoX, videoY, videoWidth] = toViewRect(view, [0, 0, view.videoWidth, view.videoHeight]);
+    const right = Math.min(view.width, videoX + videoWidth) - 8;
+    let top = Math.max(0, videoY) + 8;
+
+    for (const banner of banners) {
+      const width = ctx.measureText(banner.text).width + LABEL_PADDING * 2;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.beginPath();
+      ctx.roundRect(right - width, top, width, LABEL_HEIGHT + 4, 6);
+      ctx.fill();
+      ctx.fillStyle = banner.color;
+      ctx.fillText(banner.text, right - width + LABEL_PADDING, top + (LABEL_HEIGHT + 4) / 2);
+      top += LABEL_HEIGHT + 8;
+    }
+  };
+}
+
+// Recent box centres per track, for the trail layer
+export function createTrails(maxPoints = 30) {
+  let trails = new Map<number, Point[]>();
+
+  return {
+    update(tracks: Array<{ trackId?: number; bbox: number[] }>) {
+      const next = new Map<number, Point[]>();
+      for (const { trackId, bbox } of tracks) {
+        if (trackId === undefined) continue;
+        const center = { x: bbox[0] + bbox[2] / 2, y: bbox[1] + bbox[3] / 2 };
+        next.set(trackId, [...(trails.get(trackId) ?? []), center].slice(-maxPoints));
+      }
+      // Tracks that left the frame drop their trail
+      trails = next;
+    },
+
+    list(): Trail[] {
+      return Array.from(trails, ([id, points]) => ({ id, points }));
+    },
+
+    reset() {
+      trails = new Map();
+    }
+  };
+}
+
+export type Trails = ReturnType<typeof createTrails>;
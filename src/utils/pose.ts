@@ -0,0 +1,256 @@
+import * as tf from '@tensorflow/tfjs';
+
+// MoveNet SinglePose Lightning, served from public/models so it works offline
+export const POSE_MODEL_URL = `${import.meta.env.BASE_URL}models/movenet-lightning.json`;
+
+const INPUT_SIZE = 192;
+const CROP_PADDING = 0.2;
+const MAX_POSES = 6; // Single-pose model runs once per person, so cap the cost per frame
+const MIN_KEYPOINT_SCORE = 0.3;
+const FEATURE_STALE_AFTER = 2000; // ms before a track's previous pose is too old to difference
+
+export const KEYPOINT_NAMES = [
+  'nose', 'left_eye', 'right_eye', 'left_ear', 'right_ear',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow',
+  'left_wrist', 'right_wrist', 'left_hip', 'right_hip',
+  'left_knee', 'right_knee', 'left_ankle', 'right_ankle'
+] as const;
+
+export type KeypointName = typeof KEYPOINT_NAMES[number];
+
+export type Keypoint = {
+  name: KeypointName;
+  x: number; // source-video pixels
+  y: number;
+  score: number;
+};
+
+export type Pose = {
+  keypoints: Keypoint[];
+  score: number; // mean keypoint score
+};
+
+export const SKELETON_EDGES: Array<[KeypointName, KeypointName]> = [
+  ['left_shoulder', 'right_shoulder'],
+  ['left_shoulder', 'left_elbow'], ['left_elbow', 'left_wrist'],
+  ['right_shoulder', 'right_elbow'], ['right_elbow', 'right_wrist'],
+  ['left_shoulder', 'left_hip'], ['right_shoulder', 'right_hip'],
+  ['left_hip', 'right_hip'],
+  ['left_hip', 'left_knee'], ['left_knee', 'left_ankle'],
+  ['right_hip', 'right_knee'], ['right_knee', 'right_ankle'],
+  ['nose', 'left_eye'], ['nose', 'right_eye'],
+  ['left_eye', 'left_ear'], ['right_eye', 'right_ear']
+];
+
+// Snake case so these line up with the other per-frame training features
+export type PoseFeatureKey = 'limb_velocity' | 'arm_raise';
+export type PoseFeatures = Record<PoseFeatureKey, number>;
+
+export const POSE_FEATURE_KEYS: PoseFeatureKey[] = ['limb_velocity', 'arm_raise'];
+
+let poseModelPromise: Promise<tf.GraphModel> | null = null;
+
+export function loadPoseModel(): Promise<tf.GraphModel> {
+  if (!poseModelPromise) {
+    poseModelPromise = tf.loadGraphModel(POSE_MODEL_URL).catch(error => {
+      // Allow a later call to retry instead of caching the failure
+      poseModelPromise = null;
+      throw error;
+    });
+  }
+  return poseModelPromise;
+}
+
+// Square crop around the person so the model sees an undistorted body
+function cropSquare(bbox: number[]) {
+  const [x, y, width, height] = bbox;
+  const side = Math.max(width, height) * (1 + CROP_PADDING);
+  return { left: x + width / 2 - side / 2, top: y + height / 2 - side / 2, side };
+}
+
+// Runs the pose model on each person box and returns one pose per box (null past the cap or on failure)
+export async function estimatePoses(
+  input: HTMLVideoElement | HTMLCanvasElement | HTMLImageElement,
+  personBoxes: number[][]
+): Promise<Array<Pose | null>> {
+  if (personBoxes.length === 0) return [];
+
+  let model: tf.GraphModel;
+  try {
+    model = await loadPoseModel();
+  } catch (error) {
+    console.warn('Pose estimation unavailable:', error);
+    return personBoxes.map(() => null);
+  }
+
+  // No instanceof here: HTMLVideoElement does not exist inside a worker
+  const frameWidth = 'videoWidth' in input ? input.videoWidth : input.width;
+  const frameHeight = 'videoWidth' in input ? input.videoHeight : input.height;
+  if (!frameWidth || !frameHeight) return personBoxes.map(() => null);
+
+  const crops = personBoxes.slice(0, MAX_POSES).map(cropSquare);
+  const results: Array<Pose | null> = personBoxes.map(() => null);
+
+  try {
+    const batch = tf.tidy(() => {
+      const frame = tf.browser.fromPixels(input).toFloat().expandDims(0) as tf.Tensor4D;
+      const boxes = crops.map(({ left, top, side }) => [
+        top / frameHeight,
+        left / frameWidth,
+        (top + side) / frameHeight,
+        (left + side) / frameWidth
+      ]);
+      return tf.image.cropAndResize(frame, boxes, crops.map(() => 0), [INPUT_SIZE, INPUT_SIZE]).toInt();
+    });
+
+    try {
+      for (let i = 0; i < crops.length; i++) {
+        const output = tf.tidy(() => model.execute(batch.slice([i, 0, 0, 0], [1, -1, -1, -1])) as tf.Tensor);
+        const values = await output.data().finally(() => output.dispose());
+
+        // Output is [1, 1, 17, 3] of (y, x, score) normalised to the crop
+        const { left, top, side } = crops[i];
+        const keypoints = KEYPOINT_NAMES.map((name, k) => ({
+          name,
+          y: top + values[k * 3] * side,
+          x: left + values[k * 3 + 1] * side,
+          score: values[k * 3 + 2]
+        }));
+        results[i] = {
+          keypoints,
+          score: keypoints.reduce((sum, kp) => sum + kp.score, 0) / keypoints.length
+        };
+      }
+    } finally {
+      batch.dispose();
+    }
+  } catch (error) {
+    console.warn('Pose estimation error:', error);
+  }
+
+  return results;
+}
+
+function keypoint(pose: Pose, name: KeypointName): Keypoint | undefined {
+  const match = pose.keypoints.find(kp => kp.name === name);
+  return match && match.score >= MIN_KEYPOINT_SCORE ? match : undefined;
+}
+
+function midpoint(a?: Keypoint, b?: Keypoint) {
+  if (a && b) return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  return a ?? b;
+}
+
+// Lean of the shoulder-to-hip line in degrees from vertical (0 standing, 90 lying) and the
+// point halfway along it, or null when neither shoulders nor hips are visible
+export function torsoAxis(pose: Pose): { angle: number; center: { x: number; y: number } } | null {
+  const shoulders = midpoint(keypoint(pose, 'left_shoulder'), keypoint(pose, 'right_shoulder'));
+  const hips = midpoint(keypoint(pose, 'left_hip'), keypoint(pose, 'right_hip'));
+  if (!shoulders || !hips) return null;
+  return {
+    angle: (Math.atan2(Math.abs(hips.x - shoulders.x), Math.abs(hips.y - shoulders.y)) * 180) / Math.PI,
+    center: { x: (shoulders.x + hips.x) / 2, y: (shoulders.y + hips.y) / 2 }
+  };
+}
+
+// 0 with hands at or below the shoulders, 1 with a wrist a full torso length above them
+function armRaise(pose: Pose, bodyHeight: number): number {
+  const shoulders = midpoint(keypoint(pose, 'left_shoulder'), keypoint(pose, 'right_shoulder'));
+  const hips = midpoint(keypoint(pose, 'left_hip'), keypoint(pose, 'right_hip'));
+  const torso = shoulders && hips ? Math.abs(hips.y - shoulders.y) : bodyHeight * 0.3;
+  if (torso <= 0) return 0;
+
+  return Math.max(0, ...(['left', 'right'] as const).map(side => {
+    const shoulder = keypoint(pose, `${side}_shoulder`);
+    const wrist = keypoint(pose, `${side}_wrist`);
+    if (!shoulder || !wrist) return 0;
+    return Math.min(1, Math.max(0, (shoulder.y - wrist.y) / torso));
+  }));
+}
+
+// Per-track pose history, differenced into limb velocity relative to the body's own movement
+export function createPoseFeatureTracker() {
+  const previous = new Map<number, { pose: Pose; time: number }>();
+
+  return {
+    update(trackId: number, pose: Pose, bbox: number[], time: number = Date.now()): PoseFeatures {
+      const bodyHeight = Math.max(1, bbox[3]);
+      const last = previous.get(trackId);
+      previous.set(trackId, { pose, time });
+
+      let limbVelocity = 0;
+      const elapsed = last ? (time - last.time) / 1000 : 0;
+      if (last && elapsed > 0 && time - last.time <= FEATURE_STALE_AFTER) {
+        const hips = midpoint(keypoint(pose, 'left_hip'), keypoint(pose, 'right_hip'));
+        const lastHips = midpoint(keypoint(last.pose, 'left_hip'), keypoint(last.pose, 'right_hip'));
+        const bodyShift = hips && lastHips ? { x: hips.x - lastHips.x, y: hips.y - lastHips.y } : { x: 0, y: 0 };
+
+        for (const name of ['left_wrist', 'right_wrist', 'left_ankle', 'right_ankle'] as const) {
+          const current = keypoint(pose, name);
+          const before = keypoint(last.pose, name);
+          if (!current || !before) continue;
+
+          const distance = Math.hypot(current.x - before.x - bodyShift.x, current.y - before.y - bodyShift.y);
+          limbVelocity = Math.max(limbVelocity, distance / bodyHeight / elapsed);
+        }
+      }
+
+      for (const [id, entry] of previous.entries()) {
+        if (time - entry.time > FEATURE_STALE_AFTER) previous.delete(id);
+      }
+
+      return {
+        limb_velocity: limbVelocity, // body heights per second
+        arm_raise: armRaise(pose, bodyHeight)
+      };
+    },
+
+    reset() {
+      previous.clear();
+    }
+  };
+}
+
+export type PoseFeatureTracker = ReturnType<typeof createPoseFeatureTracker>;
+
+export function visibleKeypoints(pose: Pose): Keypoint[] {
+  return pose.keypoints.filter(kp => kp.score >= MIN_KEYPOINT_SCORE);
+}
+
+export function visibleEdges(pose: Pose): Array<[Keypoint, Keypoint]> {
+  return SKELETON_EDGES.flatMap(([from, to]) => {
+    const a = keypoint(pose, from);
+    const b = keypoint(pose, to);
+    return a && b ? [[a, b] as [Keypoint, Keypoint]] : [];
+  });
+}
+
+// Draws a skeleton onto a 2D canvas; map converts source-video pixels to canvas pixels
+export function drawSkeleton(
+  ctx: CanvasRenderingContext2D,
+  pose: Pose,
+  map: (x: number, y: number) => { x: number; y: number },
+  color = '#22d3ee'
+) {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+
+  for (const [a, b] of visibleEdges(pose)) {
+    const start = map(a.x, a.y);
+    const end = map(b.x, b.y);
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+  }
+
+  for (const kp of visibleKeypoints(pose)) {
+    const point = map(kp.x, kp.y);
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, 3, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+}
@@ -0,0 +1,198 @@
+import { getActiveDetector } from './detectors';
+import { inferFrameFaces, inferPersonFaces } from './inferenceClient';
+import type { Zone } from './zones';
+
+export type RedactionPolicy = 'off' | 'faces' | 'people' | 'outside-zone';
+export type RedactionStyle = 'blur' | 'pixelate';
+
+export type RedactionInput = HTMLVideoElement | HTMLCanvasElement;
+
+export type RedactionSettings = {
+  policy: RedactionPolicy;
+  style: RedactionStyle;
+  zoneId: string | null; // outside-zone only; null keeps every polygon zone visible
+};
+
+export const REDACTION_POLICIES: Array<{ id: RedactionPolicy; label: string; description: string }> = [
+  { id: 'off', label: 'Off', description: 'Frames are sent as captured' },
+  { id: 'faces', label: 'Faces', description: 'Faces are hidden, or the head when no face is found' },
+  { id: 'people', label: 'People', description: 'Every detected person is hidden' },
+  { id: 'outside-zone', label: 'Outside zone', description: 'Only the inside of a zone is visible' }
+];
+
+export const REDACTION_STYLES: Array<{ id: RedactionStyle; label: string }> = [
+  { id: 'blur', label: 'Blur' },
+  { id: 'pixelate', label: 'Pixelate' }
+];
+
+const STORAGE_KEY = 'vision-lang-redaction';
+// Faces are hidden unless someone opts out; frames are sent to a third-party API
+const DEFAULT_SETTINGS: RedactionSettings = { policy: 'faces', style: 'blur', zoneId: null };
+const HEAD_FRACTION = 0.3; // top share of a person box treated as the head when no face is found
+const BOX_PADDING = 0.15;
+export const PERSON_PADDING = 0.05; // person boxes already include some margin
+const FACE_SEARCH = { minScore: 0.3, maxResults: 20 };
+
+export function loadRedactionSettings(): RedactionSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) as Partial<RedactionSettings> } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.warn('Failed to load redaction settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveRedactionSettings(settings: RedactionSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save redaction settings:', error);
+  }
+}
+
+// Every outgoing frame goes through captureFrame, so the policy is module state rather than a parameter.
+// Zones differ per source and are passed with each frame instead.
+let activeSettings = loadRedactionSettings();
+
+export function getRedactionSettings(): RedactionSettings {
+  return activeSettings;
+}
+
+export function setRedactionSettings(settings: RedactionSettings) {
+  activeSettings = settings;
+  saveRedactionSettings(settings);
+}
+
+export function describeRedaction(settings: RedactionSettings): string {
+  const verb = settings.style === 'blur' ? 'blurred' : 'pixelated';
+  switch (settings.policy) {
+    case 'faces': return `Faces ${verb}`;
+    case 'people': return `People ${verb}`;
+    case 'outside-zone': return `Outside zone ${verb}`;
+    default: return 'Unredacted';
+  }
+}
+
+export function padRegion(bbox: number[], amount = BOX_PADDING): number[] {
+  const [x, y, width, height] = bbox;
+  return [x - width * amount, y - height * amount, width * (1 + amount * 2), height * (1 + amount * 2)];
+}
+
+function contains(outer: number[], inner: number[]): boolean {
+  const cx = inner[0] + inner[2] / 2;
+  const cy = inner[1] + inner[3] / 2;
+  return cx >= outer[0] && cx <= outer[0] + outer[2] && cy >= outer[1] && cy <= outer[1] + outer[3];
+}
+
+// Face boxes from the whole frame and from each person crop; a person with no face found
+// still has their head hidden, so a turned-away or blurry face is never sent by mistake
+export async function findFaceRegions(input: RedactionInput, personBoxes: number[][]): Promise<number[][]> {
+  const [frameFaces, personFaces] = await Promise.all([
+    inferFrameFaces(input, FACE_SEARCH),
+    inferPersonFaces(input, personBoxes)
+  ]);
+  const faces = [
+    ...frameFaces.map(({ detection: { box } }) => [box.x, box.y, box.width, box.height]),
+    ...personFaces.flatMap(face => face ? [face.faceBox] : [])
+  ];
+  const heads = personBoxes
+    .filter(person => !faces.some(face => contains(person, face)))
+    .map(([x, y, width, height]) => [x, y, width, height * HEAD_FRACTION]);
+  return [...faces, ...heads].map(box => padRegion(box));
+}
+
+// Padded boxes to hide for the faces or people policy, in source pixels
+export async function findRedactionRegions(
+  input: RedactionInput,
+  policy: 'faces' | 'people'
+): Promise<number[][]> {
+  const detector = await getActiveDetector();
+  const people = (await detector.detect(input))
+    .filter(detection => detection.class === 'person')
+    .map(detection => detection.bbox);
+  return policy === 'people' ? people.map(box => padRegion(box, PERSON_PADDING)) : findFaceRegions(input, people);
+}
+
+function obscuredCopy(canvas: HTMLCanvasElement, style: RedactionStyle): HTMLCanvasElement {
+  const copy = document.createElement('canvas');
+  copy.width = canvas.width;
+  copy.height = canvas.height;
+  const ctx = copy.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const strength = Math.max(8, Math.round(canvas.width / 40));
+  // Canvas filters are missing in some browsers; pixelation works everywhere
+  if (style === 'blur' && 'filter' in ctx) {
+    ctx.filter = `blur(${strength}px)`;
+    ctx.drawImage(canvas, 0, 0);
+    return copy;
+  }
+
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.ceil(canvas.width / strength));
+  small.height = Math.max(1, Math.ceil(canvas.height / strength));
+  small.getContext('2d')?.drawImage(canvas, 0, 0, small.width, small.height);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, canvas.width, canvas.height);
+  return copy;
+}
+
+// Blurs or pixelates the given boxes of a canvas in place
+export function obscureRegions(canvas: HTMLCanvasElement, regions: number[][], style: RedactionStyle) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || regions.length === 0) return;
+  const obscured = obscuredCopy(canvas, style);
+
+  ctx.save();
+  ctx.beginPath();
+  regions.forEach(([x, y, width, height]) => ctx.rect(x, y, width, height));
+  ctx.clip();
+  ctx.drawImage(obscured, 0, 0);
+  ctx.restore();
+}
+
+// Hides everything except the polygon zones, or the whole frame when there are none
+function obscureOutsideZones(canvas: HTMLCanvasElement, zones: Zone[], style: RedactionStyle) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  const obscured = obscuredCopy(canvas, style);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, canvas.width, canvas.height);
+  for (const zone of zones) {
+    zone.points.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+  }
+  ctx.clip('evenodd');
+  ctx.drawImage(obscured, 0, 0);
+  ctx.restore();
+}
+
+// Redacts a full-resolution frame in place according to the active policy. zones are the frame's
+// own source's; a source without zones, like an upload or a grid tile, is hidden whole by outside-zone.
+// Throws if detection fails, so callers drop the frame instead of sending it unredacted.
+export async function redactFrame(
+  canvas: HTMLCanvasElement,
+  zones: Zone[] = [],
+  settings: RedactionSettings = activeSettings
+) {
+  if (settings.policy === 'off') return;
+
+  if (settings.policy === 'outside-zone') {
+    obscureOutsideZones(canvas, zones.filter(zone =>
+      zone.kind === 'polygon' && zone.points.length >= 3 && (!settings.zoneId || zone.id === settings.zoneId)
+    ), settings.style);
+    return;
+  }
+
+  let regions: number[][];
+  try {
+    regions = await findRedactionRegions(canvas, settings.policy);
+  } catch (error) {
+    console.error('Error finding regions to redact:', error);
+    throw new Error('Could not redact the frame, so it was not sent.');
+  }
+  obscureRegions(canvas, regions, settings.style);
+}
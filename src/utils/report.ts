@@ -0,0 +1,424 @@
+import { getActiveDetectorId, listDetectors } from './detectors';
+import { loadRules, type AlertEvent, type AlertSeverity } from './alertRules';
+import { renderHeatmapGrid, type OccupancySnapshot } from './analytics';
+import { formatDuration } from './dwell';
+import { isOpenAIConfigured, OPENAI_MODEL } from './openai';
+import { describeRedaction, getRedactionSettings, redactFrame } from './redaction';
+import { loadQuestionProvider, QUESTION_PROVIDERS } from './videoQuestions';
+import type { NarrationSettings } from './scheduler';
+import type { VideoTimeline } from './videoTimeline';
+import type { Zone } from './zones';
+
+export type ReportFormat = 'html' | 'markdown' | 'print';
+
+export const REPORT_FORMATS: Array<{ id: ReportFormat; label: string }> = [
+  { id: 'html', label: 'HTML file' },
+  { id: 'markdown', label: 'Markdown file' },
+  { id: 'print', label: 'Print / save as PDF' }
+];
+
+export type ReportEntry = {
+  time: number; // Date.now()
+  role: 'user' | 'assistant';
+  text: string;
+  thumbnail?: string | null; // data URL of the frame that was described
+};
+
+export type ReportInput = {
+  mode: 'camera' | 'upload';
+  sourceName: string;
+  entries: ReportEntry[];
+  alerts: AlertEvent[];
+  occupancy: OccupancySnapshot | null;
+  timeline: VideoTimeline | null;
+  narration: NarrationSettings;
+  videoElement?: HTMLVideoElement | null; // background for the heatmap
+  redactionZones?: Zone[]; // the source's zones, for redacting that background
+};
+
+type AlertStats = {
+  total: number;
+  bySeverity: Record<AlertSeverity, number>;
+  byRule: Array<{ name: string; count: number; first: number; last: number }>;
+};
+
+export type SessionReport = Omit<ReportInput, 'videoElement' | 'redactionZones'> & {
+  title: string;
+  generatedAt: number;
+  start: number | null;
+  end: number | null;
+  settings: Array<[string, string]>;
+  alertStats: AlertStats;
+  occupancyChart: string | null; // SVG markup
+  heatmapImage: string | null; // PNG data URL
+};
+
+const IMAGE_WIDTH = 640;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = { top: 12, right: 12, bottom: 28, left: 36 };
+const SEVERITIES: AlertSeverity[] = ['danger', 'warning', 'info'];
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Markdown table cells cannot hold pipes or line breaks
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n+/g, ' ');
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString();
+}
+
+// Occupancy samples are wall-clock for the camera and video time for uploads
+function formatSampleTime(time: number, mode: ReportInput['mode']): string {
+  return mode === 'camera' ? formatTime(time) : formatDuration(time);
+}
+
+function collectSettings(input: ReportInput): Array<[string, string]> {
+  const detector = listDetectors().find(option => option.id === getActiveDetectorId());
+  const provider = QUESTION_PROVIDERS.find(option => option.id === loadQuestionProvider());
+  const { narrationInterval, narrateOnEvents } = input.narration;
+  const cadence = narrationInterval > 0 ? `Every ${narrationInterval / 1000} s` : 'No routine narration';
+  const rules = loadRules();
+
+  return [
+    ['Source', input.mode === 'camera' ? `Live camera (${input.sourceName})` : `Uploaded video: ${input.sourceName}`],
+    ['Object detector', detector?.label ?? getActiveDetectorId()],
+    ['Commentary model', `OpenAI ${OPENAI_MODEL}${isOpenAIConfigured() ? '' : ' (no API key configured)'}`],
+    ['Video questions', provider?.label ?? 'OpenAI'],
+    ['Narration', narrateOnEvents ? `${cadence}, and on alerts and zone events` : cadence],
+    ['Frames sent to OpenAI', describeRedaction(getRedactionSettings())],
+    ['Alert rules', `${rules.filter(rule => rule.enabled).length} of ${rules.length} enabled`]
+  ];
+}
+
+function computeAlertStats(alerts: AlertEvent[]): AlertStats {
+  const bySeverity: Record<AlertSeverity, number> = { danger: 0, warning: 0, info: 0 };
+  const byRule = new Map<string, AlertStats['byRule'][number]>();
+
+  for (const alert of alerts) {
+    bySeverity[alert.severity]++;
+    const entry = byRule.get(alert.ruleId);
+    if (entry) {
+      entry.count++;
+      entry.first = Math.min(entry.first, alert.timestamp);
+      entry.last = Math.max(entry.last, alert.timestamp);
+    } else {
+      byRule.set(alert.ruleId, { name: alert.ruleName, count: 1, first: alert.timestamp, last: alert.timestamp });
+    }
+  }
+
+  return {
+    total: alerts.length,
+    bySeverity,
+    byRule: Array.from(byRule.values()).sort((a, b) => b.count - a.count)
+  };
+}
+
+// A plain SVG line chart, so the report needs no script to show it and prints crisply
+function renderOccupancyChart(snapshot: OccupancySnapshot, mode: ReportInput['mode']): string | null {
+  const { series } = snapshot;
+  if (series.length < 2) return null;
+
+  const width = IMAGE_WIDTH;
+  const height = CHART_HEIGHT;
+  const plotWidth = width - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = height - CHART_PADDING.top - CHART_PADDING.bottom;
+  const start = series[0].time;
+  const span = Math.max(1, series[series.length - 1].time - start);
+  const maxCount = Math.max(1, snapshot.peak);
+
+  const x = (time: number) => CHART_PADDING.left + ((time - start) / span) * plotWidth;
+  const y = (count: number) => CHART_PADDING.top + plotHeight - (count / maxCount) * plotHeight;
+  const points = series.map(sample => `${x(sample.time).toFixed(1)},${y(sample.count).toFixed(1)}`).join(' ');
+  const bottom = CHART_PADDING.top + plotHeight;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="11">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<line x1="${CHART_PADDING.left}" y1="${bottom}" x2="${width - CHART_PADDING.right}" y2="${bottom}" stroke="#9ca3af"/>`,
+    `<line x1="${CHART_PADDING.left}" y1="${CHART_PADDING.top}" x2="${CHART_PADDING.left}" y2="${bottom}" stroke="#9ca3af"/>`,
+    `<text x="${CHART_PADDING.left - 6}" y="${CHART_PADDING.top + 4}" text-anchor="end" fill="#6b7280">${maxCount}</text>`,
+    `<text x="${CHART_PADDING.left - 6}" y="${bottom}" text-anchor="end" fill="#6b7280">0</text>`,
+    `<text x="${CHART_PADDING.left}" y="${height - 8}" fill="#6b7280">${escapeHtml(formatSampleTime(start, mode))}</text>`,
+    `<text x="${width - CHART_PADDING.right}" y="${height - 8}" text-anchor="end" fill="#6b7280">${escapeHtml(formatSampleTime(start + span, mode))}</text>`,
+    `<polyline points="${points}" fill="none" stroke="rgb(53, 162, 235)" stroke-width="2" stroke-linejoin="round"/>`,
+    '</svg>'
+  ].join('');
+}
+
+// The heatmap over the current frame, redacted the same way frames sent to OpenAI are;
+// a frame that cannot be redacted is left out and the heatmap is drawn on grey
+async function renderHeatmapImage(
+  snapshot: OccupancySnapshot,
+  videoElement?: HTMLVideoElement | null,
+  redactionZones: Zone[] = []
+): Promise<string | null> {
+  if (snapshot.heatmap.max <= 0) return null;
+  const grid = renderHeatmapGrid(snapshot.heatmap, 0.8);
+  if (!grid) return null;
+
+  const hasFrame = !!videoElement && videoElement.readyState >= 2 && videoElement.videoWidth > 0;
+  const aspect = hasFrame ? videoElement.videoHeight / videoElement.videoWidth : snapshot.heatmap.rows / snapshot.heatmap.cols;
+  const canvas = document.createElement('canvas');
+  canvas.width = IMAGE_WIDTH;
+  canvas.height = Math.round(IMAGE_WIDTH * aspect);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.fillStyle = '#e5e7eb';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  if (hasFrame) {
+    const frame = document.createElement('canvas');
+    frame.width = videoElement.videoWidth;
+    frame.height = videoElement.videoHeight;
+    frame.getContext('2d')?.drawImage(videoElement, 0, 0);
+    try {
+      await redactFrame(frame, redactionZones);
+      ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+    } catch (error) {
+      console.warn('Heatmap background left out of the report:', error);
+    }
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(grid, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+export async function buildSessionReport(input: ReportInput): Promise<SessionReport> {
+  const { videoElement, redactionZones, ...rest } = input;
+  const times = [
+    ...input.entries.map(entry => entry.time),
+    ...input.alerts.map(alert => alert.timestamp)
+  ];
+
+  return {
+    ...rest,
+    title: input.mode === 'camera' ? 'Monitoring session report' : `Video analysis report: ${input.sourceName}`,
+    generatedAt: Date.now(),
+    start: times.length > 0 ? Math.min(...times) : null,
+    end: times.length > 0 ? Math.max(...times) : null,
+    settings: collectSettings(input),
+    alertStats: computeAlertStats(input.alerts),
+    occupancyChart: input.occupancy ? renderOccupancyChart(input.occupancy, input.mode) : null,
+    heatmapImage: input.occupancy ? await renderHeatmapImage(input.occupancy, videoElement, redactionZones) : null
+  };
+}
+
+const REPORT_STYLES = `
+  body { font-family: ui-sans-serif, system-ui, sans-serif; color: #111827; max-width: 960px; margin: 0 auto; padding: 32px; line-height: 1.5; }
+  h1 { font-size: 24px; margin-bottom: 4px; }
+  h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  .muted { color: #6b7280; font-size: 13px; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { color: #6b7280; font-weight: 600; }
+  .stats { display: flex; gap: 12px; flex-wrap: wrap; }
+  .stat { border: 1px solid #e5e7eb; border-radius: 8px; padding: 8px 16px; min-width: 96px; }
+  .stat strong { display: block; font-size: 22px; }
+  .danger { color: #dc2626; } .warning { color: #b45309; } .info { color: #2563eb; }
+  .entry { display: flex; gap: 12px; padding: 10px 0; border-bottom: 1px solid #f3f4f6; }
+  .entry img { width: 200px; border-radius: 6px; flex-shrink: 0; }
+  .entry time { color: #6b7280; font-size: 12px; display: block; }
+  .entry.user p { font-style: italic; }
+  .chart { max-width: 100%; height: auto; border: 1px solid #e5e7eb; border-radius: 8px; }
+  @media print {
+    body { padding: 0; max-width: none; font-size: 12px; }
+    h2 { break-after: avoid; }
+    .entry, tr, .stat, figure { break-inside: avoid; }
+    .entry img { width: 160px; }
+    a { color: inherit; text-decoration: none; }
+  }
+  @page { margin: 16mm; }
+`;
+
+export function renderHtmlReport(report: SessionReport): string {
+  const { alertStats } = report;
+  const period = report.start !== null && report.end !== null
+    ? `${new Date(report.start).toLocaleString()} – ${formatTime(report.end)} (${formatDuration(report.end - report.start)})`
+    : 'No activity recorded';
+
+  const sections = [
+    `<h1>${escapeHtml(report.title)}</h1>`,
+    `<p class="muted">${escapeHtml(period)} • generated ${escapeHtml(new Date(report.generatedAt).toLocaleString())}</p>`,
+
+    '<h2>Settings</h2>',
+    `<table>${report.settings.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`
+  ];
+
+  if (report.timeline) {
+    sections.push(
+      '<h2>Summary</h2>',
+      `<p>${escapeHtml(report.timeline.summary)}</p>`,
+      '<h2>Chapters</h2>',
+      ...report.timeline.chapters.map(chapter => `
+        <div class="entry">
+          ${chapter.thumbnail ? `<img src="${chapter.thumbnail}" alt="">` : ''}
+          <div>
+            <time>${formatDuration(chapter.start)} – ${formatDuration(chapter.end)}</time>
+            <p>${escapeHtml(chapter.description)}</p>
+          </div>
+        </div>`)
+    );
+  }
+
+  sections.push(
+    '<h2>Alerts</h2>',
+    `<div class="stats">
+      <div class="stat"><strong>${alertStats.total}</strong>Total</div>
+      ${SEVERITIES.map(severity => `<div class="stat ${severity}"><strong>${alertStats.bySeverity[severity]}</strong>${severity}</div>`).join('')}
+    </div>`,
+    alertStats.byRule.length > 0
+      ? `<table>
+          <tr><th>Rule</th><th>Count</th><th>First</th><th>Last</th></tr>
+          ${alertStats.byRule.map(rule => `<tr><td>${escapeHtml(rule.name)}</td><td>${rule.count}</td><td>${formatTime(rule.first)}</td><td>${formatTime(rule.last)}</td></tr>`).join('')}
+        </table>`
+      : '<p class="muted">No alerts were raised.</p>'
+  );
+
+  if (report.occupancy) {
+    sections.push(
+      '<h2>Occupancy</h2>',
+      `<div class="stats">
+        <div class="stat"><strong>${report.occupancy.peak}</strong>Peak${report.occupancy.peakTime !== null ? ` at ${escapeHtml(formatSampleTime(report.occupancy.peakTime, report.mode))}` : ''}</div>
+        <div class="stat"><strong>${report.occupancy.average.toFixed(1)}</strong>Average</div>
+      </div>`,
+      report.occupancyChart ? `<figure>${report.occupancyChart.replace('<svg ', '<svg class="chart" ')}</figure>` : '',
+      report.heatmapImage ? `<figure><img class="chart" src="${report.heatmapImage}" alt="Foot-traffic heatmap"><figcaption class="muted">Where people spent time</figcaption></figure>` : ''
+    );
+  }
+
+  sections.push(
+    '<h2>Timeline</h2>',
+    report.entries.length > 0
+      ? report.entries.map(entry => `
+        <div class="entry ${entry.role}">
+          ${entry.thumbnail ? `<img src="${entry.thumbnail}" alt="">` : ''}
+          <div>
+            <time>${formatTime(entry.time)}${entry.role === 'user' ? ' • question' : ''}</time>
+            <p>${escapeHtml(entry.text)}</p>
+          </div>
+        </div>`).join('')
+      : '<p class="muted">No commentary was recorded.</p>'
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+export function renderMarkdownReport(report: SessionReport): string {
+  const { alertStats } = report;
+  const lines = [`# ${report.title}`, ''];
+
+  if (report.start !== null && report.end !== null) {
+    lines.push(`${new Date(report.start).toLocaleString()} – ${formatTime(report.end)} (${formatDuration(report.end - report.start)})  `);
+  }
+  lines.push(`Generated ${new Date(report.generatedAt).toLocaleString()}`, '', '## Settings', '', '| Setting | Value |', '| --- | --- |');
+  report.settings.forEach(([label, value]) => lines.push(`| ${escapeCell(label)} | ${escapeCell(value)} |`));
+
+  if (report.timeline) {
+    lines.push('', '## Summary', '', report.timeline.summary, '', '## Chapters', '');
+    report.timeline.chapters.forEach(chapter => {
+      lines.push(`### ${formatDuration(chapter.start)} – ${formatDuration(chapter.end)}`, '');
+      if (chapter.thumbnail) lines.push(`![](${chapter.thumbnail})`, '');
+      lines.push(chapter.description, '');
+    });
+  }
+
+  lines.push(
+    '', '## Alerts', '',
+    `${alertStats.total} total: ${SEVERITIES.map(severity => `${alertStats.bySeverity[severity]} ${severity}`).join(', ')}`,
+    ''
+  );
+  if (alertStats.byRule.length > 0) {
+    lines.push('| Rule | Count | First | Last |', '| --- | --- | --- | --- |');
+    alertStats.byRule.forEach(rule => {
+      lines.push(`| ${escapeCell(rule.name)} | ${rule.count} | ${formatTime(rule.first)} | ${formatTime(rule.last)} |`);
+    });
+  }
+
+  if (report.occupancy) {
+    const peakAt = report.occupancy.peakTime !== null ? ` at ${formatSampleTime(report.occupancy.peakTime, report.mode)}` : '';
+    lines.push('', '## Occupancy', '', `Peak ${report.occupancy.peak}${peakAt}, average ${report.occupancy.average.toFixed(1)}`, '');
+    if (report.occupancyChart) lines.push(`![Occupancy over time](data:image/svg+xml;base64,${toBase64(report.occupancyChart)})`, '');
+    if (report.heatmapImage) lines.push(`![Foot-traffic heatmap](${report.heatmapImage})`, '');
+  }
+
+  lines.push('', '## Timeline', '');
+  if (report.entries.length === 0) lines.push('No commentary was recorded.');
+  report.entries.forEach(entry => {
+    lines.push(`**${formatTime(entry.time)}**${entry.role === 'user' ? ' (question)' : ''}`, '');
+    if (entry.thumbnail) lines.push(`![](${entry.thumbnail})`, '');
+    lines.push(entry.role === 'user' ? `> ${entry.text}` : entry.text, '');
+  });
+
+  return lines.join('\n');
+}
+
+function reportFileName(report: SessionReport, extension: string): string {
+  const stamp = new Date(report.generatedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  const base = report.mode === 'camera' ? 'session' : report.sourceName.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '_') || 'video';
+  return `${base}-report-${stamp}.${extension}`;
+}
+
+function downloadText(text: string, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadReport(report: SessionReport, format: Exclude<ReportFormat, 'print'>) {
+  if (format === 'markdown') {
+    downloadText(renderMarkdownReport(report), 'text/markdown', reportFileName(report, 'md'));
+  } else {
+    downloadText(renderHtmlReport(report), 'text/html', reportFileName(report, 'html'));
+  }
+}
+
+// Writes the HTML report into a window the caller opened during the click, so pop-up
+// blockers allow it; the print stylesheet takes care of page layout
+export function printReport(report: SessionReport, printWindow: Window) {
+  printWindow.document.open();
+  printWindow.document.write(renderHtmlReport(report));
+  printWindow.document.close();
+  // Some browsers have already fired load for a written document, others fire it later
+  let printed = false;
+  const print = () => {
+    if (printed) return;
+    printed = true;
+    printWindow.focus();
+    printWindow.print();
+  };
+  printWindow.addEventListener('load', print, { once: true });
+  if (printWindow.document.readyState === 'complete') print();
+}
@@ -0,0 +1,145 @@
+export type SceneChangeConfig = {
+  hashThreshold: number; // 0..64 differing bits of the frame hash that count as a visual change
+  maxUnchanged: number; // ms; narrate anyway after this long so the commentary never goes stale, 0 disables
+};
+
+export type SceneChange = {
+  changed: boolean;
+  reasons: string[]; // why the scene counts as changed, empty when unchanged
+  hashDistance: number; // differing bits against the last narrated frame
+  firstSkip: boolean; // first unchanged check since the last narration
+};
+
+type SceneSignature = {
+  hash: Uint8Array;
+  objects: Map<string, number>;
+  people: string[];
+  time: number;
+};
+
+// The parts of a detection summary the gate compares; live frames and offline samples both fit
+export type SceneSummary = {
+  people: Array<{ pose: string; activity: string; annotation: { alert?: { reason: string } } }>;
+  objects: string[];
+};
+
+const HASH_WIDTH = 9; // dHash compares neighbours, so one extra column yields 8 bits per row
+const HASH_HEIGHT = 8;
+
+const DEFAULT_CONFIG: SceneChangeConfig = {
+  hashThreshold: 10,
+  maxUnchanged: 120000
+};
+
+function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) distance++;
+  }
+  return distance;
+}
+
+function countObjects(objects: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  objects.forEach(name => counts.set(name, (counts.get(name) ?? 0) + 1));
+  return counts;
+}
+
+// Position is left out on purpose: someone walking across the frame is not a new scene
+function describePeople(scene: SceneSummary): string[] {
+  return scene.people
+    .map(person => [person.pose, person.activity, person.annotation.alert?.reason ?? ''].join('|'))
+    .sort();
+}
+
+function diffDetections(previous: SceneSignature, next: SceneSignature): string[] {
+  const reasons: string[] = [];
+
+  if (previous.people.length !== next.people.length) {
+    reasons.push(`people ${previous.people.length} → ${next.people.length}`);
+  } else if (previous.people.some((person, index) => person !== next.people[index])) {
+    reasons.push('pose or activity changed');
+  }
+
+  const names = new Set([...previous.objects.keys(), ...next.objects.keys()]);
+  names.forEach(name => {
+    const before = previous.objects.get(name) ?? 0;
+    const after = next.objects.get(name) ?? 0;
+    if (before === 0 && after > 0) reasons.push(`${name} appeared`);
+    else if (before > 0 && after === 0) reasons.push(`${name} left`);
+  });
+
+  return reasons;
+}
+
+// Perceptual hash plus detection diff against the last narrated frame, so the LLM only sees real changes
+export function createSceneChangeGate(overrides: Partial<SceneChangeConfig> = {}) {
+  const config = { ...DEFAULT_CONFIG, ...overrides };
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  let baseline: SceneSignature | null = null;
+  let skippedSinceNarration = 0;
+
+  const frameHash = (input: HTMLVideoElement | HTMLCanvasElement): Uint8Array => {
+    const hash = new Uint8Array((HASH_WIDTH - 1) * HASH_HEIGHT);
+    if (!ctx) return hash;
+
+    ctx.drawImage(input, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const gray = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    };
+
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        hash[y * (HASH_WIDTH - 1) + x] = gray(x, y) > gray(x + 1, y) ? 1 : 0;
+      }
+    }
+    return hash;
+  };
+
+  return {
+    // Checks the frame against the baseline; a changed frame becomes the new baseline
+    check(input: HTMLVideoElement | HTMLCanvasElement, scene: SceneSummary, time: number = Date.now()): SceneChange {
+      const next: SceneSignature = {
+        hash: frameHash(input),
+        objects: countObjects(scene.objects),
+        people: describePeople(scene),
+        time
+      };
+
+      if (!baseline) {
+        baseline = next;
+        skippedSinceNarration = 0;
+        return { changed: true, reasons: ['first frame'], hashDistance: 0, firstSkip: false };
+      }
+
+      const hashDistance = hammingDistance(baseline.hash, next.hash);
+      const reasons = diffDetections(baseline, next);
+      if (hashDistance > config.hashThreshold) reasons.push('view changed');
+      if (reasons.length === 0 && config.maxUnchanged > 0 && time - baseline.time >= config.maxUnchanged) {
+        reasons.push('periodic refresh');
+      }
+
+      if (reasons.length === 0) {
+        skippedSinceNarration++;
+        return { changed: false, reasons, hashDistance, firstSkip: skippedSinceNarration === 1 };
+      }
+
+      baseline = next;
+      skippedSinceNarration = 0;
+      return { changed: true, reasons, hashDistance, firstSkip: false };
+    },
+
+    reset() {
+      baseline = null;
+      skippedSinceNarration = 0;
+    }
+  };
+}
+
+export type SceneChangeGate = ReturnType<typeof createSceneChangeGate>;
@@ -0,0 +1,103 @@
+import { UNKNOWN_ATTRIBUTE } from './faceAnalysis';
+import { captureFrame, type FrameDetection } from './model';
+import { answerSceneQuestion, type ChatTurn } from './openai';
+import type { Zone } from './zones';
+
+export type RecentFrame = {
+  time: number; // Date.now() when captured
+  image: string; // data URL
+};
+
+const MAX_HISTORY_TURNS = 12; // earlier commentary and chat sent with each question
+const MAX_RECENT_FRAMES = 2; // narration frames kept alongside the one captured for the question
+
+// Keeps the last few narrated frames so a question can see how the scene developed
+export function createRecentFrames() {
+  let frames: RecentFrame[] = [];
+
+  return {
+    add(image: string, time: number = Date.now()) {
+      frames = [...frames, { time, image }].slice(-MAX_RECENT_FRAMES);
+    },
+
+    list(): RecentFrame[] {
+      return frames;
+    },
+
+    reset() {
+      frames = [];
+    }
+  };
+}
+
+export type RecentFrames = ReturnType<typeof createRecentFrames>;
+
+function horizontalPosition(x: number, width: number): string {
+  if (x < width / 3) return 'left';
+  if (x > (width * 2) / 3) return 'right';
+  return 'center';
+}
+
+function verticalPosition(y: number, height: number): string {
+  if (y < height / 3) return 'top';
+  if (y > (height * 2) / 3) return 'bottom';
+  return 'middle';
+}
+
+// One line per tracked object with a coarse position, so "the person on the left" can be resolved.
+// A mirrored preview swaps left and right, so positions follow what the user sees on screen.
+function describeDetection(detection: FrameDetection | null, width: number, height: number, mirrored: boolean): string {
+  if (!detection || detection.detections.length === 0) return 'Nothing detected.';
+
+  const lines = detection.detections.map(({ class: className, trackId, bbox, details }) => {
+    const [x, y, boxWidth, boxHeight] = bbox;
+    const centerX = mirrored ? width - (x + boxWidth / 2) : x + boxWidth / 2;
+    const position = `${verticalPosition(y + boxHeight / 2, height)} ${horizontalPosition(centerX, width)}`;
+    const size = Math.round((boxWidth * boxHeight * 100) / Math.max(1, width * height));
+    const attributes = details
+      ? [
+          details.pose,
+          details.movement,
+          details.annotation.gender,
+          details.annotation.ageRange,
+          details.annotation.expression,
+          details.annotation.alert?.reason
+        ].filter(value => value && value !== 'detected' && value !== UNKNOWN_ATTRIBUTE)
+      : [];
+    return `- ${className} #${trackId}: ${position}, ${size}% of the frame${attributes.length ? `, ${attributes.join(', ')}` : ''}`;
+  });
+
+  const alerts = detection.alerts.map(alert => `- alert: ${alert.message}`);
+  const note = mirrored ? ['(Positions are as the user sees a mirrored preview; the frames are not mirrored.)'] : [];
+  return [...note, ...lines, ...alerts].join('\n');
+}
+
+function frameLabel(time: number, now: number): string {
+  const seconds = Math.round((now - time) / 1000);
+  return seconds <= 0 ? 'now' : `${seconds}s ago`;
+}
+
+// Answers a follow-up question with the current frame, recent narration frames, detections and history
+export async function askAboutLiveScene(
+  question: string,
+  videoElement: HTMLVideoElement,
+  detection: FrameDetection | null,
+  recentFrames: RecentFrame[],
+  history: ChatTurn[],
+  mirrored = false,
+  redactionZones: Zone[] = []
+): Promise<string> {
+  const now = Date.now();
+  const current = await captureFrame(videoElement, redactionZones);
+  const frames = [
+    ...recentFrames.map(frame => ({ label: frameLabel(frame.time, now), image: frame.image })),
+    ...(current ? [{ label: 'now', image: current }] : [])
+  ];
+
+  return answerSceneQuestion(
+    question,
+    frames,
+    describeDetection(detection, videoElement.videoWidth, videoElement.videoHeight, mirrored),
+    history.slice(-MAX_HISTORY_TURNS)
+  );
+}
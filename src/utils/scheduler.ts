@@ -0,0 +1,286 @@
+export type SchedulerConfig = {
+  minFps: number;
+  maxFps: number;
+  targetLoad: number; // 0..1 share of wall time detection may use; the rest is left for rendering
+  narrationInterval: number; // ms between routine narrations; 0 narrates on events only
+  narrateOnEvents: boolean;
+  minNarrationGap: number; // ms between event-triggered narrations
+};
+
+export type SchedulerStats = {
+  targetFps: number;
+  detectionFps: number; // measured over the last second
+  detectionLatency: number; // ms, smoothed
+  narrationLatency: number; // ms, smoothed
+  narrationsPerMinute: number;
+  narrationsSkipped: number; // since start, narrations the task declined because nothing changed
+  narrationPending: boolean;
+  lastNarration: number | null;
+};
+
+export type SchedulerTasks<T> = {
+  detect: () => Promise<T>;
+  // Resolves false when the narration was skipped, e.g. because the scene had not changed
+  narrate: (result: T) => Promise<boolean | void>;
+  // Events such as alerts that deserve a narration before the next routine one
+  isEvent?: (result: T) => boolean;
+  onStats?: (stats: SchedulerStats) => void;
+};
+
+export type NarrationSettings = Pick<SchedulerConfig, 'narrationInterval' | 'narrateOnEvents'>;
+
+const STORAGE_KEY = 'vision-lang-narration';
+const LATENCY_SMOOTHING = 0.2; // weight of the newest measurement
+const STATS_INTERVAL = 1000;
+
+const DEFAULT_CONFIG: SchedulerConfig = {
+  minFps: 1,
+  maxFps: 15,
+  targetLoad: 0.6,
+  narrationInterval: 10000,
+  narrateOnEvents: true,
+  minNarrationGap: 3000
+};
+
+export function loadNarrationSettings(): NarrationSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored
+      ? { ...pickNarration(DEFAULT_CONFIG), ...JSON.parse(stored) as Partial<NarrationSettings> }
+      : pickNarration(DEFAULT_CONFIG);
+  } catch (error) {
+    console.warn('Failed to load narration settings:', error);
+    return pickNarration(DEFAULT_CONFIG);
+  }
+}
+
+export function saveNarrationSettings(settings: NarrationSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save narration settings:', error);
+  }
+}
+
+function pickNarration({ narrationInterval, narrateOnEvents }: SchedulerConfig): NarrationSettings {
+  return { narrationInterval, narrateOnEvents };
+}
+
+function smooth(previous: number, next: number) {
+  return previous === 0 ? next : previous + (next - previous) * LATENCY_SMOOTHING;
+}
+
+// Runs detection as fast as latency allows and narration on its own cadence, never blocking detection
+export function createAnalysisScheduler(overrides: Partial<SchedulerConfig> = {}) {
+  let config: SchedulerConfig = { ...DEFAULT_CONFIG, ...overrides };
+  let running = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let statsTimer: ReturnType<typeof setInterval> | undefined;
+  let generation = 0;
+
+  let detectionLatency = 0;
+  let narrationLatency = 0;
+  let detectionTimes: number[] = [];
+  let narrationTimes: number[] = [];
+  let narrationsSkipped = 0;
+  let narrationPending = false;
+  let lastNarration: number | null = null;
+  let narrationRequested = false;
+
+  const targetInterval = () => {
+    const byLatency = detectionLatency / config.targetLoad;
+    return Math.min(1000 / config.minFps, Math.max(1000 / config.maxFps, byLatency));
+  };
+
+  const stats = (): SchedulerStats => {
+    const now = performance.now();
+    detectionTimes = detectionTimes.filter(time => now - time < 1000);
+    narrationTimes = narrationTimes.filter(time => now - time < 60000);
+    return {
+      targetFps: 1000 / targetInterval(),
+      detectionFps: detectionTimes.length,
+      detectionLatency,
+      narrationLatency,
+      narrationsPerMinute: narrationTimes.length,
+      narrationsSkipped,
+      narrationPending,
+      lastNarration
+    };
+  };
+
+  return {
+    start<T>(tasks: SchedulerTasks<T>) {
+      this.stop();
+      running = true;
+      const run = ++generation;
+      lastNarration = null;
+
+      const narrate = async (result: T) => {
+        narrationPending = true;
+        const started = performance.now();
+        let narrated = true;
+        try {
+          narrated = await tasks.narrate(result) !== false;
+        } catch (error) {
+          console.error('Narration error:', error);
+        } finally {
+          narrationPending = false;
+          if (narrated) {
+            narrationLatency = smooth(narrationLatency, performance.now() - started);
+            narrationTimes.push(performance.now());
+          } else {
+            narrationsSkipped++;
+          }
+        }
+      };
+
+      const shouldNarrate = (result: T) => {
+        if (narrationPending) return false;
+        const now = Date.now();
+        const sinceLast = lastNarration === null ? Infinity : now - lastNarration;
+
+        if (narrationRequested) return true;
+        if (config.narrationInterval > 0 && sinceLast >= config.narrationInterval) return true;
+        return config.narrateOnEvents && sinceLast >= config.minNarrationGap && !!tasks.isEvent?.(result);
+      };
+
+      const tick = async () => {
+        if (!running || run !== generation) return;
+
+        const started = performance.now();
+        try {
+          const result = await tasks.detect();
+          if (!running || run !== generation) return;
+
+          detectionLatency = smooth(detectionLatency, performance.now() - started);
+          detectionTimes.push(performance.now());
+
+          if (shouldNarrate(result)) {
+            narrationRequested = false;
+            lastNarration = Date.now();
+            narrate(result);
+          }
+        } catch (error) {
+          console.error('Detection error:', error);
+        }
+
+        if (!running || run !== generation) return;
+        const elapsed = performance.now() - started;
+        timer = setTimeout(tick, Math.max(0, targetInterval() - elapsed));
+      };
+
+      if (tasks.onStats) {
+        const onStats = tasks.onStats;
+        statsTimer = setInterval(() => onStats(stats()), STATS_INTERVAL);
+      }
+      tick();
+    },
+
+    stop() {
+      running = false;
+      generation++;
+      if (timer) clearTimeout(timer);
+      if (statsTimer) clearInterval(statsTimer);
+      timer = undefined;
+      statsTimer = undefined;
+      detectionLatency = 0;
+      narrationLatency = 0;
+      detectionTimes = [];
+      narrationTimes = [];
+      narrationsSkipped = 0;
+      narrationRequested = false;
+    },
+
+    // Narrate after the next detection regardless of cadence
+    requestNarration() {
+      narrationRequested = true;
+    },
+
+    setConfig(changes: Partial<SchedulerConfig>) {
+      config = { ...config, ...changes };
+    },
+
+    getConfig(): SchedulerConfig {
+      return config;
+    },
+
+    stats,
+
+    isRunning(): boolean {
+      return running;
+    }
+  };
+}
+
+export type AnalysisScheduler = ReturnType<typeof createAnalysisScheduler>;
+
+export type NarrationSourceStats = {
+  sourceId: string;
+  served: number;
+  waiting: boolean;
+};
+
+type QueuedNarration = {
+  sourceId: string;
+  task: () => Promise<boolean | void>;
+  resolve: (narrated: boolean | void) => void;
+  reject: (error: unknown) => void;
+};
+
+const NARRATION_CONCURRENCY = 1; // hosted model calls in flight across all sources
+
+// Several live sources share one narration budget. The source served longest ago goes next,
+// so a busy camera cannot starve a quiet one; each scheduler keeps at most one request waiting.
+export function createNarrationQueue(concurrency = NARRATION_CONCURRENCY) {
+  let queue: QueuedNarration[] = [];
+  let running = 0;
+  const lastServed = new Map<string, number>();
+  const served = new Map<string, number>();
+
+  const next = () => {
+    while (running < concurrency && queue.length > 0) {
+      // Ties keep arrival order, since reduce only swaps for a strictly older source
+      const item = queue.reduce((oldest, candidate) =>
+        (lastServed.get(candidate.sourceId) ?? 0) < (lastServed.get(oldest.sourceId) ?? 0) ? candidate : oldest
+      );
+      queue = queue.filter(queued => queued !== item);
+      running++;
+      lastServed.set(item.sourceId, Date.now());
+      served.set(item.sourceId, (served.get(item.sourceId) ?? 0) + 1);
+
+      item.task()
+        .then(item.resolve, item.reject)
+        .finally(() => {
+          running--;
+          next();
+        });
+    }
+  };
+
+  return {
+    // Resolves with the task's result once it has had its turn
+    run(sourceId: string, task: () => Promise<boolean | void>): Promise<boolean | void> {
+      return new Promise((resolve, reject) => {
+        queue.push({ sourceId, task, resolve, reject });
+        next();
+      });
+    },
+
+    // Drops a source's waiting requests; they resolve as skipped
+    cancel(sourceId: string) {
+      queue.filter(item => item.sourceId === sourceId).forEach(item => item.resolve(false));
+      queue = queue.filter(item => item.sourceId !== sourceId);
+    },
+
+    stats(): NarrationSourceStats[] {
+      const sources = new Set([...served.keys(), ...queue.map(item => item.sourceId)]);
+      return Array.from(sources, sourceId => ({
+        sourceId,
+        served: served.get(sourceId) ?? 0,
+        waiting: queue.some(item => item.sourceId === sourceId)
+      }));
+    }
+  };
+}
+
+export type NarrationQueue = ReturnType<typeof createNarrationQueue>;
@@ -0,0 +1,231 @@
+export type TrackState = 'tentative' | 'confirmed' | 'coasting';
+
+export type TrackPoint = {
+  x: number;
+  y: number;
+  bbox: number[];
+  time: number;
+};
+
+export type Track = {
+  id: number;
+  class: string;
+  bbox: number[];
+  score: number;
+  state: TrackState;
+  hits: number;
+  misses: number;
+  firstSeen: number;
+  lastSeen: number;
+  velocity: { vx: number; vy: number }; // pixels per second
+  history: TrackPoint[];
+};
+
+export type TrackerConfig = {
+  iouThreshold: number;
+  maxCentroidDistance: number; // fallback association radius, as a fraction of box diagonal
+  minHits: number; // consecutive hits before a track is confirmed
+  maxCoastTime: number; // ms a confirmed track survives without detections
+  maxTentativeMisses: number;
+  historyDuration: number; // ms of positions kept per track
+  velocitySmoothing: number; // 0..1, weight of the newest measurement
+};
+
+export type TrackerDetection = {
+  bbox: number[];
+  class: string;
+  score: number;
+};
+
+// Other per-track state (zones, dwell) treats a track missing longer than this as gone
+export const TRACK_COAST_TIME = 1500;
+
+const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  iouThreshold: 0.3,
+  maxCentroidDistance: 0.75,
+  minHits: 3,
+  maxCoastTime: TRACK_COAST_TIME,
+  maxTentativeMisses: 2,
+  historyDuration: 10 * 60 * 1000,
+  velocitySmoothing: 0.5
+};
+
+const MAX_HISTORY_POINTS = 3000;
+
+function center(bbox: number[]) {
+  const [x, y, width, height] = bbox;
+  return { x: x + width / 2, y: y + height / 2 };
+}
+
+export function iou(a: number[], b: number[]): number {
+  const [ax, ay, aw, ah] = a;
+  const [bx, by, bw, bh] = b;
+  const ix = Math.max(0, Math.min(ax + aw, bx + bw) - Math.max(ax, bx));
+  const iy = Math.max(0, Math.min(ay + ah, by + bh) - Math.max(ay, by));
+  const intersection = ix * iy;
+  const union = aw * ah + bw * bh - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+// Project a track forward with its velocity so fast movers still overlap their next detection
+function predictBbox(track: Track, time: number): number[] {
+  const dt = (time - track.lastSeen) / 1000;
+  const [x, y, width, height] = track.bbox;
+  return [x + track.velocity.vx * dt, y + track.velocity.vy * dt, width, height];
+}
+
+// Lower is better; Infinity means the pair cannot be associated
+function associationCost(track: Track, detection: TrackerDetection, time: number, config: TrackerConfig): number {
+  if (track.class !== detection.class) return Infinity;
+
+  const predicted = predictBbox(track, time);
+  const overlap = iou(predicted, detection.bbox);
+  if (overlap >= config.iouThreshold) return 1 - overlap;
+
+  const a = center(predicted);
+  const b = center(detection.bbox);
+  const distance = Math.hypot(a.x - b.x, a.y - b.y);
+  const diagonal = Math.hypot(predicted[2], predicted[3]);
+  if (diagonal > 0 && distance / diagonal <= config.maxCentroidDistance) {
+    // Centroid matches always rank behind IoU matches
+    return 1 + distance / diagonal;
+  }
+
+  return Infinity;
+}
+
+export function createTracker(overrides: Partial<TrackerConfig> = {}) {
+  const config: TrackerConfig = { ...DEFAULT_TRACKER_CONFIG, ...overrides };
+  let tracks: Track[] = [];
+  let nextId = 1;
+
+  const birth = (detection: TrackerDetection, time: number): Track => {
+    const { x, y } = center(detection.bbox);
+    return {
+      id: nextId++,
+      class: detection.class,
+      bbox: detection.bbox,
+      score: detection.score,
+      state: config.minHits <= 1 ? 'confirmed' : 'tentative',
+      hits: 1,
+      misses: 0,
+      firstSeen: time,
+      lastSeen: time,
+      velocity: { vx: 0, vy: 0 },
+      history: [{ x, y, bbox: detection.bbox, time }]
+    };
+  };
+
+  const hit = (track: Track, detection: TrackerDetection, time: number) => {
+    const previous = center(track.bbox);
+    const current = center(detection.bbox);
+    const dt = (time - track.lastSeen) / 1000;
+
+    if (dt > 0) {
+      const alpha = config.velocitySmoothing;
+      track.velocity = {
+        vx: alpha * ((current.x - previous.x) / dt) + (1 - alpha) * track.velocity.vx,
+        vy: alpha * ((current.y - previous.y) / dt) + (1 - alpha) * track.velocity.vy
+      };
+    }
+
+    track.bbox = detection.bbox;
+    track.score = detection.score;
+    track.hits++;
+    track.misses = 0;
+    track.lastSeen = time;
+    if (track.state === 'coasting' || track.hits >= config.minHits) {
+      track.state = 'confirmed';
+    }
+
+    track.history.push({ ...current, bbox: detection.bbox, time });
+    while (
+      track.history.length > MAX_HISTORY_POINTS ||
+      (track.history.length > 1 && time - track.history[0].time > config.historyDuration)
+    ) {
+      track.history.shift();
+    }
+  };
+
+  // Returns false when the track should be removed
+  const miss = (track: Track, time: number): boolean => {
+    track.misses++;
+    if (track.state === 'tentative') {
+      return track.misses <= config.maxTentativeMisses;
+    }
+    track.state = 'coasting';
+    return time - track.lastSeen <= config.maxCoastTime;
+  };
+
+  return {
+    // Associates a frame's detections with existing tracks and returns the track id per detection
+    update(detections: TrackerDetection[], time: number = Date.now()): number[] {
+      const candidates: Array<{ trackIndex: number; detectionIndex: number; cost: number }> = [];
+      tracks.forEach((track, trackIndex) => {
+        detections.forEach((detection, detectionIndex) => {
+          const cost = associationCost(track, detection, time, config);
+          if (cost !== Infinity) {
+            candidates.push({ trackIndex, detectionIndex, cost });
+          }
+        });
+      });
+
+      // Greedy assignment by ascending cost
+      candidates.sort((a, b) => a.cost - b.cost);
+      const matchedTracks = new Set<number>();
+      const assignments = new Array<number>(detections.length).fill(-1);
+
+      for (const { trackIndex, detectionIndex } of candidates) {
+        if (matchedTracks.has(trackIndex) || assignments[detectionIndex] !== -1) continue;
+        matchedTracks.add(trackIndex);
+        assignments[detectionIndex] = trackIndex;
+        hit(tracks[trackIndex], detections[detectionIndex], time);
+      }
+
+      const survivors = tracks.filter((track, index) => matchedTracks.has(index) || miss(track, time));
+
+      const trackIds = detections.map((detection, detectionIndex) => {
+        const trackIndex = assignments[detectionIndex];
+        if (trackIndex !== -1) return tracks[trackIndex].id;
+
+        const track = birth(detection, time);
+        survivors.push(track);
+        return track.id;
+      });
+
+      tracks = survivors;
+      return trackIds;
+    },
+
+    getTrack(id: number): Track | undefined {
+      return tracks.find(track => track.id === id);
+    },
+
+    getTracks(options: { includeTentative?: boolean } = {}): Track[] {
+      return options.includeTentative
+        ? tracks
+        : tracks.filter(track => track.state !== 'tentative');
+    },
+
+    getHistory(id: number): TrackPoint[] {
+      return tracks.find(track => track.id === id)?.history ?? [];
+    },
+
+    getDwellTime(id: number, time: number = Date.now()): number {
+      const track = tracks.find(track => track.id === id);
+      return track ? Math.max(0, Math.min(time, track.lastSeen) - track.firstSeen) : 0;
+    },
+
+    getSpeed(id: number): number {
+      const track = tracks.find(track => track.id === id);
+      return track ? Math.hypot(track.velocity.vx, track.velocity.vy) : 0;
+    },
+
+    reset() {
+      tracks = [];
+      nextId = 1;
+    }
+  };
+}
+
+export type Tracker = ReturnType<typeof createTracker>;
@@ -1,5 +1,6 @@
 import * as tf from '@tensorflow/tfjs';
 import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import { POSE_FEATURE_KEYS } from './pose';
 
 // Define the structure for our training data
 interface TrainingExample {
@@ -7,6 +8,14 @@ interface TrainingExample {
   boxes: number[][];
   labels: string[];
   isViolent: boolean;
+  features?: Record<string, number>;
+}
+
+// Per-frame signals the model takes next to the image, in input order; missing ones count as 0
+export const TRAINING_FEATURE_KEYS = ['motion_intensity', ...POSE_FEATURE_KEYS];
+
+export function featureVector(features: Record<string, number> = {}): number[] {
+  return TRAINING_FEATURE_KEYS.map(key => features[key] ?? 0);
 }
 
 interface TrainingCallbacks {
@@ -32,53 +41,53 @@ const DEFAULT_CONFIG: TrainingConfig = {
 
 const MODEL_KEY = 'violence-detection-model';
 
-// Create a custom model for violence detection
+// Create a custom model for violence detection: a small CNN over the frame, with the
+// per-frame motion and pose features joined in before the classification layers
 function createCustomModel(): tf.LayersModel {
-  const model = tf.sequential();
-  
-  // Input layer
-  model.add(tf.layers.conv2d({
-    inputShape: [224, 224, 3],
+  const image = tf.input({ shape: [224, 224, 3] });
+  const signals = tf.input({ shape: [TRAINING_FEATURE_KEYS.length] });
+
+  // Feature extraction layers
+  let x = tf.layers.conv2d({
     kernelSize: 3,
     filters: 32,
     strides: 2,
     activation: 'relu',
     padding: 'same'
-  }));
-  
-  // Feature extraction layers
-  model.add(tf.layers.batchNormalization({}));
-  model.add(tf.layers.maxPooling2d({ poolSize: [2, 2], strides: [2, 2] }));
-  
-  model.add(tf.layers.conv2d({
+  }).apply(image) as tf.SymbolicTensor;
+  x = tf.layers.batchNormalization({}).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.maxPooling2d({ poolSize: [2, 2], strides: [2, 2] }).apply(x) as tf.SymbolicTensor;
+
+  x = tf.layers.conv2d({
     kernelSize: 3,
     filters: 64,
     strides: 1,
     activation: 'relu',
     padding: 'same'
-  }));
-  model.add(tf.layers.batchNormalization({}));
-  model.add(tf.layers.maxPooling2d({ poolSize: [2, 2], strides: [2, 2] }));
-  
-  model.add(tf.layers.conv2d({
+  }).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.batchNormalization({}).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.maxPooling2d({ poolSize: [2, 2], strides: [2, 2] }).apply(x) as tf.SymbolicTensor;
+
+  x = tf.layers.conv2d({
     kernelSize: 3,
     filters: 128,
     strides: 1,
     activation: 'relu',
     padding: 'same'
-  }));
-  model.add(tf.layers.batchNormalization({}));
-  model.add(tf.layers.maxPooling2d({ poolSize: [2, 2], strides: [2, 2] }));
-  
+  }).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.batchNormalization({}).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.maxPooling2d({ poolSize: [2, 2], strides: [2, 2] }).apply(x) as tf.SymbolicTensor;
+
   // Classification layers
-  model.add(tf.layers.flatten({}));
-  model.add(tf.layers.dropout({ rate: 0.5 }));
-  model.add(tf.layers.dense({ units: 512, activation: 'relu' }));
-  model.add(tf.layers.batchNormalization({}));
-  model.add(tf.layers.dropout({ rate: 0.3 }));
-  model.add(tf.layers.dense({ units: 1, activation: 'sigmoid' }));
+  x = tf.layers.flatten({}).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.dropout({ rate: 0.5 }).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.concatenate().apply([x, signals]) as tf.SymbolicTensor;
+  x = tf.layers.dense({ units: 512, activation: 'relu' }).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.batchNormalization({}).apply(x) as tf.SymbolicTensor;
+  x = tf.layers.dropout({ rate: 0.3 }).apply(x) as tf.SymbolicTensor;
+  const output = tf.layers.dense({ units: 1, activation: 'sigmoid' }).apply(x) as tf.SymbolicTensor;
 
-  return model;
+  return tf.model({ inputs: [image, signals], outputs: output });
 }
 
 // Create a simple mock model for testing when no trained model exists
@@ -93,7 +102,7 @@ async function createMockModel(): Promise<tf.LayersModel> {
   });
   
   // Generate some random weights to simulate a trained model
-  const dummyData = tf.randomNormal([10, 224, 224, 3]);
+  const dummyData = [tf.randomNormal([10, 224, 224, 3]), tf.randomUniform([10, TRAINING_FEATURE_KEYS.length])];
   const dummyLabels = tf.randomUniform([10, 1]);
   
   // Train the model with dummy data for one epoch
@@ -103,7 +112,7 @@ async function createMockModel(): Promise<tf.LayersModel> {
   });
   
   // Clean up tensors
-  dummyData.dispose();
+  dummyData.forEach(t => t.dispose());
   dummyLabels.dispose();
   
   return model;
@@ -112,6 +121,7 @@ async function createMockModel(): Promise<tf.LayersModel> {
 // Prepare training data
 async function prepareTrainingData(examples: TrainingExample[]) {
   const xs: tf.Tensor[] = [];
+  const signals: number[][] = [];
   const ys: tf.Tensor[] = [];
 
   for (const example of examples) {
@@ -133,6 +143,7 @@ async function prepareTrainingData(examples: TrainingExample[]) {
       });
 
       xs.push(normalizedImage);
+      signals.push(featureVector(example.features));
       ys.push(tf.scalar(example.isViolent ? 1 : 0));
     } catch (error) {
       console.error('Error preparing training example:', error);
@@ -144,8 +155,8 @@ async function prepareTrainingData(examples: TrainingExample[]) {
     throw new Error('No valid training examples could be prepared');
   }
 
-  // Stack all examples into a single tensor
-  const xsStacked = tf.stack(xs);
+  // Stack all examples into a single tensor per model input
+  const xsStacked = [tf.stack(xs), tf.tensor2d(signals, [signals.length, TRAINING_FEATURE_KEYS.length])];
   const ysStacked = tf.stack(ys);
 
   // Clean up individual tensors
@@ -161,7 +172,7 @@ async function prepareTrainingData(examples: TrainingExample[]) {
 // Training function with callbacks
 async function trainModel(
   model: tf.LayersModel,
-  trainingData: { xs: tf.Tensor; ys: tf.Tensor },
+  trainingData: { xs: tf.Tensor[]; ys: tf.Tensor },
   config: TrainingConfig = DEFAULT_CONFIG,
   callbacks?: TrainingCallbacks
 ) {
@@ -237,7 +248,7 @@ export async function trainViolenceDetection(
   }
 
   const finalConfig = { ...DEFAULT_CONFIG, ...config };
-  let preparedData: { xs: tf.Tensor; ys: tf.Tensor } | null = null;
+  let preparedData: { xs: tf.Tensor[]; ys: tf.Tensor } | null = null;
   let model: tf.LayersModel | null = null;
 
   try {
@@ -261,7 +272,7 @@ export async function trainViolenceDetection(
   } finally {
     // Clean up tensors
     if (preparedData) {
-      preparedData.xs.dispose();
+      preparedData.xs.forEach(t => t.dispose());
       preparedData.ys.dispose();
     }
     // Don't dispose the model as it's being returned
@@ -306,7 +317,7 @@ export async function evaluateModel(
     };
   } finally {
     // Clean up tensors
-    xs.dispose();
+    xs.forEach(t => t.dispose());
     ys.dispose();
   }
 }
\ No newline at end of file
@@ -0,0 +1,310 @@
+import { getActiveDetector } from './detectors';
+import { createTracker } from './tracker';
+import { createFallDetector } from './fallDetection';
+import { createRuleEngine, loadRules, type AlertEvent } from './alertRules';
+import {
+  findFaceRegions,
+  getRedactionSettings,
+  obscureRegions,
+  padRegion,
+  PERSON_PADDING
+} from './redaction';
+import {
+  alertLayer,
+  boxLayer,
+  computeOverlayView,
+  drawLayers,
+  labelLayer,
+  type OverlayLayer
+} from './overlay';
+import { seekVideo, withVideoFile } from './videoFile';
+import { createWebmEncoder, findWebmEncoding, type WebmEncoding } from './webmEncoder';
+
+export type VideoExportLayer = 'boxes' | 'labels' | 'alerts' | 'blur-faces' | 'blur-people';
+
+export const VIDEO_EXPORT_LAYERS: Array<{ id: VideoExportLayer; label: string }> = [
+  { id: 'boxes', label: 'Detection boxes' },
+  { id: 'labels', label: 'Labels' },
+  { id: 'alerts', label: 'Alerts' },
+  { id: 'blur-faces', label: 'Blur faces' },
+  { id: 'blur-people', label: 'Blur people' }
+];
+
+type TrackedBox = {
+  bbox: number[];
+  class: string;
+  score: number;
+  trackId: number;
+};
+
+type ExportSample = {
+  time: number; // ms of video time
+  detections: TrackedBox[];
+  faces: number[][]; // padded face regions, only collected when faces are blurred
+};
+
+const SAMPLE_RATE = 5; // detection passes per second; boxes are interpolated in between
+const OUTPUT_FPS = 30;
+const LABEL_SCALE_WIDTH = 960; // labels are sized as if the video were shown this wide
+const ALERT_DISPLAY_MS = 3000;
+const ANALYSIS_SHARE = 50; // percent of the progress bar taken by the detection pass
+const VIDEO_BITRATE = 5_000_000;
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const COLORS = {
+  box: '#3b82f6',
+  label: '#2563eb',
+  alertBox: '#ef4444',
+  alertLabel: '#dc2626',
+  info: '#93c5fd',
+  warning: '#fcd34d',
+  danger: '#fca5a5'
+};
+
+// Detection pass: seeks through the file as fast as inference allows, so it can run faster than real time
+async function sampleVideo(
+  videoElement: HTMLVideoElement,
+  layers: VideoExportLayer[],
+  onProgress: (progress: number) => void
+): Promise<{ samples: ExportSample[]; alerts: AlertEvent[] }> {
+  const detector = await getActiveDetector();
+  const tracker = createTracker({ minHits: 1 });
+  const fallDetector = createFallDetector();
+  const ruleEngine = createRuleEngine(loadRules());
+  const sampleCount = Math.max(1, Math.floor(videoElement.duration * SAMPLE_RATE));
+  const samples: ExportSample[] = [];
+  const alerts: AlertEvent[] = [];
+
+  for (let i = 0; i < sampleCount; i++) {
+    await seekVideo(videoElement, i / SAMPLE_RATE);
+    const time = (i / SAMPLE_RATE) * 1000;
+    const detections = await detector.detect(videoElement, { minScore: 0.4 });
+    const trackIds = tracker.update(detections, time);
+    const tracked = detections.map((d, index) => ({ bbox: d.bbox, class: d.class, score: d.score, trackId: trackIds[index] }));
+
+    fallDetector.update(tracked.map(d => ({ id: d.trackId, class: d.class, bbox: d.bbox })), time);
+    if (layers.includes('alerts')) {
+      // Zone, dwell and pose rules need live state, so only detection and fall rules can fire here
+      alerts.push(...ruleEngine.evaluate({
+        timestamp: time,
+        detections: tracked,
+        tracks: tracker.getTracks({ includeTentative: true }),
+        zoneEvents: [],
+        zoneOccupants: {},
+        dwell: [],
+        fallen: fallDetector.fallen(),
+        poseFeatures: {},
+        motion: {},
+        scores: {}
+      }));
+    }
+
+    const faces = layers.includes('blur-faces')
+      ? await findFaceRegions(videoElement, tracked.filter(d => d.class === 'person').map(d => d.bbox))
+      : [];
+    samples.push({ time, detections: tracked, faces });
+    onProgress(((i + 1) / sampleCount) * 100);
+  }
+
+  return { samples, alerts };
+}
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+// Boxes at an arbitrary video time: tracks seen in both neighbouring samples move smoothly,
+// and face regions from both are kept so a moving face stays covered between samples
+function frameAt(samples: ExportSample[], time: number): { detections: TrackedBox[]; faces: number[][] } {
+  let index = samples.findIndex(sample => sample.time > time) - 1;
+  if (index === -2) index = samples.length - 1;
+  if (index < 0) index = 0;
+
+  const before = samples[index];
+  const after = samples[index + 1];
+  if (!before) return { detections: [], faces: [] };
+  if (!after) return { detections: before.detections, faces: before.faces };
+
+  const t = (time - before.time) / (after.time - before.time);
+  const detections = before.detections.map(detection => {
+    const next = after.detections.find(d => d.trackId === detection.trackId);
+    return next ? { ...detection, bbox: detection.bbox.map((value, i) => lerp(value, next.bbox[i], t)) } : detection;
+  });
+  return { detections, faces: [...before.faces, ...after.faces] };
+}
+
+function frameLayers(
+  detections: TrackedBox[],
+  alerts: AlertEvent[],
+  time: number,
+  layers: VideoExportLayer[]
+): OverlayLayer[] {
+  const visible = alerts.filter(alert => time >= alert.timestamp && time - alert.timestamp < ALERT_DISPLAY_MS);
+  const alerted = new Set(visible.flatMap(alert => alert.trackIds));
+  const result: OverlayLayer[] = [];
+
+  if (layers.includes('boxes')) {
+    result.push(boxLayer(detections.map(d => ({
+      bbox: d.bbox,
+      color: alerted.has(d.trackId) ? COLORS.alertBox : COLORS.box
+    }))));
+  }
+  if (layers.includes('labels')) {
+    result.push(labelLayer(detections.map(d => ({
+      bbox: d.bbox,
+      text: `#${d.trackId} ${d.class} ${Math.round(d.score * 100)}%`,
+      color: alerted.has(d.trackId) ? COLORS.alertLabel : COLORS.label
+    }))));
+  }
+  if (layers.includes('alerts')) {
+    result.push(alertLayer(visible.map(alert => ({ text: alert.message, color: COLORS[alert.severity] }))));
+  }
+  return result;
+}
+
+type FrameRenderer = {
+  canvas: HTMLCanvasElement;
+  drawFrame: () => void;
+};
+
+// Draws the video's current frame with the chosen redaction and overlay layers onto a full-size canvas
+function createFrameRenderer(
+  videoElement: HTMLVideoElement,
+  samples: ExportSample[],
+  alerts: AlertEvent[],
+  layers: VideoExportLayer[]
+): FrameRenderer {
+  const canvas = document.createElement('canvas');
+  canvas.width = videoElement.videoWidth;
+  canvas.height = videoElement.videoHeight;
+  const ctx = canvas.getContext('2d', { alpha: false });
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const pixelRatio = Math.max(1, canvas.width / LABEL_SCALE_WIDTH);
+  const view = computeOverlayView(canvas.width / pixelRatio, canvas.height / pixelRatio, canvas.width, canvas.height, 'fill');
+  const style = getRedactionSettings().style;
+
+  const drawFrame = () => {
+    const time = videoElement.currentTime * 1000;
+    const { detections, faces } = frameAt(samples, time);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(videoElement, 0, 0);
+
+    const regions = [
+      ...(layers.includes('blur-faces') ? faces : []),
+      ...(layers.includes('blur-people')
+        ? detections.filter(d => d.class === 'person').map(d => padRegion(d.bbox, PERSON_PADDING))
+        : [])
+    ];
+    obscureRegions(canvas, regions, style);
+
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    drawLayers(ctx, view, frameLayers(detections, alerts, time, layers));
+  };
+
+  return { canvas, drawFrame };
+}
+
+// Encoding pass: seeks frame by frame and stamps each frame with its video time, so it runs
+// as fast as the encoder allows and keeps going in a background tab
+async function encodeVideo(
+  videoElement: HTMLVideoElement,
+  renderer: FrameRenderer,
+  encoding: WebmEncoding,
+  onProgress: (progress: number) => void
+): Promise<Blob> {
+  const encoder = createWebmEncoder(encoding);
+  const frameCount = Math.max(1, Math.floor(videoElement.duration * OUTPUT_FPS));
+
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      await seekVideo(videoElement, i / OUTPUT_FPS);
+      renderer.drawFrame();
+      await encoder.addFrame(renderer.canvas, (i * 1000) / OUTPUT_FPS, 1000 / OUTPUT_FPS);
+      onProgress(((i + 1) / frameCount) * 100);
+    }
+    return await encoder.finish();
+  } finally {
+    encoder.close();
+  }
+}
+
+// Fallback recording pass for browsers without WebCodecs: MediaRecorder timestamps frames by
+// wall clock, so this part plays at real-time speed
+async function recordVideo(
+  videoElement: HTMLVideoElement,
+  renderer: FrameRenderer,
+  onProgress: (progress: number) => void
+): Promise<Blob> {
+  const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error('This browser cannot record WebM video.');
+
+  const { canvas, drawFrame } = renderer;
+  // The original audio is not carried over; the export is a silent video
+  const stream = canvas.captureStream(OUTPUT_FPS);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise(resolve => {
+    recorder.onstop = resolve;
+  });
+
+  // Redrawing once per decoded frame keeps every source frame; animation frames are the fallback
+  const nextFrame = (callback: () => void) => {
+    if ('requestVideoFrameCallback' in videoElement) {
+      videoElement.requestVideoFrameCallback(callback);
+    } else {
+      requestAnimationFrame(callback);
+    }
+  };
+
+  try {
+    await seekVideo(videoElement, 0);
+    drawFrame();
+    recorder.start(1000);
+    await videoElement.play();
+
+    await new Promise<void>((resolve, reject) => {
+      videoElement.addEventListener('error', () => reject(new Error('Playback failed while exporting.')), { once: true });
+      videoElement.addEventListener('ended', () => resolve(), { once: true });
+      const tick = () => {
+        if (videoElement.ended) return;
+        drawFrame();
+        onProgress(Math.min(100, (videoElement.currentTime / videoElement.duration) * 100));
+        nextFrame(tick);
+      };
+      nextFrame(tick);
+    });
+  } finally {
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      await stopped;
+    }
+    stream.getTracks().forEach(track => track.stop());
+  }
+
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+// Burns the chosen layers into a new WebM: a detection pass over the file, then an encoding pass
+export async function exportAnnotatedVideo(
+  videoFile: File,
+  layers: VideoExportLayer[],
+  onProgress: (progress: number) => void
+): Promise<Blob> {
+  if (layers.length === 0) throw new Error('Choose at least one layer to export.');
+
+  return withVideoFile(videoFile, async videoElement => {
+    const { samples, alerts } = await sampleVideo(videoElement, layers, progress =>
+      onProgress((progress * ANALYSIS_SHARE) / 100)
+    );
+    const renderer = createFrameRenderer(videoElement, samples, alerts, layers);
+    const encoding = await findWebmEncoding(renderer.canvas.width, renderer.canvas.height, VIDEO_BITRATE, OUTPUT_FPS);
+    const outputProgress = (progress: number) => onProgress(ANALYSIS_SHARE + (progress * (100 - ANALYSIS_SHARE)) / 100);
+    return encoding
+      ? await encodeVideo(videoElement, renderer, encoding, outputProgress)
+      : await recordVideo(videoElement, renderer, outputProgress);
+  });
+}
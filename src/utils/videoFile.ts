@@ -0,0 +1,28 @@
+// Offline passes over an uploaded file drive their own muted, off-screen video element
+
+export async function seekVideo(video: HTMLVideoElement, seconds: number) {
+  video.currentTime = seconds;
+  await new Promise(resolve => {
+    video.addEventListener('seeked', resolve, { once: true });
+  });
+}
+
+// Loads the file, hands the element to the pass once its first frame is decoded and releases it afterwards
+export async function withVideoFile<T>(videoFile: File, run: (video: HTMLVideoElement) => Promise<T>): Promise<T> {
+  const videoElement = document.createElement('video');
+  videoElement.src = URL.createObjectURL(videoFile);
+  videoElement.muted = true;
+  videoElement.playsInline = true;
+
+  try {
+    await new Promise((resolve, reject) => {
+      videoElement.addEventListener('loadeddata', resolve, { once: true });
+      videoElement.addEventListener('error', () => reject(new Error('Failed to load video file. Please try a different file.')), { once: true });
+    });
+    return await run(videoElement);
+  } finally {
+    videoElement.pause();
+    URL.revokeObjectURL(videoElement.src);
+    videoElement.remove();
+  }
+}
@@ -0,0 +1,225 @@
+import { analyzeVideo as askHuggingFace } from './api';
+import { getActiveDetector } from './detectors';
+import { formatDuration } from './dwell';
+import { captureFrame } from './model';
+import { getRedactionSettings } from './redaction';
+import { answerVideoQuestion, type QuestionFrame } from './openai';
+import { createTracker } from './tracker';
+import { exportAnnotatedVideo } from './videoExport';
+import { seekVideo, withVideoFile } from './videoFile';
+
+export type QuestionProvider = 'openai' | 'huggingface';
+
+export type VideoAnswer = {
+  id: string;
+  question: string;
+  answer: string;
+  citations: number[]; // ms into the video, in the order the answer cites them
+  provider: QuestionProvider;
+};
+
+type TrackSpan = {
+  id: number;
+  class: string;
+  firstSeen: number; // ms
+  lastSeen: number;
+};
+
+type VideoContext = {
+  duration: number; // ms
+  frames: QuestionFrame[];
+  counts: Array<{ time: number; classes: Record<string, number> }>;
+  tracks: TrackSpan[];
+};
+
+export const QUESTION_PROVIDERS: Array<{ id: QuestionProvider; label: string }> = [
+  { id: 'openai', label: 'GPT-4o (frames + detections)' },
+  { id: 'huggingface', label: 'Hugging Face endpoint (whole video)' }
+];
+
+const STORAGE_KEY = 'vision-lang-question-provider';
+const MAX_DETECTION_SAMPLES = 120;
+const MIN_DETECTION_INTERVAL = 0.5; // seconds
+const MAX_CONTEXT_FRAMES = 8; // frames sent to GPT-4o; the detection log covers the rest
+const MIN_TRACK_SAMPLES = 2; // single-sample tracks are usually detector noise
+const CONTEXT_SHARE = 50; // progress percent spent sampling when the upload is also redacted
+
+// Keyed by the redaction policy too, so frames captured under a looser policy are never reused
+const contexts = new WeakMap<File, { redaction: string; context: Promise<VideoContext> }>();
+const redactedUploads = new WeakMap<File, { redaction: string; upload: Promise<File> }>();
+
+export function loadQuestionProvider(): QuestionProvider {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return QUESTION_PROVIDERS.some(provider => provider.id === stored) ? stored as QuestionProvider : 'openai';
+  } catch {
+    return 'openai';
+  }
+}
+
+export function saveQuestionProvider(provider: QuestionProvider) {
+  try {
+    localStorage.setItem(STORAGE_KEY, provider);
+  } catch (error) {
+    console.warn('Failed to save question provider:', error);
+  }
+}
+
+async function sampleVideo(videoFile: File, onProgress: (progress: number) => void): Promise<VideoContext> {
+  return withVideoFile(videoFile, async videoElement => {
+    const detector = await getActiveDetector();
+    const interval = Math.max(MIN_DETECTION_INTERVAL, videoElement.duration / MAX_DETECTION_SAMPLES);
+    const sampleCount = Math.max(1, Math.floor(videoElement.duration / interval));
+    const frameEvery = Math.max(1, Math.floor(sampleCount / MAX_CONTEXT_FRAMES));
+    // Samples are far apart, so tracks confirm on their first hit and may coast over a missed sample
+    const tracker = createTracker({ minHits: 1, maxCoastTime: interval * 2000 });
+    const spans = new Map<number, TrackSpan & { samples: number }>();
+    const context: VideoContext = { duration: videoElement.duration * 1000, frames: [], counts: [], tracks: [] };
+
+    for (let i = 0; i < sampleCount; i++) {
+      await seekVideo(videoElement, i * interval);
+      const time = i * interval * 1000;
+      const detections = await detector.detect(videoElement, { minScore: 0.4 });
+      const trackIds = tracker.update(detections, time);
+
+      const classes: Record<string, number> = {};
+      detections.forEach((detection, index) => {
+        classes[detection.class] = (classes[detection.class] ?? 0) + 1;
+        const span = spans.get(trackIds[index]);
+        if (span) {
+          span.lastSeen = time;
+          span.samples++;
+        } else {
+          spans.set(trackIds[index], { id: trackIds[index], class: detection.class, firstSeen: time, lastSeen: time, samples: 1 });
+        }
+      });
+      context.counts.push({ time, classes });
+
+      if (i % frameEvery === 0 && context.frames.length < MAX_CONTEXT_FRAMES) {
+        const image = await captureFrame(videoElement);
+        if (image) context.frames.push({ time, image });
+      }
+      onProgress(((i + 1) / sampleCount) * 100);
+    }
+
+    context.tracks = Array.from(spans.values())
+      .filter(span => span.samples >= MIN_TRACK_SAMPLES)
+      .map(({ id, class: className, firstSeen, lastSeen }) => ({ id, class: className, firstSeen, lastSeen }));
+    return context;
+  });
+}
+
+// Sampling is the slow part, so every question about the same upload reuses one pass
+function getVideoContext(videoFile: File, onProgress: (progress: number) => void): Promise<VideoContext> {
+  const redaction = JSON.stringify(getRedactionSettings());
+  const cached = contexts.get(videoFile);
+  if (cached?.redaction === redaction) {
+    onProgress(100);
+    return cached.context;
+  }
+
+  const context = sampleVideo(videoFile, onProgress).catch(error => {
+    contexts.delete(videoFile);
+    throw error;
+  });
+  contexts.set(videoFile, { redaction, context });
+  return context;
+}
+
+// The endpoint takes the file itself, so the redaction policy is burned into a re-encoded copy
+// first, the same way frames are redacted before they go to OpenAI
+function getRedactedUpload(videoFile: File, onProgress: (progress: number) => void): Promise<File> {
+  const settings = getRedactionSettings();
+  if (settings.policy === 'off') return Promise.resolve(videoFile);
+  if (settings.policy === 'outside-zone') {
+    return Promise.reject(new Error('Uploads have no zones, so outside-zone redaction would hide the whole video. Redact faces or people instead, or ask OpenAI.'));
+  }
+
+  const redaction = JSON.stringify(settings);
+  const cached = redactedUploads.get(videoFile);
+  if (cached?.redaction === redaction) {
+    onProgress(100);
+    return cached.upload;
+  }
+
+  const upload = exportAnnotatedVideo(videoFile, [settings.policy === 'faces' ? 'blur-faces' : 'blur-people'], onProgress)
+    .then(blob => new File([blob], `${videoFile.name.replace(/\.[^.]+$/, '')}-redacted.webm`, { type: 'video/webm' }))
+    .catch(error => {
+      redactedUploads.delete(videoFile);
+      throw error;
+    });
+  redactedUploads.set(videoFile, { redaction, upload });
+  return upload;
+}
+
+// Compact text log of what the detector saw, with the same [m:ss] labels the answer has to cite
+function describeContext(context: VideoContext): string {
+  const totals: Record<string, number> = {};
+  context.tracks.forEach(track => {
+    totals[track.class] = (totals[track.class] ?? 0) + 1;
+  });
+
+  const lines = [
+    `Video length: ${formatDuration(context.duration)}`,
+    `Distinct tracked objects: ${Object.entries(totals).map(([name, count]) => `${count} ${name}`).join(', ') || 'none'}`,
+    'Tracks (first seen – last seen):',
+    ...context.tracks.map(track => `- ${track.class} #${track.id}: [${formatDuration(track.firstSeen)}] – [${formatDuration(track.lastSeen)}]`),
+    'Counts per sample:'
+  ];
+
+  // Only log samples where the counts change, which keeps long videos within the prompt budget
+  let previous = '';
+  context.counts.forEach(({ time, classes }) => {
+    const summary = Object.entries(classes).map(([name, count]) => `${count} ${name}`).join(', ') || 'nothing detected';
+    if (summary !== previous) lines.push(`[${formatDuration(time)}] ${summary}`);
+    previous = summary;
+  });
+
+  return lines.join('\n');
+}
+
+function parseCitations(answer: string): number[] {
+  const citations: number[] = [];
+  for (const match of answer.matchAll(/\[(?:(\d+):)?(\d+):(\d{2})\]/g)) {
+    const [, hours, minutes, seconds] = match;
+    const time = ((Number(hours ?? 0) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000;
+    if (!citations.includes(time)) citations.push(time);
+  }
+  return citations;
+}
+
+export async function askVideoQuestion(
+  videoFile: File,
+  question: string,
+  provider: QuestionProvider,
+  onProgress: (progress: number) => void
+): Promise<VideoAnswer> {
+  const isRedactingUpload = provider === 'huggingface' && getRedactionSettings().policy !== 'off';
+  const context = await getVideoContext(videoFile, progress =>
+    onProgress(isRedactingUpload ? (progress * CONTEXT_SHARE) / 100 : progress)
+  );
+  const metadata = describeContext(context);
+
+  let answer: string;
+  if (provider === 'huggingface') {
+    const upload = await getRedactedUpload(videoFile, progress =>
+      onProgress(CONTEXT_SHARE + (progress * (100 - CONTEXT_SHARE)) / 100)
+    );
+    // The endpoint sees the whole video; the log and the citation format travel in the question
+    const result = await askHuggingFace(
+      upload,
+      `${question}\n\nCite the timestamps you rely on as [m:ss].\n\nDetection log:\n${metadata}`
+    );
+    answer = result.answer;
+  } else {
+    answer = await answerVideoQuestion(question, context.frames, metadata);
+  }
+
+  return {
+    id: Date.now().toString(),
+    question,
+    answer,
+    citations: parseCitations(answer),
+    provider
+  };
+}
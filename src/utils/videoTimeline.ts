@@ -0,0 +1,138 @@
+import { getActiveDetector, type Detection } from './detectors';
+import { captureFrame } from './model';
+import { generateDetailedDescription, summarizeVideoChapters } from './openai';
+import { createSceneChangeGate, type SceneSummary } from './sceneChange';
+import { seekVideo, withVideoFile } from './videoFile';
+
+export type VideoChapter = {
+  id: string;
+  start: number; // ms into the video
+  end: number;
+  description: string;
+  objects: string[]; // every class seen in the chapter, people excluded
+  peopleCount: number; // most people seen at once
+  thumbnail: string | null;
+};
+
+export type VideoTimeline = {
+  duration: number; // ms
+  chapters: VideoChapter[];
+  summary: string;
+};
+
+type Sample = {
+  time: number; // ms
+  detections: Detection[];
+};
+
+type Segment = {
+  start: number;
+  end: number;
+  samples: Sample[];
+};
+
+const MAX_SAMPLES = 120; // long videos are sampled more sparsely instead of taking longer
+const MIN_SAMPLE_INTERVAL = 1; // seconds
+const MIN_CHAPTER_LENGTH = 3000; // ms; shorter segments are detection flicker, not scenes
+const MAX_CHAPTERS = 12; // each chapter costs one GPT-4o call
+const DETECTION_SHARE = 70; // progress percent spent on the detection pass
+
+// Offline samples carry no pose or face data, so every person reads the same to the gate
+function toScene(detections: Detection[]): SceneSummary & Parameters<typeof generateDetailedDescription>[0] {
+  return {
+    people: detections
+      .filter(d => d.class === 'person')
+      .map(() => ({ pose: 'detected', position: 'in frame', activity: 'present', movement: 'detected', annotation: {} })),
+    objects: detections.filter(d => d.class !== 'person').map(d => d.class)
+  };
+}
+
+function mergeInto(segments: Segment[], index: number) {
+  const target = index > 0 ? index - 1 : index + 1;
+  const [from, to] = [segments[index], segments[target]];
+  to.start = Math.min(to.start, from.start);
+  to.end = Math.max(to.end, from.end);
+  to.samples = [...to.samples, ...from.samples].sort((a, b) => a.time - b.time);
+  segments.splice(index, 1);
+}
+
+// Short segments fold into a neighbour first, then the shortest ones until the chapter cap holds
+function consolidate(segments: Segment[]): Segment[] {
+  const result = [...segments];
+  for (let i = result.length - 1; i >= 0 && result.length > 1; i--) {
+    if (result[i].end - result[i].start < MIN_CHAPTER_LENGTH) mergeInto(result, i);
+  }
+  while (result.length > MAX_CHAPTERS) {
+    let shortest = 0;
+    result.forEach((segment, index) => {
+      if (segment.end - segment.start < result[shortest].end - result[shortest].start) shortest = index;
+    });
+    mergeInto(result, shortest);
+  }
+  return result;
+}
+
+// Samples the whole upload, splits it where the scene changes and describes each chapter plus the whole video
+export async function analyzeVideoTimeline(
+  videoFile: File,
+  onProgress: (progress: number) => void
+): Promise<VideoTimeline> {
+  return withVideoFile(videoFile, async videoElement => {
+    const detector = await getActiveDetector();
+    const gate = createSceneChangeGate({ maxUnchanged: 0 });
+    const duration = videoElement.duration * 1000;
+    const interval = Math.max(MIN_SAMPLE_INTERVAL, videoElement.duration / MAX_SAMPLES);
+    const sampleCount = Math.max(1, Math.floor(videoElement.duration / interval));
+    const segments: Segment[] = [];
+
+    for (let i = 0; i < sampleCount; i++) {
+      await seekVideo(videoElement, i * interval);
+      const time = i * interval * 1000;
+      const detections = await detector.detect(videoElement, { minScore: 0.4 });
+      const sample = { time, detections };
+
+      if (gate.check(videoElement, toScene(detections), time).changed || segments.length === 0) {
+        segments.push({ start: time, end: time, samples: [sample] });
+      } else {
+        segments[segments.length - 1].samples.push(sample);
+      }
+      onProgress(((i + 1) / sampleCount) * DETECTION_SHARE);
+    }
+    segments.forEach((segment, index) => {
+      segment.end = segments[index + 1]?.start ?? duration;
+    });
+
+    const chapterSegments = consolidate(segments);
+    const chapters: VideoChapter[] = [];
+
+    for (let i = 0; i < chapterSegments.length; i++) {
+      const { start, end, samples } = chapterSegments[i];
+      // The middle sample stands for the chapter; its frame goes to GPT-4o and becomes the thumbnail
+      const middle = samples[Math.floor(samples.length / 2)];
+      await seekVideo(videoElement, middle.time / 1000);
+      const frame = await captureFrame(videoElement);
+      const objects = Array.from(new Set(samples.flatMap(sample => toScene(sample.detections).objects))).sort();
+
+      const description = await generateDetailedDescription({
+        ...toScene(middle.detections),
+        objects,
+        frame: frame ?? undefined
+      });
+
+      chapters.push({
+        id: `chapter-${i}`,
+        start,
+        end,
+        description,
+        objects,
+        peopleCount: Math.max(...samples.map(sample => toScene(sample.detections).people.length)),
+        thumbnail: frame
+      });
+      onProgress(DETECTION_SHARE + ((i + 1) / (chapterSegments.length + 1)) * (100 - DETECTION_SHARE));
+    }
+
+    const summary = await summarizeVideoChapters(chapters);
+    onProgress(100);
+    return { duration, chapters, summary };
+  });
+}
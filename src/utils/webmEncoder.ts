@@ -0,0 +1,92 @@
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+
+export type WebmEncoding = {
+  config: VideoEncoderConfig;
+  muxerCodec: string;
+};
+
+const ENCODER_CODECS = [
+  { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+  { codec: 'vp8', muxerCodec: 'V_VP8' }
+];
+const MAX_ENCODE_QUEUE = 8; // frames waiting in the encoder before addFrame holds the caller back
+const KEYFRAME_INTERVAL = 2000; // ms of video between keyframes
+
+// The first WebM codec the browser can encode at this size, or null without WebCodecs
+export async function findWebmEncoding(
+  width: number,
+  height: number,
+  bitrate: number,
+  framerate: number
+): Promise<WebmEncoding | null> {
+  if (typeof VideoEncoder === 'undefined') return null;
+  for (const { codec, muxerCodec } of ENCODER_CODECS) {
+    const config = { codec, width, height, bitrate, framerate };
+    try {
+      if ((await VideoEncoder.isConfigSupported(config)).supported) return { config, muxerCodec };
+    } catch {
+      // An odd frame size can make the check itself throw; try the next codec
+    }
+  }
+  return null;
+}
+
+// Encodes frames with their own timestamps straight into a WebM file, so encoding runs as
+// fast as the hardware allows instead of at the wall-clock pace MediaRecorder needs
+export function createWebmEncoder(encoding: WebmEncoding) {
+  const { width, height, framerate } = encoding.config;
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: encoding.muxerCodec, width, height, frameRate: framerate }
+  });
+  let encodeError: Error | null = null;
+  let lastKeyFrame = -Infinity;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => {
+      encodeError = error;
+    }
+  });
+  encoder.configure(encoding.config);
+
+  const fail = (error: unknown): never => {
+    console.error('Error encoding video:', error);
+    throw new Error('Encoding the video failed.');
+  };
+
+  return {
+    // time and duration in ms of video time
+    async addFrame(source: CanvasImageSource, time: number, duration: number) {
+      if (encodeError) fail(encodeError);
+      const keyFrame = time - lastKeyFrame >= KEYFRAME_INTERVAL;
+      if (keyFrame) lastKeyFrame = time;
+      const frame = new VideoFrame(source, { timestamp: Math.round(time * 1000), duration: Math.round(duration * 1000) });
+      encoder.encode(frame, { keyFrame });
+      frame.close();
+
+      // The caller can produce frames faster than they encode, so it waits rather than queueing the whole video
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE && !encodeError) {
+        await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+    },
+
+    async finish(): Promise<Blob> {
+      try {
+        await encoder.flush();
+      } catch (error) {
+        fail(encodeError ?? error);
+      } finally {
+        if (encoder.state !== 'closed') encoder.close();
+      }
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: 'video/webm' });
+    },
+
+    // Releases the encoder when frames stop coming without a finished file
+    close() {
+      if (encoder.state !== 'closed') encoder.close();
+    }
+  };
+}
+
+export type WebmEncoder = ReturnType<typeof createWebmEncoder>;
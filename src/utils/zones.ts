@@ -0,0 +1,183 @@
+import { TRACK_COAST_TIME } from './tracker';
+
+export type Point = { x: number; y: number };
+
+// Directions are relative to walking along the line from its first point to its second
+export type CrossingDirection = 'both' | 'left-to-right' | 'right-to-left';
+
+export type Zone = {
+  id: string;
+  name: string;
+  kind: 'polygon' | 'line';
+  points: Point[]; // source-video coordinates, same space as PersonAnnotation.bbox
+  direction?: CrossingDirection;
+  color?: string;
+};
+
+export type ZoneEventType = 'enter' | 'exit' | 'cross';
+
+export type ZoneEvent = {
+  id: string;
+  type: ZoneEventType;
+  zoneId: string;
+  zoneName: string;
+  trackId: number;
+  direction?: Exclude<CrossingDirection, 'both'>;
+  point: Point;
+  timestamp: number;
+};
+
+export type ZoneTrack = {
+  id: number;
+  class: string;
+  bbox: number[];
+};
+
+const STORAGE_PREFIX = 'vision-lang-zones:';
+
+export const ZONE_COLORS = ['#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4'];
+
+export function loadZones(cameraId: string): Zone[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + cameraId);
+    return stored ? JSON.parse(stored) as Zone[] : [];
+  } catch (error) {
+    console.warn('Failed to load zones:', error);
+    return [];
+  }
+}
+
+export function saveZones(cameraId: string, zones: Zone[]) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + cameraId, JSON.stringify(zones));
+  } catch (error) {
+    console.warn('Failed to save zones:', error);
+  }
+}
+
+// Ground contact point of a person box; doorway and floor zones are drawn where people stand
+export function anchorPoint(bbox: number[]): Point {
+  const [x, y, width, height] = bbox;
+  return { x: x + width / 2, y: y + height };
+}
+
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const intersects = (a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+    if (intersects) inside = !inside;
+  }
+  return inside;
+}
+
+// Positive when the point is to the right of a->b in screen coordinates (y down)
+function side(a: Point, b: Point, point: Point): number {
+  return (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+}
+
+export function segmentsIntersect(p1: Point, p2: Point, q1: Point, q2: Point): boolean {
+  const d1 = side(q1, q2, p1);
+  const d2 = side(q1, q2, p2);
+  const d3 = side(p1, p2, q1);
+  const d4 = side(p1, p2, q2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) &&
+    ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+export function crossingDirection(line: Point[], from: Point, to: Point): Exclude<CrossingDirection, 'both'> | null {
+  const [a, b] = line;
+  if (!a || !b || !segmentsIntersect(from, to, a, b)) return null;
+  return side(a, b, from) < 0 ? 'left-to-right' : 'right-to-left';
+}
+
+export function createZoneMonitor() {
+  // trackId -> last anchor point, zones it is inside and when it was last seen
+  const state = new Map<number, { point: Point; inside: Set<string>; lastSeen: number }>();
+  let eventCounter = 0;
+
+  const makeEvent = (
+    type: ZoneEventType,
+    zone: Zone,
+    trackId: number,
+    point: Point,
+    timestamp: number,
+    direction?: Exclude<CrossingDirection, 'both'>
+  ): ZoneEvent => ({
+    id: `${timestamp}-${eventCounter++}`,
+    type,
+    zoneId: zone.id,
+    zoneName: zone.name,
+    trackId,
+    direction,
+    point,
+    timestamp
+  });
+
+  return {
+    update(tracks: ZoneTrack[], zones: Zone[], timestamp: number = Date.now()): ZoneEvent[] {
+      const events: ZoneEvent[] = [];
+
+      for (const track of tracks) {
+        if (track.class !== 'person') continue;
+
+        const point = anchorPoint(track.bbox);
+        const previous = state.get(track.id);
+        const inside = new Set<string>();
+
+        for (const zone of zones) {
+          if (zone.kind === 'polygon') {
+            if (zone.points.length < 3 || !pointInPolygon(point, zone.points)) continue;
+            inside.add(zone.id);
+            // A brand-new track that appears inside a zone counts as entering it
+            if (!previous?.inside.has(zone.id)) {
+              events.push(makeEvent('enter', zone, track.id, point, timestamp));
+            }
+          } else if (previous) {
+            const direction = crossingDirection(zone.points, previous.point, point);
+            if (direction && (!zone.direction || zone.direction === 'both' || zone.direction === direction)) {
+              events.push(makeEvent('cross', zone, track.id, point, timestamp, direction));
+            }
+          }
+        }
+
+        previous?.inside.forEach(zoneId => {
+          const zone = zones.find(z => z.id === zoneId);
+          if (zone && !inside.has(zoneId)) {
+            events.push(makeEvent('exit', zone, track.id, point, timestamp));
+          }
+        });
+
+        state.set(track.id, { point, inside, lastSeen: timestamp });
+      }
+
+      // Once the tracker has given up on a track it will not come back under the same id,
+      // so it leaves every zone it was in rather than counting as an occupant
+      for (const [trackId, entry] of state.entries()) {
+        if (timestamp - entry.lastSeen <= TRACK_COAST_TIME) continue;
+        entry.inside.forEach(zoneId => {
+          const zone = zones.find(z => z.id === zoneId);
+          if (zone) events.push(makeEvent('exit', zone, trackId, entry.point, timestamp));
+        });
+        state.delete(trackId);
+      }
+
+      return events;
+    },
+
+    // Track ids currently inside a zone
+    occupants(zoneId: string): number[] {
+      return Array.from(state.entries())
+        .filter(([, entry]) => entry.inside.has(zoneId))
+        .map(([trackId]) => trackId);
+    },
+
+    reset() {
+      state.clear();
+    }
+  };
+}
+
+export type ZoneMonitor = ReturnType<typeof createZoneMonitor>;